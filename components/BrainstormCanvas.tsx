@@ -1,8 +1,18 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { MindMapNode, AppSelection, Library } from '../types';
+import { MindMapNode, AppSelection, Library, BrainstormSession, BrainstormLayout } from '../types';
 import { expandBrainstormNode, analyzeStartImage } from '../services/geminiService';
-import { Loader2, Sparkles, Image as ImageIcon, LayoutGrid, X, AlertCircle, MousePointerClick, RefreshCcw, Search, ZoomIn, ZoomOut, Maximize, Plus, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { getContextPath } from '../services/brainstormContext';
+import { dedupeAssociations, normalizeTerm } from '../services/brainstormTerms';
+import { AssociationDimension } from '../services/aiProvider';
+import { describeAIError, toAIError } from '../services/aiErrors';
+import { CacheMode } from '../services/responseCache';
+import { PHYSICS, indexNodes, isSettled, stepSimulation } from '../services/forceLayout';
+import { LayoutWorker, WORKER_NODE_THRESHOLD, createLayoutWorker } from '../services/layoutWorker';
+import { LAYOUT_OPTIONS, LayoutResult, computeLayout } from '../services/brainstormLayouts';
+import { DEFAULT_SESSION_NAME, createEmptySession, duplicateSession, listSessions, openInitialSession, openSession, removeSession, renameSession, saveSession, startSession } from '../services/brainstormSessions';
+import { subscribeTabSync } from '../services/tabSync';
+import { Loader2, Sparkles, Image as ImageIcon, LayoutGrid, X, AlertCircle, MousePointerClick, RefreshCcw, Search, ZoomIn, ZoomOut, Maximize, Plus, HelpCircle, ChevronDown, ChevronUp, Database, DatabaseZap, FolderOpen, Copy, Edit2, Trash2, RotateCw, Target, GitBranch, Atom, Orbit, Workflow, Boxes, Pin, PinOff } from 'lucide-react';
 
 // --- Types for Physics Engine ---
 
@@ -22,8 +32,16 @@ interface PhysicsLink {
   strength: number;
 }
 
+// How expandNode grows a node: first expansion, more of every dimension, or one dimension regenerated
+type ExpandMode = 'initial' | 'more' | AssociationDimension;
+
+const DIMENSION_ACTIONS: { dimension: AssociationDimension, label: string }[] = [
+  { dimension: 'up', label: '上级' },
+  { dimension: 'side', label: '同级' },
+  { dimension: 'down', label: '下级' },
+];
+
 interface BrainstormCanvasProps {
-  nodes: MindMapNode[];
   setNodes: React.Dispatch<React.SetStateAction<MindMapNode[]>>;
   selection: AppSelection;
   library: Library;
@@ -48,82 +66,225 @@ const BASE_RADIUS = {
   image: 40
 };
 
-// Physics Tuning - WIDE & STABLE
-const PHYSICS = {
-    FRICTION: 0.50,          // Keep high friction to prevent jitter
-    REPULSION: 1000,         // Increased Repulsion (was 500) to push nodes apart
-    LINK_STRENGTH: 0.008,    // Lower strength (was 0.015) to allow nodes to float further apart
-    LINK_DISTANCE: 260,      // Increased Distance (was 160) for better separation
-    CENTER_GRAVITY: 0.0001,  // Very weak pull
-    STOP_THRESHOLD: 2.0      // High threshold
-};
+// Debounce for session autosave after edits, drags and viewport changes
+const SESSION_SAVE_DELAY_MS = 800;
+
+const LAYOUT_ICONS: Record<BrainstormLayout, React.ElementType> = { force: Atom, radial: Orbit, tree: Workflow, clusters: Boxes };
+
+// Share of the remaining distance covered per frame when moving into a tidy layout
+const LAYOUT_EASING = 0.15;
+
+// Soft shadows are the costliest part of a node; large maps draw without them
+const SHADOW_NODE_LIMIT = 300;
 
-const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, selection, library, onNavigateToStudio }) => {
+const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ setNodes, selection, library, onNavigateToStudio }) => {
   // UI State (Overlays only)
   const [rootInput, setRootInput] = useState("");
   const [isInitializing, setIsInitializing] = useState(false);
   const [infoNode, setInfoNode] = useState<MindMapNode | null>(null);
   const [toast, setToast] = useState<{message: string, type: 'warning' | 'error'} | null>(null);
+  // 'fresh' bypasses cached associations (new results still refresh the cache)
+  const [cacheMode, setCacheMode] = useState<CacheMode>('use');
   const [isLegendExpanded, setIsLegendExpanded] = useState(false);
+  const [nodeActions, setNodeActions] = useState<{ node: PhysicsNode, x: number, y: number } | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ node: PhysicsNode, x: number, y: number } | null>(null);
+  const [layout, setLayout] = useState<BrainstormLayout>('force');
   
   // Force re-render for UI overlays when physics state changes significantly
   const [, setTick] = useState(0);
 
   // Physics & Canvas Refs (Mutable, High Performance)
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Both arrays are replaced, never mutated, so identity tells when the topology changed
   const nodesRef = useRef<PhysicsNode[]>([]);
   const linksRef = useRef<PhysicsLink[]>([]);
+  const nodeIndexRef = useRef({ nodes: [] as PhysicsNode[], index: new Map<string, PhysicsNode>() });
   const transformRef = useRef({ x: 0, y: 0, k: 1 }); // Viewport: Pan x/y, Zoom k
   const requestRef = useRef<number>(0);
-  const initializedRef = useRef(false);
   const simulationActiveRef = useRef(true);
+  // Off-thread layout for large maps; `synced` is the world it was last given
+  const layoutWorkerRef = useRef<LayoutWorker | null>(null);
+  const layoutSyncedRef = useRef<{ nodes: PhysicsNode[], links: PhysicsLink[] } | null>(null);
+  const layoutWorkerFailedRef = useRef(false);
+  // Tidy layouts: the arrangement being animated towards, recomputed when nodes, links or layout change
+  const layoutRef = useRef<BrainstormLayout>('force');
+  const layoutResultRef = useRef<{ nodes: PhysicsNode[], links: PhysicsLink[], layout: BrainstormLayout, result: LayoutResult } | null>(null);
   
   // Interaction Refs
   const isDragging = useRef<boolean>(false);
   const dragNode = useRef<PhysicsNode | null>(null);
+  // Node the dragged one would be re-parented under if dropped now; the dragged subtree is not eligible
+  const dropTarget = useRef<PhysicsNode | null>(null);
+  const dragSubtree = useRef<Set<string>>(new Set());
   const lastMousePos = useRef({ x: 0, y: 0 });
   const startDragPos = useRef({ x: 0, y: 0 }); // To distinguish click vs drag
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Helper: Sync global nodes to physics nodes (Restoration)
+  // --- Brainstorm Sessions ---
+  const [sessions, setSessions] = useState<BrainstormSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isSessionMenuOpen, setIsSessionMenuOpen] = useState(false);
+  const sessionRef = useRef<BrainstormSession | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Current canvas as a session record (physics-only fields dropped)
+  const snapshotSession = (): BrainstormSession | null => {
+      const session = sessionRef.current;
+      if (!session) return null;
+      return {
+          ...session,
+          nodes: nodesRef.current.map(({ vx, vy, radius, color, isDragging, isLoading, ...node }) => node),
+          links: linksRef.current.map(l => ({ ...l })),
+          viewport: { ...transformRef.current },
+          layout: layoutRef.current,
+          updatedAt: Date.now()
+      };
+  };
+
+  // Only touches refs and state setters, so it is safe to call from the animation loop
+  const flushSave = async () => {
+      if (saveTimerRef.current) {
+          clearTimeout(saveTimerRef.current);
+          saveTimerRef.current = null;
+      }
+      const snapshot = snapshotSession();
+      if (!snapshot) return;
+      sessionRef.current = snapshot;
+      const { saved, conflict } = await saveSession(snapshot);
+      if (conflict) return resolveSessionConflict(conflict);
+      if (!saved) return;
+      if (sessionRef.current?.id === saved.id) sessionRef.current = { ...sessionRef.current, revision: saved.revision };
+      setSessions(prev => [saved, ...prev.filter(s => s.id !== saved.id)]);
+  };
+
+  // Another tab saved this session since we loaded it
+  const resolveSessionConflict = async (theirs: BrainstormSession) => {
+      if (sessionRef.current?.id !== theirs.id) return;
+      if (confirm(`脑暴 "${theirs.name}" 已在另一个标签页中修改。\n\n确定：用本页内容覆盖\n取消：载入另一个标签页的版本`)) {
+          sessionRef.current = { ...sessionRef.current, revision: theirs.revision };
+          await flushSave();
+      } else {
+          applySession(theirs);
+      }
+  };
+
+  const scheduleSave = () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(flushSave, SESSION_SAVE_DELAY_MS);
+  };
+
+  const applySession = (session: BrainstormSession) => {
+      sessionRef.current = session;
+      setActiveSessionId(session.id);
+      nodesRef.current = session.nodes.map(n => createPhysicsNode(n, n.x, n.y));
+      linksRef.current = session.links.map(l => ({ ...l }));
+      transformRef.current = { ...session.viewport };
+      layoutRef.current = session.layout || 'force';
+      setLayout(layoutRef.current);
+      simulationActiveRef.current = true;
+      setRootInput(session.nodes.find(n => n.level === 0)?.text || "");
+      setNodes([...nodesRef.current]);
+  };
+
   useEffect(() => {
-    if (nodes.length > 0 && nodesRef.current.length === 0 && !initializedRef.current) {
-        // Restore from props
-        nodesRef.current = nodes.map(n => {
-            // Recalculate radius based on restored text
-            let r = n.level === 0 ? BASE_RADIUS.root : (n.type === 'image' ? BASE_RADIUS.image : BASE_RADIUS.normal);
-            // Simple adaptive radius estimate for restore
-            if (n.text && n.text.length > 6) {
-                r += Math.min(n.text.length * 1.5, 40);
-            }
-
-            return {
-                ...n,
-                x: (Math.random() - 0.5) * 100, 
-                y: (Math.random() - 0.5) * 100,
-                vx: 0,
-                vy: 0,
-                radius: r,
-                color: n.level === 0 ? COLORS.root : (n.associationType === 'up' ? COLORS.up : (n.associationType === 'side' ? COLORS.side : COLORS.down))
-            }
-        });
-        
-        // Rebuild links (Parent -> Child)
-        const newLinks: PhysicsLink[] = [];
-        nodesRef.current.forEach(n => {
-            if (n.parentId) {
-                // Verify parent exists
-                if (nodesRef.current.some(p => p.id === n.parentId)) {
-                    newLinks.push({ source: n.parentId, target: n.id, strength: 1 });
-                }
-            }
-        });
-        linksRef.current = newLinks;
-        initializedRef.current = true;
-        simulationActiveRef.current = true; // Restart sim on load
-    }
-  }, [nodes]);
+      const init = async () => {
+          applySession(await openInitialSession());
+          setSessions(await listSessions());
+      };
+      init();
+      // Last chance to persist a pending debounce when the page goes away
+      const handlePageHide = () => { if (saveTimerRef.current) flushSave(); };
+      window.addEventListener('pagehide', handlePageHide);
+      return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  // Follow saves from other tabs; with local edits pending, the next save reports the conflict instead
+  useEffect(() => subscribeTabSync(async message => {
+      if (message.type !== 'session') return;
+      setSessions(await listSessions());
+      const current = sessionRef.current;
+      if (!current || message.id !== current.id) return;
+      if (message.deleted) {
+          setToast({ message: "当前脑暴已在另一个标签页中删除，继续编辑将重新保存", type: 'warning' });
+          return;
+      }
+      if (message.revision <= (current.revision || 0) || saveTimerRef.current || nodesRef.current.some(n => n.isLoading)) return;
+      const session = await openSession(current.id);
+      if (session) applySession(session);
+  }), []);
+
+  const isCanvasBusy = () => isInitializing || nodesRef.current.some(n => n.isLoading);
+
+  const handleSwitchSession = async (id: string) => {
+      if (id === activeSessionId) return;
+      if (isCanvasBusy()) {
+          setToast({ message: "联想进行中，请稍后再切换", type: 'warning' });
+          return;
+      }
+      await flushSave();
+      const session = await openSession(id);
+      if (session) applySession(session);
+      setIsSessionMenuOpen(false);
+  };
+
+  const handleNewSession = async () => {
+      if (isCanvasBusy()) {
+          setToast({ message: "联想进行中，请稍后再新建", type: 'warning' });
+          return;
+      }
+      await flushSave();
+      const session = createEmptySession();
+      await startSession(session);
+      applySession(session);
+      setSessions(prev => [session, ...prev]);
+      setIsSessionMenuOpen(false);
+  };
+
+  const handleRenameSession = async (session: BrainstormSession) => {
+      const name = prompt("脑暴名称", session.name)?.trim();
+      if (!name || name === session.name) return;
+      if (session.id === sessionRef.current?.id) {
+          sessionRef.current = { ...sessionRef.current, name };
+          await flushSave();
+      } else {
+          await renameSession(session.id, name);
+          setSessions(await listSessions());
+      }
+  };
+
+  const handleDuplicateSession = async (session: BrainstormSession) => {
+      if (session.id === sessionRef.current?.id) await flushSave();
+      await duplicateSession(session.id);
+      setSessions(await listSessions());
+  };
+
+  const handleDeleteSession = async (session: BrainstormSession) => {
+      if (!confirm(`确定删除脑暴 "${session.name}" 吗？删除后无法恢复。`)) return;
+      const isActive = session.id === sessionRef.current?.id;
+      if (isActive && isCanvasBusy()) {
+          setToast({ message: "联想进行中，请稍后再删除", type: 'warning' });
+          return;
+      }
+      if (isActive && saveTimerRef.current) {
+          clearTimeout(saveTimerRef.current);
+          saveTimerRef.current = null;
+      }
+      await removeSession(session.id);
+      const remaining = await listSessions();
+      if (isActive) {
+          const next = remaining[0] ? await openSession(remaining[0].id) : null;
+          if (next) {
+              applySession(next);
+          } else {
+              const fresh = createEmptySession();
+              await startSession(fresh);
+              applySession(fresh);
+              remaining.push(fresh);
+          }
+      }
+      setSessions(remaining);
+  };
 
   // Toast Timer
   useEffect(() => {
@@ -215,6 +376,80 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
       });
   };
 
+  // --- Layout Helpers ---
+
+  // id -> node for the current nodes array, rebuilt only when the array is replaced
+  const getNodeIndex = () => {
+      if (nodeIndexRef.current.nodes !== nodesRef.current) {
+          nodeIndexRef.current = { nodes: nodesRef.current, index: indexNodes(nodesRef.current) };
+      }
+      return nodeIndexRef.current.index;
+  };
+
+  // Layout stays awake while a node is held or waiting for associations
+  const settleLayout = () => {
+      if (isDragging.current || nodesRef.current.some(n => n.isLoading)) return;
+      simulationActiveRef.current = false;
+      // Layout settled, persist final positions
+      scheduleSave();
+  };
+
+  const getLayoutResult = (): LayoutResult => {
+      const cached = layoutResultRef.current;
+      const nodes = nodesRef.current;
+      const links = linksRef.current;
+      const layout = layoutRef.current;
+      if (cached && cached.nodes === nodes && cached.links === links && cached.layout === layout) return cached.result;
+      const result = layout === 'force' ? { targets: new Map(), labels: [] } : computeLayout(layout, nodes, links);
+      layoutResultRef.current = { nodes, links, layout, result };
+      return result;
+  };
+
+  // One animation frame towards the tidy layout; true once every node has arrived
+  const tweenToLayout = () => {
+      const { targets } = getLayoutResult();
+      let moving = 0;
+      nodesRef.current.forEach(n => {
+          const target = targets.get(n.id);
+          if (!target || n.isDragging) return;
+          n.vx = 0;
+          n.vy = 0;
+          const dx = target.x - n.x;
+          const dy = target.y - n.y;
+          if (Math.abs(dx) + Math.abs(dy) < 0.5) {
+              n.x = target.x;
+              n.y = target.y;
+              return;
+          }
+          n.x += dx * LAYOUT_EASING;
+          n.y += dy * LAYOUT_EASING;
+          moving++;
+      });
+      return moving === 0;
+  };
+
+  const stopLayoutWorker = () => {
+      layoutWorkerRef.current?.dispose();
+      layoutWorkerRef.current = null;
+      layoutSyncedRef.current = null;
+  };
+
+  // The worker for maps past the threshold; null means step on this thread
+  const getLayoutWorker = (nodeCount: number) => {
+      if (nodeCount < WORKER_NODE_THRESHOLD || layoutWorkerFailedRef.current) {
+          if (layoutWorkerRef.current) stopLayoutWorker();
+          return null;
+      }
+      if (!layoutWorkerRef.current) {
+          layoutWorkerRef.current = createLayoutWorker(settleLayout, () => {
+              layoutWorkerFailedRef.current = true;
+              stopLayoutWorker();
+          });
+          if (!layoutWorkerRef.current) layoutWorkerFailedRef.current = true;
+      }
+      return layoutWorkerRef.current;
+  };
+
   // --- Main Loop: Physics + Render ---
   const loop = useCallback(() => {
       const canvas = canvasRef.current;
@@ -226,75 +461,22 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
       if (simulationActiveRef.current || isDragging.current) {
           const pNodes = nodesRef.current;
           const links = linksRef.current;
-          let totalEnergy = 0;
-
-          // Repulsion
-          for (let i = 0; i < pNodes.length; i++) {
-              for (let j = i + 1; j < pNodes.length; j++) {
-                  const a = pNodes[i];
-                  const b = pNodes[j];
-                  const dx = b.x - a.x;
-                  const dy = b.y - a.y;
-                  let distSq = dx * dx + dy * dy || 0.1;
-                  const dist = Math.sqrt(distSq);
-                  
-                  // Dynamic repulsion radius based on actual node sizes
-                  const minDist = a.radius + b.radius + 30; 
-
-                  if (dist < minDist * 2.5) { 
-                      const force = (PHYSICS.REPULSION * 50) / (distSq + 100); 
-                      const fx = (dx / dist) * force;
-                      const fy = (dy / dist) * force;
-
-                      if (!a.isDragging) { a.vx -= fx; a.vy -= fy; }
-                      if (!b.isDragging) { b.vx += fx; b.vy += fy; }
-                  }
-              }
-          }
-
-          // Spring Links
-          links.forEach(link => {
-              const source = pNodes.find(n => n.id === link.source);
-              const target = pNodes.find(n => n.id === link.target);
-              if (source && target) {
-                  const dx = target.x - source.x;
-                  const dy = target.y - source.y;
-                  const dist = Math.sqrt(dx * dx + dy * dy) || 1;
-                  
-                  // Adaptive link distance based on radii
-                  const targetDist = PHYSICS.LINK_DISTANCE + (source.radius + target.radius) * 0.5;
-
-                  const force = (dist - targetDist) * PHYSICS.LINK_STRENGTH; 
-                  const fx = (dx / dist) * force;
-                  const fy = (dy / dist) * force;
-
-                  if (!source.isDragging) { source.vx += fx; source.vy += fy; }
-                  if (!target.isDragging) { target.vx -= fx; target.vy -= fy; }
-              }
-          });
-
-          // Gravity / Friction
-          pNodes.forEach(n => {
-              if (!n.isDragging) {
-                  n.vx += (0 - n.x) * PHYSICS.CENTER_GRAVITY; 
-                  n.vy += (0 - n.y) * PHYSICS.CENTER_GRAVITY;
-                  n.vx *= PHYSICS.FRICTION;
-                  n.vy *= PHYSICS.FRICTION;
-
-                  // CRITICAL: Aggressive Velocity Clamping to stop jitter
-                  // If velocity is small, force to zero immediately
-                  if (Math.abs(n.vx) < 0.2) n.vx = 0;
-                  if (Math.abs(n.vy) < 0.2) n.vy = 0;
-
-                  n.x += n.vx;
-                  n.y += n.vy;
-                  totalEnergy += Math.abs(n.vx) + Math.abs(n.vy);
+          const layoutWorker = layoutRef.current === 'force' ? getLayoutWorker(pNodes.length) : null;
+
+          if (layoutRef.current !== 'force') {
+              if (layoutWorkerRef.current) stopLayoutWorker();
+              if (tweenToLayout()) settleLayout();
+          } else if (layoutWorker) {
+              // Positions arrive asynchronously; the dragged node is steered from here
+              const synced = layoutSyncedRef.current;
+              if (!synced || synced.nodes !== pNodes || synced.links !== links) {
+                  layoutWorker.load(pNodes, links);
+                  layoutSyncedRef.current = { nodes: pNodes, links };
               }
-          });
-
-          // Sleep check
-          if (totalEnergy < PHYSICS.STOP_THRESHOLD && !isDragging.current && !pNodes.some(n => n.isLoading)) {
-              simulationActiveRef.current = false;
+              layoutWorker.pin([dragNode.current, dropTarget.current].filter((n): n is PhysicsNode => n !== null));
+              layoutWorker.wake();
+          } else if (isSettled(stepSimulation(pNodes, links, getNodeIndex()))) {
+              settleLayout();
           }
       }
 
@@ -316,26 +498,46 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
       ctx.translate(cx + transform.x, cy + transform.y);
       ctx.scale(transform.k, transform.k);
 
-      // Draw Links
+      // Only what intersects the viewport is drawn (10px margin for the loading ring)
+      const viewLeft = (-cx - transform.x) / transform.k - 10;
+      const viewRight = (cx - transform.x) / transform.k + 10;
+      const viewTop = (-cy - transform.y) / transform.k - 10;
+      const viewBottom = (cy - transform.y) / transform.k + 10;
+      const drawShadows = nodesRef.current.length < SHADOW_NODE_LIMIT;
+
+      // Draw Links (one path for all of them)
+      const nodeIndex = getNodeIndex();
       ctx.lineWidth = 2;
+      ctx.strokeStyle = 'rgba(148, 163, 184, 0.3)';
+      ctx.beginPath();
       linksRef.current.forEach(link => {
-          const source = nodesRef.current.find(n => n.id === link.source);
-          const target = nodesRef.current.find(n => n.id === link.target);
+          const source = nodeIndex.get(link.source);
+          const target = nodeIndex.get(link.target);
           if (source && target) {
-              ctx.strokeStyle = 'rgba(148, 163, 184, 0.3)';
-              ctx.beginPath();
               ctx.moveTo(source.x, source.y);
               ctx.lineTo(target.x, target.y);
-              ctx.stroke();
           }
       });
+      ctx.stroke();
+
+      // Group captions of the tidy layout
+      ctx.fillStyle = 'rgba(148, 163, 184, 0.6)';
+      ctx.font = 'bold 18px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      getLayoutResult().labels.forEach(label => ctx.fillText(label.text, label.x, label.y));
 
       // Draw Nodes
       nodesRef.current.forEach(node => {
+          if (node.x + node.radius < viewLeft || node.x - node.radius > viewRight
+              || node.y + node.radius < viewTop || node.y - node.radius > viewBottom) return;
+
           // Shadow
-          ctx.shadowColor = 'rgba(0,0,0,0.3)';
-          ctx.shadowBlur = 10;
-          ctx.shadowOffsetY = 4;
+          if (drawShadows) {
+              ctx.shadowColor = 'rgba(0,0,0,0.3)';
+              ctx.shadowBlur = 10;
+              ctx.shadowOffsetY = 4;
+          }
 
           // Shape
           ctx.beginPath();
@@ -379,6 +581,17 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
               drawWrappedText(ctx, node.text, node.x, node.y, maxWidth, fontSize * 1.2);
           }
 
+          // Pin badge
+          if (node.isPinned) {
+              ctx.beginPath();
+              ctx.arc(node.x + node.radius * 0.7, node.y - node.radius * 0.7, 5, 0, Math.PI * 2);
+              ctx.fillStyle = '#f8fafc';
+              ctx.fill();
+              ctx.lineWidth = 2;
+              ctx.strokeStyle = COLORS.bg;
+              ctx.stroke();
+          }
+
           // Loading Spinner Ring
           if (node.isLoading) {
               const time = Date.now() / 200;
@@ -390,6 +603,18 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
           }
       });
 
+      // Drop target while dragging a node onto another
+      const target = dropTarget.current;
+      if (target) {
+          ctx.beginPath();
+          ctx.arc(target.x, target.y, target.radius + 8, 0, Math.PI * 2);
+          ctx.setLineDash([6, 4]);
+          ctx.strokeStyle = '#34d399'; // Emerald 400
+          ctx.lineWidth = 3;
+          ctx.stroke();
+          ctx.setLineDash([]);
+      }
+
       ctx.restore();
       
       requestRef.current = requestAnimationFrame(loop);
@@ -398,7 +623,10 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
   // Start/Stop Loop
   useEffect(() => {
       requestRef.current = requestAnimationFrame(loop);
-      return () => cancelAnimationFrame(requestRef.current);
+      return () => {
+          cancelAnimationFrame(requestRef.current);
+          stopLayoutWorker();
+      };
   }, [loop]);
 
 
@@ -419,6 +647,9 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
 
   const handleMouseDown = (e: React.MouseEvent) => {
       e.preventDefault();
+      setNodeActions(null);
+      setContextMenu(null);
+      if (e.button !== 0) return; // Right button opens the context menu instead
       const pos = getWorldPos(e);
       lastMousePos.current = { x: e.clientX, y: e.clientY };
       startDragPos.current = { x: e.clientX, y: e.clientY }; 
@@ -431,6 +662,7 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
           if (dist <= node.radius) {
               isDragging.current = true;
               dragNode.current = node;
+              dragSubtree.current = getSubtreeIds(node.id);
               node.isDragging = true;
               simulationActiveRef.current = true; // Wake up physics
               return;
@@ -477,6 +709,7 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
           dragNode.current.y += dy / t.k;
           dragNode.current.vx = 0;
           dragNode.current.vy = 0;
+          updateDropTarget(dragNode.current);
           simulationActiveRef.current = true; // Keep awake
       } else {
           // Pan Canvas
@@ -486,14 +719,20 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
   };
 
   const handleMouseUp = async (e: React.MouseEvent) => {
+      if (isDragging.current) scheduleSave(); // Node moved or canvas panned
       isDragging.current = false;
       if (canvasRef.current) canvasRef.current.style.cursor = 'grab';
 
       const node = dragNode.current;
+      const target = dropTarget.current;
       
       if (node) {
           node.isDragging = false;
           dragNode.current = null;
+          if (target) {
+              target.isDragging = false;
+              dropTarget.current = null;
+          }
 
           // Click Detection: moved very little?
           const moveDist = Math.sqrt(
@@ -510,32 +749,89 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
                   setTick(t => t + 1); 
               } else if (node.type === 'image') {
                   setInfoNode(node);
+              } else if (linksRef.current.some(l => l.source === node.id)) {
+                  openNodeActions(node);
               } else {
                   // Expand
                   await expandNode(node);
               }
+          } else if (target) {
+              reparentNode(node, target);
+          } else if (layoutRef.current !== 'force') {
+              // A tidy layout would pull the node straight back; moving it pins it (and its branch) there
+              node.isPinned = true;
+              commitEdit([...nodesRef.current], linksRef.current);
           }
       }
   };
 
+  // Overlapping another node while dragging makes it the drop target; it holds still so it can be hit
+  const updateDropTarget = (node: PhysicsNode) => {
+      const nodes = nodesRef.current;
+      let next: PhysicsNode | null = null;
+      for (let i = nodes.length - 1; i >= 0; i--) {
+          const other = nodes[i];
+          if (dragSubtree.current.has(other.id)) continue;
+          if (Math.sqrt((node.x - other.x) ** 2 + (node.y - other.y) ** 2) < Math.max(node.radius, other.radius)) {
+              next = other;
+              break;
+          }
+      }
+      if (next === dropTarget.current) return;
+      if (dropTarget.current) dropTarget.current.isDragging = false;
+      if (next) next.isDragging = true;
+      dropTarget.current = next;
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+      e.preventDefault();
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const pos = getWorldPos(e);
+      const node = [...nodesRef.current].reverse().find(n => Math.sqrt((pos.x - n.x) ** 2 + (pos.y - n.y) ** 2) <= n.radius);
+      if (!node) return;
+      const rect = canvas.getBoundingClientRect();
+      // Kept inside the canvas (menu is about 210 x 190)
+      setContextMenu({ node, x: Math.min(e.clientX - rect.left, rect.width - 216), y: Math.min(e.clientY - rect.top, rect.height - 196) });
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
+      setNodeActions(null);
+      setContextMenu(null);
       const zoomSensitivity = 0.001;
       const delta = -e.deltaY * zoomSensitivity;
       const t = transformRef.current;
       const newScale = Math.max(0.1, Math.min(5, t.k + delta));
       t.k = newScale;
+      scheduleSave();
+  };
+
+  const zoomBy = (factor: number) => {
+      transformRef.current.k *= factor;
+      scheduleSave();
+  };
+
+  const resetView = () => {
+      transformRef.current = { x: 0, y: 0, k: 1 };
+      scheduleSave();
   };
 
   // --- Actions ---
 
   const syncNodesToGlobal = () => {
       setNodes([...nodesRef.current]);
+      scheduleSave();
   };
 
   const startRoot = async (text: string) => {
       if (!text.trim()) return;
       setIsInitializing(true);
       
+      // New root replaces the current map; an untitled session takes the root's name
+      if (sessionRef.current?.name === DEFAULT_SESSION_NAME) {
+          sessionRef.current = { ...sessionRef.current, name: text.trim() };
+      }
+
       // Reset
       nodesRef.current = [];
       linksRef.current = [];
@@ -561,34 +857,57 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
           await expandNode(rootPNode);
       } catch (e: any) {
           rootPNode.isLoading = false;
-          setToast({ message: "初始化失败", type: 'error' });
+          setToast({ message: `初始化失败: ${describeAIError(e)}`, type: 'error' });
       } finally {
           setIsInitializing(false);
           syncNodesToGlobal();
       }
   };
 
-  const expandNode = async (node: PhysicsNode) => {
+  /**
+   * 'initial' expands a leaf; 'more' adds items to an expanded node; a dimension
+   * replaces that dimension's untouched leaves. New words are checked against the whole map.
+   */
+  const expandNode = async (node: PhysicsNode, mode: ExpandMode = 'initial') => {
       // Always look up the latest node from ref
-      const currentNode = nodesRef.current.find(n => n.id === node.id);
+      const currentNode = getNodeIndex().get(node.id);
       if (!currentNode) return;
       
       const hasChildren = linksRef.current.some(l => l.source === currentNode.id);
-      if (currentNode.isLoading || hasChildren) return;
+      if (currentNode.isLoading || (mode === 'initial' && hasChildren)) return;
 
       currentNode.isLoading = true;
       simulationActiveRef.current = true; // Wake physics
       setTick(t => t + 1); 
 
+      // Regenerating a dimension drops its leaves; expanded or marked children hold work and stay
+      const replaced = typeof mode === 'string' && mode !== 'initial' && mode !== 'more'
+          ? nodesRef.current.filter(n => n.parentId === currentNode.id && n.associationType === mode && !n.isMarked && !linksRef.current.some(l => l.source === n.id))
+          : [];
+      const replacedIds = new Set(replaced.map(n => n.id));
+
       try {
-          const result = await expandBrainstormNode(currentNode, [currentNode.text], library.prompts);
+          const contextPath = getContextPath(currentNode, nodesRef.current, library.brainstorm.contextDepth);
+          const siblings = nodesRef.current.filter(n => n.parentId === currentNode.id);
+          const result = await expandBrainstormNode(currentNode, contextPath, library.prompts, library.models, library.pricing, cacheMode, mode === 'initial' ? {} : {
+              exclude: [...contextPath.map(step => step.text), ...siblings.map(n => n.text)],
+              only: mode === 'more' ? undefined : mode
+          });
+
+          // Apply the replacement only once the new words are in, so a failed call loses nothing
+          if (replacedIds.size > 0) {
+              nodesRef.current = nodesRef.current.filter(n => !replacedIds.has(n.id));
+              linksRef.current = linksRef.current.filter(l => !replacedIds.has(l.target));
+          }
+          const { result: fresh, dropped } = dedupeAssociations(result, [...nodesRef.current.map(n => n.text), ...replaced.map(n => n.text)]);
           
           const newNodesData: MindMapNode[] = [];
+          const stamp = Date.now();
           
-          const processGroup = (texts: string[], type: 'up'|'side'|'down') => {
+          const processGroup = (texts: string[], type: AssociationDimension) => {
               texts.forEach((text, idx) => {
                   newNodesData.push({
-                      id: `${currentNode.id}-${type}-${idx}-${Date.now()}`,
+                      id: `${currentNode.id}-${type}-${idx}-${stamp}`,
                       text,
                       type: 'text',
                       level: currentNode.level + 1,
@@ -599,12 +918,14 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
               });
           };
 
-          processGroup(result.up || [], 'up');
-          processGroup(result.side || [], 'side');
-          processGroup(result.down || [], 'down');
+          processGroup(fresh.up, 'up');
+          processGroup(fresh.side, 'side');
+          processGroup(fresh.down, 'down');
 
           if (newNodesData.length === 0) {
-              setToast({ message: "没有联想出新词汇", type: 'warning' });
+              setToast({ message: dropped > 0 ? "联想结果都已在画布上，可换个节点或强制刷新" : "没有联想出新词汇", type: 'warning' });
+          } else if (dropped > 0) {
+              setToast({ message: `已跳过 ${dropped} 个画布上已有的词`, type: 'warning' });
           }
 
           // Add to Physics World with Better Initial Positions
@@ -623,16 +944,191 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
           nodesRef.current = [...nodesRef.current, ...newPNodes];
           linksRef.current = [...linksRef.current, ...newLinks];
           
-          currentNode.children = newNodesData.map(n => n.id);
+          currentNode.children = [...currentNode.children.filter(id => !replacedIds.has(id)), ...newNodesData.map(n => n.id)];
           
       } catch (e: any) {
-          setToast({ message: `扩展失败: ${e.message}`, type: 'error' });
+          // Safety blocks are a content issue, not a system failure
+          setToast({ message: `扩展失败: ${describeAIError(e)}`, type: toAIError(e).kind === 'safety' ? 'warning' : 'error' });
       } finally {
           currentNode.isLoading = false;
           syncNodesToGlobal();
       }
   };
 
+  // Popover for an already expanded node, anchored at its screen position when clicked
+  const openNodeActions = (node: PhysicsNode) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const t = transformRef.current;
+      setNodeActions({
+          node,
+          x: node.x * t.k + t.x + canvas.width / 2,
+          y: (node.y + node.radius) * t.k + t.y + canvas.height / 2 + 8
+      });
+  };
+
+  const runNodeAction = (mode: ExpandMode) => {
+      if (!nodeActions) return;
+      const { node } = nodeActions;
+      setNodeActions(null);
+      expandNode(node, mode);
+  };
+
+  // --- Direct Editing ---
+
+  const getChildIds = () => {
+      const childIds = new Map<string, string[]>();
+      linksRef.current.forEach(l => childIds.set(l.source, [...(childIds.get(l.source) || []), l.target]));
+      return childIds;
+  };
+
+  // `rootId` and everything linked below it
+  const getSubtreeIds = (rootId: string) => {
+      const childIds = getChildIds();
+      const ids = new Set([rootId]);
+      const queue = [rootId];
+      while (queue.length > 0) {
+          (childIds.get(queue.shift()!) || []).forEach(id => {
+              if (ids.has(id)) return;
+              ids.add(id);
+              queue.push(id);
+          });
+      }
+      return ids;
+  };
+
+  // Levels below `node` after it moved; run once the links describe the new tree
+  const relevelSubtree = (node: PhysicsNode) => {
+      const childIds = getChildIds();
+      const index = getNodeIndex();
+      const queue = [node];
+      while (queue.length > 0) {
+          const parent = queue.shift()!;
+          (childIds.get(parent.id) || []).forEach(id => {
+              const child = index.get(id);
+              if (!child || child.level === parent.level + 1) return;
+              child.level = parent.level + 1;
+              queue.push(child);
+          });
+      }
+  };
+
+  // Radius and color follow text, level and association type
+  const restyleNode = (node: PhysicsNode) => {
+      const { radius, color } = createPhysicsNode(node, node.x, node.y);
+      node.radius = radius;
+      node.color = color;
+  };
+
+  // New arrays, so the layout (and its worker) see the change; then sync and save like any edit
+  const commitEdit = (nodes: PhysicsNode[], links: PhysicsLink[]) => {
+      nodesRef.current = nodes;
+      linksRef.current = links;
+      simulationActiveRef.current = true;
+      syncNodesToGlobal();
+      setTick(t => t + 1);
+  };
+
+  const detachFromParent = (node: PhysicsNode) => {
+      const parent = node.parentId ? getNodeIndex().get(node.parentId) : undefined;
+      if (parent) parent.children = parent.children.filter(id => id !== node.id);
+      node.parentId = undefined;
+      return linksRef.current.filter(l => l.target !== node.id);
+  };
+
+  const renameNode = (node: PhysicsNode) => {
+      const text = prompt("节点内容", node.text)?.trim();
+      if (!text || text === node.text) return;
+      node.text = text;
+      restyleNode(node);
+      if (node.level === 0) setRootInput(text);
+      commitEdit([...nodesRef.current], linksRef.current);
+  };
+
+  const addChildNode = (parent: PhysicsNode, type: AssociationDimension, label: string) => {
+      const text = prompt(`为「${parent.text}」添加${label}联想`)?.trim();
+      if (!text) return;
+      const duplicate = nodesRef.current.find(n => normalizeTerm(n.text) === normalizeTerm(text));
+      if (duplicate && !confirm(`画布上已有「${duplicate.text}」，仍要添加吗？`)) return;
+
+      const angle = Math.random() * Math.PI * 2;
+      const child = createPhysicsNode({
+          id: `${parent.id}-${type}-manual-${Date.now()}`,
+          text,
+          type: 'text',
+          level: parent.level + 1,
+          children: [],
+          parentId: parent.id,
+          associationType: type
+      }, parent.x + Math.cos(angle) * PHYSICS.LINK_DISTANCE * 0.8, parent.y + Math.sin(angle) * PHYSICS.LINK_DISTANCE * 0.8);
+      parent.children = [...parent.children, child.id];
+      commitEdit([...nodesRef.current, child], [...linksRef.current, { source: parent.id, target: child.id, strength: 1 }]);
+  };
+
+  const deleteNode = (node: PhysicsNode) => {
+      const ids = getSubtreeIds(node.id);
+      if (nodesRef.current.some(n => ids.has(n.id) && n.isLoading)) {
+          setToast({ message: "联想进行中，请稍后再删除", type: 'warning' });
+          return;
+      }
+      if (ids.size > 1 && !confirm(`确定删除「${node.text}」及其下的 ${ids.size - 1} 个节点吗？`)) return;
+      detachFromParent(node);
+      commitEdit(
+          nodesRef.current.filter(n => !ids.has(n.id)),
+          linksRef.current.filter(l => !ids.has(l.source) && !ids.has(l.target))
+      );
+  };
+
+  // Cuts the branch loose as its own topic; prompts for it no longer see the old ancestors
+  const makeRootNode = (node: PhysicsNode) => {
+      if (!node.parentId) return;
+      const links = detachFromParent(node);
+      node.level = 0;
+      node.associationType = 'root';
+      restyleNode(node);
+      linksRef.current = links;
+      relevelSubtree(node);
+      commitEdit([...nodesRef.current], links);
+  };
+
+  const reparentNode = (node: PhysicsNode, parent: PhysicsNode) => {
+      if (node.parentId === parent.id || getSubtreeIds(node.id).has(parent.id)) return;
+      const links = [...detachFromParent(node), { source: parent.id, target: node.id, strength: 1 }];
+      parent.children = [...parent.children, node.id];
+      node.parentId = parent.id;
+      node.level = parent.level + 1;
+      if (node.associationType === 'root') node.associationType = 'down';
+      restyleNode(node);
+      linksRef.current = links;
+      relevelSubtree(node);
+      commitEdit([...nodesRef.current], links);
+  };
+
+  const togglePinned = (node: PhysicsNode) => {
+      node.isPinned = node.isPinned ? undefined : true;
+      commitEdit([...nodesRef.current], linksRef.current);
+  };
+
+  const unpinAll = () => {
+      nodesRef.current.forEach(n => { n.isPinned = undefined; });
+      commitEdit([...nodesRef.current], linksRef.current);
+  };
+
+  const changeLayout = (next: BrainstormLayout) => {
+      if (next === layoutRef.current) return;
+      layoutRef.current = next;
+      setLayout(next);
+      simulationActiveRef.current = true;
+      scheduleSave();
+  };
+
+  const runContextAction = (action: (node: PhysicsNode) => void) => {
+      if (!contextMenu) return;
+      const { node } = contextMenu;
+      setContextMenu(null);
+      action(node);
+  };
+
   const handleGoToStudio = () => {
       syncNodesToGlobal(); 
       if (onNavigateToStudio) {
@@ -648,11 +1144,11 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
       reader.onloadend = async () => {
           try {
             const base64 = reader.result as string;
-            const analysis = await analyzeStartImage(base64, library.prompts);
+            const analysis = await analyzeStartImage(base64, library.prompts, library.models, library.pricing, cacheMode);
             setRootInput(analysis);
             startRoot(analysis);
           } catch (e: any) {
-             setToast({ message: `分析失败: ${e.message}`, type: 'error' });
+             setToast({ message: `分析失败: ${describeAIError(e)}`, type: toAIError(e).kind === 'safety' ? 'warning' : 'error' });
           }
       };
       reader.readAsDataURL(file);
@@ -693,14 +1189,87 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
             </div>
        </div>
 
+       {/* Session Switcher */}
+       <div className="absolute top-6 left-6 z-30 w-56 pointer-events-auto">
+            <button
+                onClick={() => setIsSessionMenuOpen(!isSessionMenuOpen)}
+                className="w-full bg-slate-800/80 backdrop-blur-md px-3 py-2.5 rounded-xl border border-white/10 flex items-center gap-2 text-sm text-slate-200 hover:bg-slate-700/80 transition-colors"
+                title="切换脑暴"
+            >
+                <FolderOpen className="w-4 h-4 text-indigo-400 shrink-0" />
+                <span className="truncate font-medium flex-1 text-left">{sessions.find(s => s.id === activeSessionId)?.name || sessionRef.current?.name || DEFAULT_SESSION_NAME}</span>
+                {isSessionMenuOpen ? <ChevronUp className="w-3 h-3 shrink-0"/> : <ChevronDown className="w-3 h-3 shrink-0"/>}
+            </button>
+            {isSessionMenuOpen && (
+                <div className="mt-2 bg-slate-800/95 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl p-1.5 max-h-80 overflow-y-auto animate-in fade-in slide-in-from-top-2">
+                    <button
+                        onClick={handleNewSession}
+                        className="w-full flex items-center gap-2 px-2 py-2 rounded-lg text-xs font-bold text-indigo-300 hover:bg-white/5"
+                    >
+                        <Plus className="w-3.5 h-3.5" /> 新建脑暴
+                    </button>
+                    <div className="h-px bg-white/10 my-1"></div>
+                    {sessions.map(session => (
+                        <div
+                            key={session.id}
+                            className={`group flex items-center gap-1 px-2 py-1.5 rounded-lg ${session.id === activeSessionId ? 'bg-indigo-500/20' : 'hover:bg-white/5'}`}
+                        >
+                            <button onClick={() => handleSwitchSession(session.id)} className="flex-1 min-w-0 text-left">
+                                <div className="text-xs text-slate-200 truncate">{session.name}</div>
+                                <div className="text-[10px] text-slate-500">{session.nodes.length} 个节点 · {new Date(session.updatedAt).toLocaleDateString()}</div>
+                            </button>
+                            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => handleRenameSession(session)} className="p-1 text-slate-400 hover:text-white" title="重命名"><Edit2 className="w-3 h-3" /></button>
+                                <button onClick={() => handleDuplicateSession(session)} className="p-1 text-slate-400 hover:text-white" title="复制"><Copy className="w-3 h-3" /></button>
+                                <button onClick={() => handleDeleteSession(session)} className="p-1 text-slate-400 hover:text-rose-400" title="删除"><Trash2 className="w-3 h-3" /></button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+       </div>
+
        {/* View Controls */}
        <div className="absolute top-6 right-6 z-20 flex flex-col gap-2 pointer-events-auto">
             <div className="bg-slate-800/80 backdrop-blur-md p-1.5 rounded-xl border border-white/10 flex flex-col gap-1">
-                <button onClick={() => transformRef.current.k *= 1.2} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors"><ZoomIn className="w-5 h-5"/></button>
-                <button onClick={() => transformRef.current.k *= 0.8} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors"><ZoomOut className="w-5 h-5"/></button>
-                <button onClick={() => transformRef.current = {x:0, y:0, k:1}} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors"><Maximize className="w-5 h-5"/></button>
+                <button onClick={() => zoomBy(1.2)} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors"><ZoomIn className="w-5 h-5"/></button>
+                <button onClick={() => zoomBy(0.8)} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors"><ZoomOut className="w-5 h-5"/></button>
+                <button onClick={resetView} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors"><Maximize className="w-5 h-5"/></button>
+                <div className="h-px bg-white/10 mx-1"></div>
+                <button
+                    onClick={() => setCacheMode(cacheMode === 'use' ? 'fresh' : 'use')}
+                    className={`p-2 rounded-lg transition-colors ${cacheMode === 'fresh' ? 'bg-amber-500/20 text-amber-400' : 'hover:bg-white/10 text-slate-300'}`}
+                    title={cacheMode === 'use' ? '使用缓存联想 (点击切换为强制刷新)' : '强制刷新 (点击切换为使用缓存)'}
+                >
+                    {cacheMode === 'use' ? <Database className="w-5 h-5"/> : <DatabaseZap className="w-5 h-5"/>}
+                </button>
             </div>
             
+            {/* Layout */}
+            <div className="bg-slate-800/80 backdrop-blur-md p-1.5 rounded-xl border border-white/10 flex flex-col gap-1">
+                {LAYOUT_OPTIONS.map(({ layout: option, label }) => {
+                    const Icon = LAYOUT_ICONS[option];
+                    return (
+                        <button
+                            key={option}
+                            onClick={() => changeLayout(option)}
+                            className={`p-2 rounded-lg transition-colors ${layout === option ? 'bg-indigo-500/30 text-indigo-300' : 'hover:bg-white/10 text-slate-300'}`}
+                            title={`布局：${label}`}
+                        >
+                            <Icon className="w-5 h-5"/>
+                        </button>
+                    );
+                })}
+                {nodesRef.current.some(n => n.isPinned) && (
+                    <>
+                        <div className="h-px bg-white/10 mx-1"></div>
+                        <button onClick={unpinAll} className="p-2 hover:bg-white/10 rounded-lg text-slate-300 transition-colors" title="取消全部固定">
+                            <PinOff className="w-5 h-5"/>
+                        </button>
+                    </>
+                )}
+            </div>
+
             {nodesRef.current.some(n => n.isMarked) && (
                 <button 
                     onClick={handleGoToStudio}
@@ -744,7 +1313,11 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
                         <div className="flex items-center gap-2"><div className="w-2.5 h-2.5 rounded-full" style={{background: COLORS.down}}></div> 下级 (Down)</div>
                         <div className="pt-2 mt-2 border-t border-white/10 text-[10px] text-slate-500 leading-relaxed">
                             <div className="flex items-center gap-1.5"><MousePointerClick className="w-3 h-3"/> 点击展开联想</div>
+                            <div className="flex items-center gap-1.5"><RotateCw className="w-3 h-3"/> 点击已展开节点：更多 / 重新生成</div>
                             <div className="flex items-center gap-1.5"><span className="font-bold border border-slate-600 rounded px-1 text-[9px]">Shift</span> + 点击标记生成</div>
+                            <div className="flex items-center gap-1.5"><Edit2 className="w-3 h-3"/> 右键节点：重命名 / 添加 / 删除</div>
+                            <div className="flex items-center gap-1.5"><GitBranch className="w-3 h-3"/> 拖到另一节点上：移动分支</div>
+                            <div className="flex items-center gap-1.5"><Pin className="w-3 h-3"/> 整理布局中拖动节点即固定</div>
                             <div className="flex items-center gap-1.5"><RefreshCcw className="w-3 h-3"/> 滚轮缩放 / 拖拽移动</div>
                         </div>
                     </div>
@@ -760,6 +1333,7 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
+            onContextMenu={handleContextMenu}
             onWheel={handleWheel}
         />
 
@@ -773,6 +1347,72 @@ const BrainstormCanvas: React.FC<BrainstormCanvasProps> = ({ nodes, setNodes, se
             </div>
         )}
 
+       {/* Expanded Node Actions */}
+       {nodeActions && (
+           <div
+               className="absolute z-30 -translate-x-1/2 bg-slate-800/95 backdrop-blur-md rounded-xl border border-white/10 shadow-xl p-1.5 flex items-center gap-1 text-xs text-slate-200 animate-in fade-in zoom-in duration-150"
+               style={{ left: nodeActions.x, top: nodeActions.y }}
+           >
+               <button onClick={() => runNodeAction('more')} className="px-2.5 py-1.5 rounded-lg hover:bg-white/10 flex items-center gap-1 font-bold">
+                   <Plus className="w-3.5 h-3.5" /> 展开更多
+               </button>
+               <div className="w-px h-4 bg-white/10" />
+               <span className="px-1 text-slate-400">重新生成</span>
+               {DIMENSION_ACTIONS.map(({ dimension, label }) => (
+                   <button
+                       key={dimension}
+                       onClick={() => runNodeAction(dimension)}
+                       className="px-2 py-1.5 rounded-lg hover:bg-white/10 flex items-center gap-1"
+                       title={`替换未展开、未标记的${label}联想`}
+                   >
+                       <span className="w-2 h-2 rounded-full" style={{ background: COLORS[dimension] }} /> {label}
+                   </button>
+               ))}
+               <button onClick={() => setNodeActions(null)} className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400"><X className="w-3.5 h-3.5" /></button>
+           </div>
+       )}
+
+       {/* Node Context Menu */}
+       {contextMenu && (
+           <div
+               className="absolute z-30 w-52 bg-slate-800/95 backdrop-blur-md rounded-xl border border-white/10 shadow-xl p-1.5 flex flex-col text-xs text-slate-200 animate-in fade-in zoom-in duration-150"
+               style={{ left: contextMenu.x, top: contextMenu.y }}
+               onContextMenu={e => e.preventDefault()}
+           >
+               <div className="px-2.5 py-1.5 font-bold text-white truncate border-b border-white/10 mb-1">{contextMenu.node.text}</div>
+               <button onClick={() => runContextAction(renameNode)} className="px-2.5 py-1.5 rounded-lg hover:bg-white/10 flex items-center gap-2 text-left">
+                   <Edit2 className="w-3.5 h-3.5 text-slate-400" /> 重命名
+               </button>
+               <div className="px-2.5 py-1.5 flex items-center gap-1">
+                   <Plus className="w-3.5 h-3.5 text-slate-400 mr-1" />
+                   <span className="mr-auto">添加</span>
+                   {DIMENSION_ACTIONS.map(({ dimension, label }) => (
+                       <button
+                           key={dimension}
+                           onClick={() => runContextAction(node => addChildNode(node, dimension, label))}
+                           className="px-1.5 py-0.5 rounded-md hover:bg-white/10 flex items-center gap-1"
+                           title={`手动添加${label}联想`}
+                       >
+                           <span className="w-2 h-2 rounded-full" style={{ background: COLORS[dimension] }} /> {label}
+                       </button>
+                   ))}
+               </div>
+               <button onClick={() => runContextAction(togglePinned)} className="px-2.5 py-1.5 rounded-lg hover:bg-white/10 flex items-center gap-2 text-left" title="固定的节点在任何布局中都保持原位">
+                   {contextMenu.node.isPinned
+                       ? <><PinOff className="w-3.5 h-3.5 text-slate-400" /> 取消固定</>
+                       : <><Pin className="w-3.5 h-3.5 text-slate-400" /> 固定位置</>}
+               </button>
+               {contextMenu.node.parentId && (
+                   <button onClick={() => runContextAction(makeRootNode)} className="px-2.5 py-1.5 rounded-lg hover:bg-white/10 flex items-center gap-2 text-left" title="从上级断开，作为独立的核心节点">
+                       <Target className="w-3.5 h-3.5 text-slate-400" /> 设为新核心
+                   </button>
+               )}
+               <button onClick={() => runContextAction(deleteNode)} className="px-2.5 py-1.5 rounded-lg hover:bg-red-500/20 text-red-300 flex items-center gap-2 text-left">
+                   <Trash2 className="w-3.5 h-3.5" /> 删除 (含下级节点)
+               </button>
+           </div>
+       )}
+
        {/* Image Info Modal */}
        {infoNode && (
            <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setInfoNode(null)}>
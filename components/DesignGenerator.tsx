@@ -1,27 +1,57 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { AppSelection, Library, GeneratedDesign, MindMapNode } from '../types';
-import { generatePhoneCaseDesign, generateDesignVariants } from '../services/geminiService';
-import { Wand2, Download, Loader2, Maximize2, Info, FileText, ImageIcon, X, Layers, Settings2, Plus, Minus, Coins, Calculator, Gem, Check, Split, Sparkles, ArrowLeft, ArrowRight, Grid, Save } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppSelection, Library, GeneratedDesign, GenerationMetadata, MindMapNode, GenerationJob, JobStatus } from '../types';
+import { generatePhoneCaseDesign, generateVariantPrompts, generateVariantDesign } from '../services/geminiService';
+import { formatContextPath, getContextPath } from '../services/brainstormContext';
+import { createJobQueue, JobQueue } from '../services/jobQueue';
+import { describeAIError } from '../services/aiErrors';
+import { CacheMode } from '../services/responseCache';
+import { GALLERY_PAGE_SIZE, hydrateDesign, loadDesignPage, releaseDesign, removeDesign, saveDesigns, setDesignStarred, subscribeGallery } from '../services/designStore';
+import { formatMoney, toLocalAmount, estimateImageCostUSD } from '../services/pricing';
+import { checkBudget, convertFromUSD, getPendingSpendUSD, getSpendSummary, reserveSpend, subscribeSpend } from '../services/budget';
+import { subscribeTabSync } from '../services/tabSync';
+import { Wand2, Download, Loader2, Maximize2, Info, FileText, ImageIcon, X, Layers, Settings2, Plus, Minus, Coins, Calculator, Gem, Check, Split, Sparkles, ArrowLeft, ArrowRight, Grid, Save, ListChecks, RotateCcw, ChevronDown, ChevronUp, Trash2, Clock, Star } from 'lucide-react';
+
+const JOB_STATUS_STYLES: Record<JobStatus, { label: string, className: string }> = {
+  queued: { label: '排队中', className: 'bg-gray-100 text-gray-500' },
+  running: { label: '生成中', className: 'bg-indigo-100 text-indigo-600' },
+  succeeded: { label: '已完成', className: 'bg-green-100 text-green-600' },
+  failed: { label: '失败', className: 'bg-rose-100 text-rose-600' },
+  cancelled: { label: '已取消', className: 'bg-amber-100 text-amber-600' },
+};
+
+const isJobActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
 
 interface DesignGeneratorProps {
   selectedNodes: MindMapNode[]; // These are the "Marked" nodes
+  nodes: MindMapNode[]; // Whole map, for each concept's ancestor path
   selection: AppSelection; // Global selection
   setSelection: React.Dispatch<React.SetStateAction<AppSelection>>; // To allow editing config here
   library: Library;
   onRemoveNode?: (id: string) => void;
 }
 
-const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, selection, setSelection, library, onRemoveNode }) => {
+const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, nodes, selection, setSelection, library, onRemoveNode }) => {
+  // Gallery shows one page of the persisted history at a time
   const [generatedDesigns, setGeneratedDesigns] = useState<GeneratedDesign[]>([]);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [galleryPage, setGalleryPage] = useState(0);
+  const [galleryTotal, setGalleryTotal] = useState(0);
+  const galleryPageRef = useRef(0);
+  const generatedDesignsRef = useRef<GeneratedDesign[]>([]);
+  generatedDesignsRef.current = generatedDesigns;
+  // Cost of designs produced in this session (history from earlier sessions is excluded)
+  const [sessionCosts, setSessionCosts] = useState<Pick<GenerationMetadata, 'cost' | 'usage' | 'cacheHit'>[]>([]);
   const [activePreview, setActivePreview] = useState<GeneratedDesign | null>(null);
+  const [isHydratingPreview, setIsHydratingPreview] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
 
   // --- Variant Generation State ---
   const [isVariantPanelOpen, setIsVariantPanelOpen] = useState(false);
   const [variantCount, setVariantCount] = useState(2);
-  const [isGeneratingVariants, setIsGeneratingVariants] = useState(false);
+  const [isRewritingVariants, setIsRewritingVariants] = useState(false);
+  const [variantJobIds, setVariantJobIds] = useState<string[]>([]);
+  // Design the variant panel currently belongs to; late jobs for another design are ignored
+  const variantSourceRef = useRef<string | null>(null);
   
   // Temporary storage for variants before they are added to the main list
   const [tempVariants, setTempVariants] = useState<GeneratedDesign[]>([]);
@@ -35,6 +65,35 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
   // Image Generation Config
   const [imageSize, setImageSize] = useState<string>("1K");
 
+  // Generation Queue (429-safe: limited parallel calls, auto retry with backoff)
+  const [concurrency, setConcurrency] = useState(2);
+  const [isQueueOpen, setIsQueueOpen] = useState(true);
+  const queueRef = useRef<JobQueue | null>(null);
+  if (!queueRef.current) {
+      queueRef.current = createJobQueue({ concurrency: 2, maxAttempts: 3, backoffMs: 2000 });
+  }
+  const queue = queueRef.current;
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  useEffect(() => queue.subscribe(() => setJobs(queue.getJobs())), [queue]);
+  useEffect(() => { queue.setConcurrency(concurrency); }, [queue, concurrency]);
+  // Stop pending work when leaving the Studio
+  useEffect(() => () => queue.cancelAll(), [queue]);
+
+  const activeDesignJobs = jobs.filter(j => j.kind === 'design' && isJobActive(j)).length;
+  const isGenerating = activeDesignJobs > 0;
+  const isGeneratingVariants = isRewritingVariants || jobs.some(j => variantJobIds.includes(j.id) && isJobActive(j));
+  const queueCounts = jobs.reduce((acc, j) => {
+      acc[j.status] = (acc[j.status] || 0) + 1;
+      return acc;
+  }, {} as Partial<Record<JobStatus, number>>);
+
+  // Response cache: 'fresh' forces new calls (image reuse itself is opt-in in Settings)
+  const [cacheMode, setCacheMode] = useState<CacheMode>('use');
+
+  // Cross-session spend (daily / weekly windows live in the ledger)
+  const [spendSummary, setSpendSummary] = useState(getSpendSummary());
+  useEffect(() => subscribeSpend(() => setSpendSummary(getSpendSummary())), []);
+
   // Sync individual counts when selected nodes change (initialize new ones)
   useEffect(() => {
       setIndividualCounts(prev => {
@@ -48,20 +107,76 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
       });
   }, [selectedNodes]);
 
+  // --- Gallery persistence ---
+
+  const showGalleryPage = async (page: number) => {
+      const { designs, total } = await loadDesignPage(page);
+      galleryPageRef.current = page;
+      setGalleryPage(page);
+      setGalleryTotal(total);
+      setGeneratedDesigns(prev => {
+          prev.forEach(releaseDesign);
+          return designs;
+      });
+  };
+
+  useEffect(() => {
+      showGalleryPage(0);
+      return () => generatedDesignsRef.current.forEach(releaseDesign);
+  }, []);
+
+  // Designs are write-once records; another tab or a storage cleanup changing them only needs a reload
+  useEffect(() => subscribeGallery(() => showGalleryPage(galleryPageRef.current)), []);
+
+  // Persist new designs; they only appear immediately when the first page is showing
+  const addToGallery = async (designs: GeneratedDesign[]) => {
+      setSessionCosts(prev => [...prev, ...designs.map(d => ({
+          cost: d.generationMetadata?.cost,
+          usage: d.generationMetadata?.usage,
+          cacheHit: d.generationMetadata?.cacheHit
+      }))]);
+      const saved = await saveDesigns(designs);
+      setGalleryTotal(prev => prev + saved.length);
+      if (galleryPageRef.current !== 0) {
+          saved.forEach(releaseDesign);
+          return;
+      }
+      setGeneratedDesigns(prev => {
+          const next = [...saved, ...prev];
+          next.slice(GALLERY_PAGE_SIZE).forEach(releaseDesign);
+          return next.slice(0, GALLERY_PAGE_SIZE);
+      });
+  };
+
+  const handleToggleStar = async (design: GeneratedDesign) => {
+      const starred = !design.starred;
+      setGeneratedDesigns(prev => prev.map(d => d.id === design.id ? { ...d, starred } : d));
+      await setDesignStarred(design, starred);
+  };
+
+  const handleDeleteDesign = async (design: GeneratedDesign) => {
+      if (!confirm(`确定删除 "${design.concept}" 吗？删除后无法恢复。`)) return;
+      await removeDesign(design);
+      const lastPage = Math.max(0, Math.ceil((galleryTotal - 1) / GALLERY_PAGE_SIZE) - 1);
+      await showGalleryPage(Math.min(galleryPage, lastPage));
+  };
+
+  const galleryPageCount = Math.max(1, Math.ceil(galleryTotal / GALLERY_PAGE_SIZE));
+
   // Calculate Session Stats
   const sessionStats = useMemo(() => {
-    return generatedDesigns.reduce((acc, design) => {
-        const meta = design.generationMetadata;
-        if (meta?.cost && meta?.usage) {
+    return sessionCosts.reduce((acc, meta) => {
+        // Cache hits cost nothing this session
+        if (meta?.cost && meta?.usage && !meta.cacheHit) {
             acc.totalUSD += meta.cost.totalUSD;
-            acc.totalCNY += meta.cost.totalCNY;
+            acc.totalLocal += toLocalAmount(meta.cost, library.pricing);
             acc.inputTokens += meta.usage.promptTokens;
             acc.outputTokens += meta.usage.candidatesTokens;
             acc.totalTokens += meta.usage.totalTokens;
         }
         return acc;
-    }, { totalUSD: 0, totalCNY: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
-  }, [generatedDesigns]);
+    }, { totalUSD: 0, totalLocal: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+  }, [sessionCosts, library.pricing]);
 
   // Update all when global slider changes
   const handleGlobalCountChange = (val: number) => {
@@ -114,85 +229,138 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
       return total;
   };
 
-  const handleBatchGenerate = async () => {
+  // Reference images the service will attach for the current selection
+  const countReferenceImages = () => {
+      let count = selectedMaterial?.previewUrl ? 1 : 0;
+      if (selectedProcess?.category === 'diamond') {
+          if (library.mainDiamondColors?.find(c => c.id === selection.mainDiamondColorId)?.previewUrl) count++;
+      } else if (selectedProcess?.previewUrl) {
+          count++;
+      }
+      return count;
+  };
+
+  // Pre-flight estimate priced against the primary image model
+  const estimateImageUSD = () =>
+      estimateImageCostUSD(library.pricing, library.models.imageGenerate[0]?.model || '', imageSize, countReferenceImages());
+
+  const estimateBatchUSD = () => calculateTotalRequests() * estimateImageUSD();
+
+  // Returns true if the run may proceed under the configured budgets
+  const confirmWithinBudget = (estimateUSD: number): boolean => {
+      const check = checkBudget(estimateUSD, library.budget, library.pricing);
+      if (check.status === 'ok') return true;
+      if (check.status === 'block') {
+          alert(`超出预算，已阻止本次生成：\n${check.messages.join('\n')}`);
+          return false;
+      }
+      return window.confirm(`预算提醒：\n${check.messages.join('\n')}\n\n仍要继续吗？`);
+  };
+
+  const dailyRemaining = library.budget.daily > 0
+      ? Math.max(0, library.budget.daily - convertFromUSD(spendSummary.dailyUSD + getPendingSpendUSD(), library.budget.currency, library.pricing))
+      : null;
+
+  const handleBatchGenerate = () => {
     if (selectedNodes.length === 0) return;
-    setIsGenerating(true);
 
     const totalRequests = calculateTotalRequests();
     if (totalRequests > 10) {
         if (!window.confirm(`即将生成 ${totalRequests} 张图片，这可能需要较长时间。确定继续吗？`)) {
-            setIsGenerating(false);
             return;
         }
     }
 
-    try {
-      const tasks: Promise<GeneratedDesign | null>[] = [];
-
-      // Loop through selected concepts
-      for (const node of selectedNodes) {
-          const count = individualCounts[node.id] || 1;
-          
-          // Loop Quantity Count
-          for (let i = 0; i < count; i++) {
-              
-              // Create the task using fixed global selection
-              const task = async () => {
-                  try {
-                      // Using node.text as concept
-                      // Pass imageSize to the service
-                      const result = await generatePhoneCaseDesign(selection, library, node.text, node.text, imageSize);
-                      
-                      if (result && result.imageUrl) {
-                          return {
-                              id: Date.now().toString() + Math.random(),
-                              imageUrl: result.imageUrl,
-                              concept: node.text,
-                              configSummary: `${selectedMaterial?.name} + ${selectedProcess?.name}${selectedStyle ? ` + ${selectedStyle.name}` : ''}`,
-                              timestamp: Date.now(),
-                              generationMetadata: result.metadata
-                          } as GeneratedDesign;
-                      }
-                  } catch (err) {
-                      console.error("Single generation failed", err);
-                  }
-                  return null;
-              };
+    if (!confirmWithinBudget(estimateBatchUSD())) return;
 
-              tasks.push(task());
-          }
-      }
+    const configSummary = `${selectedMaterial?.name} + ${selectedProcess?.name}${selectedStyle ? ` + ${selectedStyle.name}` : ''}`;
+    // Snapshot config so later edits in the sidebar don't leak into queued jobs
+    const jobSelection = selection;
+    const jobImageSize = imageSize;
+    const imageUSD = estimateImageUSD();
+    const jobCacheMode = cacheMode;
 
-      // Execute in parallel
-      const results = await Promise.all(tasks);
-      const validResults = results.filter(r => r !== null) as GeneratedDesign[];
-      
-      setGeneratedDesigns(prev => [...validResults, ...prev]);
+    // Loop through selected concepts
+    for (const node of selectedNodes) {
+        const count = individualCounts[node.id] || 1;
+        // {{context}}: the concept's path from the brainstorm root
+        const contextPath = formatContextPath(getContextPath(node, nodes, library.brainstorm.contextDepth));
 
-    } catch (e) {
-      alert("Error generating designs. Please check your network and API usage.");
-    } finally {
-      setIsGenerating(false);
+        // Loop Quantity Count
+        for (let i = 0; i < count; i++) {
+            queue.enqueue<GeneratedDesign>({
+                kind: 'design',
+                label: count > 1 ? `${node.text} #${i + 1}` : node.text,
+                run: async () => {
+                    const result = await generatePhoneCaseDesign(jobSelection, library, node.text, contextPath, jobImageSize, { mode: jobCacheMode, sample: i });
+                    if (!result || !result.imageUrl) return null;
+                    return {
+                        id: Date.now().toString() + Math.random(),
+                        imageUrl: result.imageUrl,
+                        concept: node.text,
+                        configSummary,
+                        timestamp: Date.now(),
+                        generationMetadata: result.metadata
+                    };
+                },
+                // Stream each finished image into the gallery
+                onSuccess: design => addToGallery([design]),
+                // Held against the budget while queued or running, so repeated clicks cannot overshoot it
+                reserve: () => reserveSpend(imageUSD)
+            });
+        }
     }
+    setIsQueueOpen(true);
   };
 
   const handleGenerateVariants = async () => {
       if (!activePreview) return;
-      setIsGeneratingVariants(true);
+
+      const meta = activePreview.generationMetadata;
+      const variantImageUSD = estimateImageCostUSD(
+          library.pricing,
+          library.models.imageGenerate[0]?.model || '',
+          meta?.imageSize || "1K",
+          meta?.referenceImages.length || 0,
+          meta?.prompt.length
+      );
+      const variantEstimateUSD = variantCount * variantImageUSD;
+      if (!confirmWithinBudget(variantEstimateUSD)) return;
+      // Held while the prompts are rewritten; from then on each variant job holds its own share
+      const release = reserveSpend(variantEstimateUSD);
+
+      const source = activePreview;
+      variantSourceRef.current = source.id;
+      setIsRewritingVariants(true);
       setTempVariants([]); // Clear previous results
       setSelectedVariantIds(new Set()); // Clear selection
-      
+
       try {
           // Keep panel open
-          const variants = await generateDesignVariants(activePreview, variantCount, library.prompts);
-          setTempVariants(variants);
-          // Auto select all generated variants by default
-          setSelectedVariantIds(new Set(variants.map(v => v.id)));
+          const prompts = await generateVariantPrompts(source, variantCount, library, cacheMode);
+          const ids = prompts.map((prompt, idx) => queue.enqueue<GeneratedDesign>({
+              kind: 'variant',
+              label: `${source.concept} (Var ${idx + 1})`,
+              run: () => generateVariantDesign(source, prompt, idx, library, cacheMode),
+              onSuccess: variant => {
+                  // Another design's variants are open now; keep the (paid) image in the gallery instead
+                  if (variantSourceRef.current !== source.id) {
+                      addToGallery([variant]);
+                      return;
+                  }
+                  setTempVariants(prev => [...prev, variant]);
+                  // Auto select generated variants by default
+                  setSelectedVariantIds(prev => new Set(prev).add(variant.id));
+              },
+              reserve: () => reserveSpend(variantImageUSD)
+          }));
+          setVariantJobIds(ids);
       } catch (e) {
           console.error("Variant generation failed", e);
-          alert("变体生成失败，请稍后重试。");
+          alert(`变体生成失败：${describeAIError(e)}`);
       } finally {
-          setIsGeneratingVariants(false);
+          release();
+          setIsRewritingVariants(false);
       }
   };
 
@@ -210,7 +378,7 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
       const toAdd = tempVariants.filter(v => selectedVariantIds.has(v.id));
       if (toAdd.length === 0) return;
 
-      setGeneratedDesigns(prev => [...toAdd, ...prev]);
+      addToGallery(toAdd);
       // Close modal and cleanup
       setActivePreview(null);
       setIsVariantPanelOpen(false);
@@ -227,12 +395,23 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
       document.body.removeChild(link);
   };
 
-  const openPreview = (design: GeneratedDesign) => {
+  const openPreview = async (design: GeneratedDesign) => {
       setActivePreview(design);
       setShowInfo(false); 
       setIsVariantPanelOpen(false); // Default closed
       setTempVariants([]); // Reset temp variants
+      setVariantJobIds([]);
+      variantSourceRef.current = design.id;
       setVariantCount(2);
+
+      // Reference images are loaded on demand, variants need them
+      setIsHydratingPreview(true);
+      try {
+          const full = await hydrateDesign(design);
+          setActivePreview(prev => prev?.id === design.id ? full : prev);
+      } finally {
+          setIsHydratingPreview(false);
+      }
   }
 
   return (
@@ -431,6 +610,52 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                     </p>
                 </div>
 
+                {/* Concurrency Setting */}
+                <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">并发数 (Concurrency)</h3>
+                        <span className="text-[10px] text-gray-400">{concurrency}</span>
+                    </div>
+                    <select
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(parseInt(e.target.value))}
+                        className="w-full p-2 border border-gray-200 rounded-lg text-sm bg-white outline-none focus:border-indigo-500 shadow-sm"
+                    >
+                        {[1, 2, 3, 4, 6, 8].map(n => (
+                            <option key={n} value={n}>同时 {n} 张</option>
+                        ))}
+                    </select>
+                    <p className="text-[10px] text-gray-400 leading-tight">
+                        * 并发过高容易触发 429 限流。失败任务会自动退避重试，最多 3 次。
+                    </p>
+                </div>
+
+                {/* Cache Setting */}
+                <div className="space-y-3">
+                    <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">响应缓存 (Cache)</h3>
+                    <div className="grid grid-cols-2 gap-2">
+                        {([
+                            { mode: 'use', label: '使用缓存' },
+                            { mode: 'fresh', label: '强制刷新' },
+                        ] as const).map(opt => (
+                            <button
+                                key={opt.mode}
+                                onClick={() => setCacheMode(opt.mode)}
+                                className={`py-2 rounded-lg text-xs font-medium border transition-all ${cacheMode === opt.mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-200 hover:border-indigo-300'}`}
+                            >
+                                {opt.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-gray-400 leading-tight">
+                        {!library.cache.enabled
+                            ? '* 响应缓存已关闭，可在设置 → 响应缓存中开启。'
+                            : library.cache.cacheImages
+                                ? '* 相同概念与配置会直接复用已缓存的图片，不产生费用。'
+                                : '* 图片缓存未开启，仅变体提示词改写会命中缓存。可在设置 → 响应缓存中开启。'}
+                    </p>
+                </div>
+
                 {/* Global Quantity Control */}
                 <div className="space-y-3">
                     <div className="flex justify-between items-center">
@@ -501,19 +726,29 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                   <span>总计任务</span>
                   <span>预计生成: <span className="font-bold text-indigo-600">{calculateTotalRequests()}</span> 张</span>
               </div>
+              <div className="mb-3 flex justify-between text-xs text-gray-500">
+                  <span>预计费用</span>
+                  <span className="font-medium text-gray-700">≈ {formatMoney(convertFromUSD(estimateBatchUSD(), library.budget.currency, library.pricing), library.budget.currency)}</span>
+              </div>
+              {dailyRemaining !== null && (
+                  <div className={`mb-3 flex justify-between text-xs ${dailyRemaining < convertFromUSD(estimateBatchUSD(), library.budget.currency, library.pricing) ? 'text-rose-600 font-bold' : 'text-gray-500'}`}>
+                      <span>今日预算剩余</span>
+                      <span>{formatMoney(dailyRemaining, library.budget.currency)} / {formatMoney(library.budget.daily, library.budget.currency)}</span>
+                  </div>
+              )}
               <button
                 onClick={handleBatchGenerate}
-                disabled={isGenerating || selectedNodes.length === 0}
+                disabled={selectedNodes.length === 0}
                 className={`
                     w-full py-3 rounded-xl font-semibold shadow-lg transition-all flex items-center justify-center gap-2
-                    ${isGenerating || selectedNodes.length === 0 
+                    ${selectedNodes.length === 0 
                     ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
                     : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:shadow-indigo-200 hover:scale-[1.02]'
                     }
                 `}
                 >
                 {isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Wand2 className="w-5 h-5" />}
-                {isGenerating ? '生成中...' : `开始生成`}
+                {isGenerating ? `加入队列 (${activeDesignJobs} 进行中)` : `开始生成`}
              </button>
           </div>
       </div>
@@ -527,16 +762,16 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                 <h2 className="text-2xl font-bold text-gray-800">设计工坊 (Studio)</h2>
                 <div className="flex items-center gap-2 mt-1">
                      <span className="text-gray-500 text-sm">统一预览和管理所有生成结果</span>
-                     {generatedDesigns.length > 0 && (
+                     {galleryTotal > 0 && (
                          <span className="bg-indigo-50 text-indigo-600 text-xs px-2 py-0.5 rounded-full font-medium">
-                             Count: {generatedDesigns.length}
+                             Count: {galleryTotal}
                          </span>
                      )}
                 </div>
              </div>
              
              {/* SESSION STATS (Aggregate) */}
-             {generatedDesigns.length > 0 && (
+             {sessionCosts.length > 0 && (
                 <div className="flex items-center gap-6 bg-gray-50 px-4 py-2 rounded-xl border border-gray-200">
                      <div className="flex flex-col items-end">
                          <span className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">Total Tokens</span>
@@ -552,7 +787,7 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                      <div className="flex flex-col items-end">
                          <span className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">Session Cost</span>
                          <div className="text-lg font-bold text-indigo-600 flex items-baseline gap-1">
-                            <span>¥{sessionStats.totalCNY.toFixed(2)}</span>
+                            <span>{formatMoney(sessionStats.totalLocal, library.pricing.currency)}</span>
                             <span className="text-xs text-gray-400 font-normal">(${sessionStats.totalUSD.toFixed(3)})</span>
                          </div>
                      </div>
@@ -560,6 +795,71 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
              )}
           </div>
 
+          {/* Generation Queue Panel */}
+          {jobs.length > 0 && (
+             <div className="border-b border-gray-100 bg-white shrink-0">
+                 <div className="px-6 py-2 flex items-center justify-between">
+                     <button onClick={() => setIsQueueOpen(!isQueueOpen)} className="flex items-center gap-2 text-sm font-bold text-gray-700 hover:text-indigo-600">
+                         <ListChecks className="w-4 h-4 text-indigo-600" />
+                         生成队列
+                         <span className="text-[10px] font-normal text-gray-500">
+                             {(Object.keys(JOB_STATUS_STYLES) as JobStatus[]).filter(s => queueCounts[s]).map(s => `${JOB_STATUS_STYLES[s].label} ${queueCounts[s]}`).join(' · ')}
+                         </span>
+                         {isQueueOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                     </button>
+                     <div className="flex items-center gap-2">
+                         <button
+                             onClick={() => queue.cancelAll()}
+                             disabled={!jobs.some(isJobActive)}
+                             className="text-xs px-2 py-1 rounded border border-gray-200 text-gray-600 hover:bg-rose-50 hover:text-rose-600 hover:border-rose-200 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
+                         >
+                             <X className="w-3 h-3" /> 取消全部
+                         </button>
+                         <button
+                             onClick={() => queue.clearFinished()}
+                             className="text-xs px-2 py-1 rounded border border-gray-200 text-gray-600 hover:bg-gray-50 flex items-center gap-1"
+                         >
+                             <Trash2 className="w-3 h-3" /> 清除已完成
+                         </button>
+                     </div>
+                 </div>
+                 {isQueueOpen && (
+                     <div className="px-6 pb-3 max-h-48 overflow-y-auto space-y-1">
+                         {jobs.map(job => (
+                             <div key={job.id} className="flex items-center gap-3 text-xs py-1 px-2 rounded hover:bg-gray-50">
+                                 <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold shrink-0 flex items-center gap-1 ${JOB_STATUS_STYLES[job.status].className}`}>
+                                     {job.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                                     {job.status === 'queued' && job.nextRetryAt && <Clock className="w-3 h-3" />}
+                                     {JOB_STATUS_STYLES[job.status].label}
+                                 </span>
+                                 <span className="text-[10px] text-gray-400 shrink-0">{job.kind === 'variant' ? '变体' : '设计'}</span>
+                                 <span className="text-gray-700 truncate flex-1" title={job.label}>{job.label}</span>
+                                 {job.lateResult && (
+                                     <span className="text-[10px] text-amber-600 shrink-0" title="取消时图片已在生成中，已计费，结果仍已保留">取消后完成 · 已保留</span>
+                                 )}
+                                 {job.error && (
+                                     <span className="text-[10px] text-rose-500 truncate max-w-xs" title={job.error}>
+                                         {job.status === 'queued' ? '等待重试: ' : ''}{job.error}
+                                     </span>
+                                 )}
+                                 <span className="text-[10px] text-gray-400 font-mono shrink-0">{job.attempts}/{job.maxAttempts}</span>
+                                 {(job.status === 'failed' || job.status === 'cancelled') && (
+                                     <button onClick={() => queue.retry(job.id)} className="p-1 text-gray-400 hover:text-indigo-600" title="重试">
+                                         <RotateCcw className="w-3 h-3" />
+                                     </button>
+                                 )}
+                                 {isJobActive(job) && (
+                                     <button onClick={() => queue.cancel(job.id)} className="p-1 text-gray-400 hover:text-rose-600" title={job.status === 'running' ? '取消 (已在生成的图片仍会计费，完成后照常保留)' : '取消'}>
+                                         <X className="w-3 h-3" />
+                                     </button>
+                                 )}
+                             </div>
+                         ))}
+                     </div>
+                 )}
+             </div>
+          )}
+
           {/* Gallery Grid */}
           <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
              <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-6">
@@ -569,10 +869,17 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                        <img src={design.imageUrl} alt={design.concept} className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-700" />
                        
                        {/* CONCEPT LABEL OVERLAY */}
-                       <div className="absolute top-2 left-2 right-2 flex justify-start pointer-events-none">
+                       <div className="absolute top-2 left-2 right-2 flex justify-between items-start gap-2 pointer-events-none">
                            <span className="bg-black/60 backdrop-blur-md text-white text-[10px] font-medium px-2 py-1 rounded-md shadow-sm truncate max-w-full">
                                {design.concept}
                            </span>
+                           <button
+                               onClick={() => handleToggleStar(design)}
+                               className={`pointer-events-auto z-10 p-1 rounded-md backdrop-blur-md shrink-0 ${design.starred ? 'bg-amber-400 text-white' : 'bg-black/40 text-white/80 opacity-0 group-hover:opacity-100 hover:text-amber-300'}`}
+                               title={design.starred ? "取消星标" : "加星标 (存储清理时保留)"}
+                           >
+                               <Star className={`w-3.5 h-3.5 ${design.starred ? 'fill-current' : ''}`} />
+                           </button>
                        </div>
 
                        {/* Overlay Actions */}
@@ -583,6 +890,9 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                           <button onClick={() => handleDownload(design.imageUrl, design.id)} className="p-3 bg-white/20 hover:bg-white text-white hover:text-black rounded-full backdrop-blur-md transition-all" title="下载图片">
                             <Download className="w-5 h-5" />
                           </button>
+                          <button onClick={() => handleDeleteDesign(design)} className="p-3 bg-white/20 hover:bg-rose-500 text-white rounded-full backdrop-blur-md transition-all" title="删除">
+                            <Trash2 className="w-5 h-5" />
+                          </button>
                        </div>
                     </div>
                     
@@ -599,8 +909,31 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                 ))}
              </div>
 
+             {/* Pagination */}
+             {galleryPageCount > 1 && (
+               <div className="flex items-center justify-center gap-4 mt-8 text-sm text-gray-600">
+                  <button
+                    onClick={() => showGalleryPage(galleryPage - 1)}
+                    disabled={galleryPage === 0}
+                    className="p-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="上一页"
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                  </button>
+                  <span>第 {galleryPage + 1} / {galleryPageCount} 页</span>
+                  <button
+                    onClick={() => showGalleryPage(galleryPage + 1)}
+                    disabled={galleryPage >= galleryPageCount - 1}
+                    className="p-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="下一页"
+                  >
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+               </div>
+             )}
+
              {/* Empty State */}
-             {generatedDesigns.length === 0 && !isGenerating && (
+             {galleryTotal === 0 && !isGenerating && (
                <div className="h-full flex flex-col items-center justify-center text-gray-400 pb-20">
                   <div className="w-20 h-20 rounded-2xl bg-white border border-dashed border-gray-300 flex items-center justify-center mb-6 shadow-sm">
                     <Wand2 className="w-8 h-8 opacity-20 text-indigo-500" />
@@ -706,7 +1039,7 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
 
                       <button 
                            onClick={handleGenerateVariants}
-                           disabled={isGeneratingVariants}
+                           disabled={isGeneratingVariants || isHydratingPreview}
                            className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-2.5 rounded-lg text-sm font-bold shadow-md hover:shadow-lg transition-all flex items-center justify-center gap-2 hover:scale-[1.02] active:scale-95 disabled:opacity-70 disabled:cursor-not-allowed"
                        >
                            {isGeneratingVariants ? <Loader2 className="w-4 h-4 animate-spin"/> : <Wand2 className="w-4 h-4"/>}
@@ -801,10 +1134,26 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                                    <div className="flex justify-between items-baseline border-b border-gray-700 pb-2">
                                        <span className="text-xs text-gray-400">预估费用</span>
                                        <div className="text-right">
-                                           <div className="text-lg font-bold text-yellow-400">¥{activePreview.generationMetadata?.cost?.totalCNY.toFixed(4) || '0.00'}</div>
+                                           <div className="text-lg font-bold text-yellow-400">
+                                               {activePreview.generationMetadata?.cost
+                                                   ? formatMoney(activePreview.generationMetadata.cost.totalLocal, activePreview.generationMetadata.cost.currency, 4)
+                                                   : '0.00'}
+                                           </div>
                                            <div className="text-[10px] text-gray-500">${activePreview.generationMetadata?.cost?.totalUSD.toFixed(5) || '0.00'}</div>
                                        </div>
                                    </div>
+                                   {activePreview.generationMetadata?.cacheHit && (
+                                       <div className="text-[10px] text-emerald-400">♻️ 来自响应缓存，本次未产生费用（以下为原始生成费用）</div>
+                                   )}
+                                   {activePreview.generationMetadata?.cost && (
+                                       <div className="text-[10px] text-gray-500 space-y-1">
+                                           <div className="flex justify-between"><span>计费模型</span><span className="font-mono text-gray-300">{activePreview.generationMetadata.model}</span></div>
+                                           <div className="flex justify-between"><span>价格表版本</span><span className="font-mono text-gray-300">v{activePreview.generationMetadata.cost.pricingVersion} · 汇率 {activePreview.generationMetadata.cost.exchangeRate}</span></div>
+                                           {!activePreview.generationMetadata.cost.rates && (
+                                               <div className="text-amber-400">⚠️ 该模型未在价格表中配置，费用记为 0</div>
+                                           )}
+                                       </div>
+                                   )}
                                </div>
                            </div>
                            
@@ -829,7 +1178,7 @@ const DesignGenerator: React.FC<DesignGeneratorProps> = ({ selectedNodes, select
                                </div>
                            ) : (
                                <div className="p-4 rounded-lg border border-dashed border-gray-200 text-center">
-                                    <span className="text-[10px] text-gray-400">无参考图片 (纯文本生成)</span>
+                                    <span className="text-[10px] text-gray-400">{isHydratingPreview ? '正在加载参考素材...' : '无参考图片 (纯文本生成)'}</span>
                                </div>
                            )}
 
@@ -1,15 +1,75 @@
 
-import React, { useState, useRef } from 'react';
-import { Library, MaterialOption, ProcessOption, StyleOption, SystemPrompts, DiamondColor } from '../types';
-import { Plus, Trash2, Upload, Save, Edit2, Check, MessageSquare, RotateCcw, Activity, ShieldCheck, ShieldAlert, Loader2, Gem } from 'lucide-react';
-import { DEFAULT_LIBRARY } from '../App';
+import React, { useState, useRef, useEffect } from 'react';
+import { Library, MaterialOption, ProcessOption, StyleOption, SystemPrompts, DiamondColor, AIProviderId, ModelRegistry, ModelOperation, ModelChainEntry, PricingTable, ModelPricing, SpendBudget, CacheSettings, CacheEntryMeta, DeviceModel, DeviceCutout, CameraModuleShape, CameraModulePosition, LibrarySnapshot, TeamSyncConfig, GeminiProxyConfig } from '../types';
+import { Plus, Trash2, Upload, Save, Edit2, Check, MessageSquare, RotateCcw, Activity, ShieldCheck, ShieldAlert, Loader2, Gem, Cpu, ArrowUp, ArrowDown, Coins, Wallet, Database, Smartphone, X, Package, Download, History, Bookmark, HardDrive, Users, RefreshCw, Cloud } from 'lucide-react';
+import { DEFAULT_LIBRARY } from '../services/libraryDefaults';
 import { listGeminiModels } from '../services/geminiService';
+import { ProxyUsage, configureGeminiProxy, fetchProxyUsage, getProxyConfig, getProxyUrl } from '../services/geminiProxy';
+import { AI_PROVIDERS, DEFAULT_PROVIDER_ID } from '../services/aiProvider';
+import { getSpendSummary, subscribeSpend, convertFromUSD, isBudgetCurrency, moveBudgetCurrency } from '../services/budget';
+import { formatMoney } from '../services/pricing';
+import { TEMPLATE_VARIABLES, TemplateKind, validateTemplate } from '../services/promptTemplate';
+import { CAMERA_POSITION_LABELS, CAMERA_SHAPE_LABELS, CUTOUT_KIND_LABELS, CUTOUT_SIDE_LABELS, DEFAULT_ASPECT_RATIO, SUPPORTED_ASPECT_RATIOS, describeDeviceGeometry } from '../services/devices';
+import { pruneUnusedAssets, storeAsset } from '../services/assetStore';
+import { compactDesignImages, pruneDesigns } from '../services/designStore';
+import { STORAGE_AREA_LABELS, StorageOverview, getStorageOverview, requestPersistentStorage } from '../services/storageUsage';
+import { BUNDLE_SECTIONS, BundleSection, ConflictResolution, ImportItemPlan, LibraryBundle, applyImport, exportLibraryBundle, planImport, readLibraryBundle } from '../services/libraryBundle';
+import { LibraryChange, SNAPSHOT_SECTION_LABELS, createCheckpoint, deleteSnapshot, diffLibrary, listSnapshots, restoreChange, restoreSnapshot, snapshotAssetIds, subscribeSnapshots } from '../services/librarySnapshots';
+import { configureTeamSync, getTeamSyncConfig, getTeamSyncStatus, subscribeTeamSync, syncTeamNow, testTeamSyncServer } from '../services/teamSync';
+import { clearResponseCache, enforceCacheLimit, evictCacheEntries, listCacheEntries, subscribeCache } from '../services/responseCache';
 
 interface SettingsPageProps {
   library: Library;
   setLibrary: React.Dispatch<React.SetStateAction<Library>>;
 }
 
+const MODEL_OPERATIONS: { key: ModelOperation, label: string, hint: string }[] = [
+    { key: 'associate', label: '脑暴联想 (Associate)', hint: '画布节点展开，返回 up / side / down JSON' },
+    { key: 'analyze', label: '图片分析 (Analyze)', hint: '上传参考图后提取种子词' },
+    { key: 'variantRewrite', label: '变体提示词改写 (Variant Rewrite)', hint: '设计师 Agent 重写 Prompt' },
+    { key: 'imageGenerate', label: '图片生成 (Image Generate)', hint: '手机壳效果图与变体渲染；失败重试由生成队列负责，这里只按顺序切换模型' },
+];
+
+const IMAGE_SIZES = ['1K', '2K', '4K'];
+
+const CACHE_OPERATION_LABELS: Record<ModelOperation, string> = {
+    associate: '脑暴联想',
+    analyze: '图片分析',
+    variantRewrite: '变体改写',
+    imageGenerate: '图片生成',
+};
+
+// Variable hints + live validation result under a template textarea
+const TemplateHelp: React.FC<{ kind: TemplateKind, issues: string[] }> = ({ kind, issues }) => (
+    <div className="mt-2 space-y-1">
+        {issues.length > 0 && (
+            <ul className="text-[11px] text-red-600 bg-red-50 border border-red-100 rounded p-2 space-y-0.5">
+                {issues.map((issue, i) => <li key={i}>⚠️ {issue}</li>)}
+            </ul>
+        )}
+        <p className="text-[10px] text-gray-400 leading-relaxed">
+            可用变量: {TEMPLATE_VARIABLES[kind].map(v => (
+                <code key={v.name} className="mr-1" title={v.description}>{`{{${v.name}}}`}</code>
+            ))}
+            <br/>语法: <code>{`{{#if x}}…{{else}}…{{/if}}`}</code> <code>{`{{#each list}}{{this}}{{/each}}`}</code> <code>{`{{x | default: "..."}}`}</code>，过滤器 upper / lower / trim / quote / join / default / length
+        </p>
+    </div>
+);
+
+const EMPTY_DEVICE: Partial<DeviceModel> = {
+    name: '',
+    aliases: [],
+    aspectRatio: DEFAULT_ASPECT_RATIO,
+    cameraShape: 'square',
+    cameraPosition: 'top-left',
+    cutouts: [],
+    promptNotes: ''
+};
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB`
+    : bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
 // Helper to resize and compress images
 const resizeImage = (file: File, maxWidthHeight: number = 800): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -55,7 +115,7 @@ const resizeImage = (file: File, maxWidthHeight: number = 800): Promise<string>
 };
 
 const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
-  const [activeTab, setActiveTab] = useState<'material' | 'process' | 'style' | 'diamond' | 'prompt' | 'diagnostic'>('material');
+  const [activeTab, setActiveTab] = useState<'device' | 'material' | 'process' | 'style' | 'diamond' | 'prompt' | 'model' | 'pricing' | 'budget' | 'cache' | 'storage' | 'bundle' | 'team' | 'history' | 'diagnostic'>('material');
   const [diamondSubTab, setDiamondSubTab] = useState<'main' | 'secondary'>('main');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -64,7 +124,11 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
 
   // Form buffers
-  const [newMaterial, setNewMaterial] = useState<Partial<MaterialOption>>({ type: 'plastic', model: 'iPhone 15 Pro' });
+  // New materials default to the first catalog device
+  const emptyMaterial = (): Partial<MaterialOption> => ({ type: 'plastic', deviceId: library.devices[0]?.id, model: library.devices[0]?.name, name: '', color: '', previewUrl: '' });
+  const [newDevice, setNewDevice] = useState<Partial<DeviceModel>>(EMPTY_DEVICE);
+  const [deviceAliases, setDeviceAliases] = useState('');
+  const [newMaterial, setNewMaterial] = useState<Partial<MaterialOption>>(emptyMaterial);
   const [newProcess, setNewProcess] = useState<Partial<ProcessOption>>({});
   const [newStyle, setNewStyle] = useState<Partial<StyleOption>>({});
   const [newDiamondColor, setNewDiamondColor] = useState<Partial<DiamondColor>>({});
@@ -73,6 +137,271 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
   const [localPrompts, setLocalPrompts] = useState<SystemPrompts>(library.prompts);
   const [promptSaved, setPromptSaved] = useState(false);
 
+  // Model Registry Buffer
+  const [localModels, setLocalModels] = useState<ModelRegistry>(library.models);
+  const [modelsSaved, setModelsSaved] = useState(false);
+
+  // Pricing Buffer
+  const [localPricing, setLocalPricing] = useState<PricingTable>(library.pricing);
+  const [pricingSaved, setPricingSaved] = useState(false);
+
+  // Library loads asynchronously from IndexedDB (and may change from another tab), keep the buffers in step
+  useEffect(() => {
+      setLocalPrompts(library.prompts);
+  }, [library.prompts]);
+
+  useEffect(() => {
+      setLocalModels(library.models);
+  }, [library.models]);
+
+  useEffect(() => {
+      setLocalPricing(library.pricing);
+  }, [library.pricing]);
+
+  // Live spend for the budget tab
+  const [spendSummary, setSpendSummary] = useState(getSpendSummary());
+  useEffect(() => subscribeSpend(() => setSpendSummary(getSpendSummary())), []);
+
+  const updateBudget = (patch: Partial<SpendBudget>) => {
+      setLibrary(prev => ({ ...prev, budget: { ...prev.budget, ...patch } }));
+  };
+
+  // Response cache index, refreshed while the cache tab is open
+  const [cacheEntries, setCacheEntries] = useState<CacheEntryMeta[]>([]);
+  useEffect(() => {
+      if (activeTab !== 'cache') return;
+      const refresh = () => {
+          listCacheEntries().then(entries => setCacheEntries(entries.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)));
+      };
+      refresh();
+      return subscribeCache(refresh);
+  }, [activeTab]);
+
+  const cacheTotalBytes = cacheEntries.reduce((sum, e) => sum + e.sizeBytes, 0);
+  const cacheLimitBytes = library.cache.maxSizeMB * 1024 * 1024;
+  const cacheByOperation = (Object.keys(CACHE_OPERATION_LABELS) as ModelOperation[]).map(op => {
+      const entries = cacheEntries.filter(e => e.operation === op);
+      return { op, count: entries.length, bytes: entries.reduce((sum, e) => sum + e.sizeBytes, 0) };
+  });
+
+  const updateCacheSettings = (patch: Partial<CacheSettings>) => {
+      setLibrary(prev => ({ ...prev, cache: { ...prev.cache, ...patch } }));
+  };
+
+  const handleClearCache = async () => {
+      if (!confirm('确定清空全部响应缓存吗？之后相同请求会重新计费。')) return;
+      await clearResponseCache();
+  };
+
+  // Storage dashboard, measured when the tab opens and after each cleanup
+  const [storageOverview, setStorageOverview] = useState<StorageOverview | null>(null);
+  const [pruneDays, setPruneDays] = useState(30);
+  const [storageTask, setStorageTask] = useState<string | null>(null);
+  const refreshStorage = () => { getStorageOverview().then(setStorageOverview); };
+  useEffect(() => {
+      if (activeTab === 'storage') refreshStorage();
+  }, [activeTab]);
+
+  const runStorageTask = async (label: string, task: () => Promise<string>) => {
+      setStorageTask(label);
+      try {
+          alert(await task());
+      } catch (error) {
+          console.error("Storage cleanup failed:", error);
+          alert(`${label}失败：${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+          setStorageTask(null);
+          refreshStorage();
+      }
+  };
+
+  const handleRequestPersist = async () => {
+      const granted = await requestPersistentStorage();
+      if (!granted) alert('浏览器未授予持久化存储。可将本站加入书签或安装为应用后重试。');
+      refreshStorage();
+  };
+
+  const handlePruneDesigns = () => {
+      if (!confirm(`确定删除 ${pruneDays} 天前生成且未加星标的设计吗？删除后无法恢复。`)) return;
+      runStorageTask('清理设计', async () => `已删除 ${await pruneDesigns(pruneDays)} 个设计`);
+  };
+
+  const handleCompactImages = () => {
+      if (!confirm('将 PNG 设计图重新编码为高质量 JPEG (质量 90%)，画质会有轻微损失。继续吗？')) return;
+      runStorageTask('压缩图片', async () => {
+          const { compacted, skipped, savedBytes } = await compactDesignImages((done, total) => setStorageTask(`压缩图片 ${done}/${total}`));
+          return `已压缩 ${compacted} 个设计，节省 ${formatBytes(savedBytes)}${skipped > 0 ? `；${skipped} 个设计的图片无法解码，已跳过` : ''}`;
+      });
+  };
+
+  // Team sync: edited locally, applied on save
+  const [teamConfig, setTeamConfig] = useState<TeamSyncConfig>(getTeamSyncConfig());
+  const [teamStatus, setTeamStatus] = useState(getTeamSyncStatus());
+  const [teamTesting, setTeamTesting] = useState(false);
+  useEffect(() => subscribeTeamSync(() => setTeamStatus(getTeamSyncStatus())), []);
+  useEffect(() => {
+      if (activeTab === 'team') setTeamConfig(getTeamSyncConfig());
+  }, [activeTab]);
+
+  const teamConfigDirty = JSON.stringify(teamConfig) !== JSON.stringify(getTeamSyncConfig());
+
+  const handleSaveTeamConfig = async () => {
+      const serverUrl = teamConfig.serverUrl.trim();
+      if (teamConfig.enabled && !/^https?:\/\//.test(serverUrl)) {
+          alert('请输入以 http:// 或 https:// 开头的服务器地址');
+          return;
+      }
+      if (teamConfig.enabled && !getTeamSyncConfig().enabled
+          && !confirm('开启后将先下载团队服务器上的配置库与设计，服务器上已有的条目会覆盖本地同 ID 的条目。继续吗？')) return;
+      await configureTeamSync({ ...teamConfig, serverUrl, token: teamConfig.token?.trim() || undefined });
+      setTeamConfig(getTeamSyncConfig());
+  };
+
+  const handleTestTeamServer = async () => {
+      setTeamTesting(true);
+      try {
+          const { records } = await testTeamSyncServer({ ...teamConfig, serverUrl: teamConfig.serverUrl.trim() });
+          alert(`连接成功，服务器上共有 ${records} 条记录`);
+      } catch (error) {
+          alert(`连接失败：${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+          setTeamTesting(false);
+      }
+  };
+
+  const handlePruneAssets = () => {
+      runStorageTask('清理素材', async () => {
+          await pruneUnusedAssets(library, await snapshotAssetIds());
+          return '已删除未被配置库和历史版本引用的素材图片 (24 小时内上传的除外)';
+      });
+  };
+
+  // Library bundle export / import
+  const [exportSections, setExportSections] = useState<Set<BundleSection>>(() => new Set(BUNDLE_SECTIONS.map(s => s.key)));
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, bundle: LibraryBundle, plan: ImportItemPlan[] } | null>(null);
+  const [importResolutions, setImportResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [defaultResolution, setDefaultResolution] = useState<ConflictResolution>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const sectionCount = (section: BundleSection) => {
+      const value = library[section];
+      return Array.isArray(value) ? `${value.length} 项` : '整体';
+  };
+
+  const toggleExportSection = (section: BundleSection) => {
+      setExportSections(prev => {
+          const next = new Set(prev);
+          if (next.has(section)) next.delete(section); else next.add(section);
+          return next;
+      });
+  };
+
+  const handleExportBundle = async () => {
+      if (exportSections.size === 0) return;
+      setIsExporting(true);
+      try {
+          const sections = BUNDLE_SECTIONS.map(s => s.key).filter(key => exportSections.has(key));
+          const blob = await exportLibraryBundle(library, sections);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `casecraft-library-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}.zip`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(url);
+      } catch (error) {
+          console.error("Library export failed:", error);
+          alert(`导出失败：${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const bundle = await readLibraryBundle(file);
+          setPendingImport({ fileName: file.name, bundle, plan: planImport(library, bundle) });
+          setImportResolutions({});
+      } catch (error) {
+          console.error("Library import failed:", error);
+          alert(`无法读取配置包：${error instanceof Error ? error.message : String(error)}`);
+      }
+  };
+
+  const handleConfirmImport = async () => {
+      if (!pendingImport) return;
+      setIsImporting(true);
+      try {
+          const { library: merged, summary } = await applyImport(library, pendingImport.bundle, pendingImport.plan, importResolutions, defaultResolution);
+          setLibrary(merged);
+          setPendingImport(null);
+          alert(`导入完成：新增 ${summary.added}，覆盖 ${summary.overwritten}，保留两者 ${summary.duplicated}，跳过 ${summary.skipped}`);
+      } catch (error) {
+          console.error("Library import failed:", error);
+          alert(`导入失败：${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  // Library history, refreshed while the history tab is open
+  const [snapshots, setSnapshots] = useState<LibrarySnapshot[]>([]);
+  const [selectedSnapshotId, setSelectedSnapshotId] = useState<string | null>(null);
+  const [expandedChangeKey, setExpandedChangeKey] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+  useEffect(() => {
+      if (activeTab !== 'history') return;
+      const refresh = () => { listSnapshots().then(setSnapshots); };
+      refresh();
+      return subscribeSnapshots(refresh);
+  }, [activeTab]);
+
+  const selectedSnapshot = snapshots.find(s => s.id === selectedSnapshotId) || null;
+  const snapshotChanges = selectedSnapshot ? diffLibrary(selectedSnapshot.library, library) : [];
+
+  const snapshotTitle = (snapshot: LibrarySnapshot) =>
+      snapshot.name || snapshot.changed.map(key => SNAPSHOT_SECTION_LABELS[key as keyof Library] || key).join('、') || '自动快照';
+
+  const handleCreateCheckpoint = async () => {
+      const name = checkpointName.trim() || `检查点 ${new Date().toLocaleString()}`;
+      await createCheckpoint(library, name);
+      setCheckpointName('');
+  };
+
+  const applyRestoredLibrary = (restored: Library) => {
+      setLibrary(restored);
+      handleCancelEdit();
+  };
+
+  const handleRestoreSnapshot = async (snapshot: LibrarySnapshot) => {
+      if (!confirm(`确定将整个配置库回滚到「${snapshotTitle(snapshot)}」(${new Date(snapshot.createdAt).toLocaleString()}) 吗？\n当前状态会自动保存为一条快照，可再次回滚。`)) return;
+      applyRestoredLibrary(await restoreSnapshot(snapshot, library));
+  };
+
+  const handleRestoreChange = async (change: LibraryChange) => {
+      if (!selectedSnapshot) return;
+      applyRestoredLibrary(await restoreChange(selectedSnapshot, library, change));
+  };
+
+  const handleDeleteSnapshot = async (snapshot: LibrarySnapshot) => {
+      if (!confirm(`确定删除检查点「${snapshotTitle(snapshot)}」吗？`)) return;
+      if (selectedSnapshotId === snapshot.id) setSelectedSnapshotId(null);
+      await deleteSnapshot(snapshot.id);
+  };
+
+  // Before / after text of a changed prompt for the diff view
+  const promptComparison = (change: LibraryChange) => selectedSnapshot && change.section === 'prompts'
+      ? {
+          before: selectedSnapshot.library.prompts[change.id as keyof SystemPrompts] || '',
+          after: library.prompts[change.id as keyof SystemPrompts] || ''
+      }
+      : null;
+
   // Diagnostics State
   const [diagModels, setDiagModels] = useState<any[]>([]);
   const [diagLoading, setDiagLoading] = useState(false);
@@ -84,18 +413,20 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
     
     try {
         const resizedBase64 = await resizeImage(file);
+        // Identical uploads resolve to the same asset
+        const { assetId, url: previewUrl } = await storeAsset(resizedBase64);
         
         if (field === 'material') {
-            setNewMaterial(prev => ({ ...prev, previewUrl: resizedBase64 }));
+            setNewMaterial(prev => ({ ...prev, previewUrl, assetId }));
         }
         if (field === 'process') {
-            setNewProcess(prev => ({ ...prev, previewUrl: resizedBase64 }));
+            setNewProcess(prev => ({ ...prev, previewUrl, assetId }));
         }
         if (field === 'style') {
-            setNewStyle(prev => ({ ...prev, previewUrl: resizedBase64 }));
+            setNewStyle(prev => ({ ...prev, previewUrl, assetId }));
         }
         if (field === 'diamond') {
-            setNewDiamondColor(prev => ({ ...prev, previewUrl: resizedBase64 }));
+            setNewDiamondColor(prev => ({ ...prev, previewUrl, assetId }));
         }
     } catch (error) {
         console.error("Error processing image:", error);
@@ -105,8 +436,44 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
 
   // --- SAVE HANDLERS ---
 
+  const handleSaveDevice = () => {
+    if (!newDevice.name?.trim()) return;
+    const device = {
+        ...EMPTY_DEVICE,
+        ...newDevice,
+        name: newDevice.name.trim(),
+        aliases: deviceAliases.split(/[,，]/).map(a => a.trim()).filter(Boolean),
+        cutouts: (newDevice.cutouts || []).filter(c => c.label.trim())
+    } as DeviceModel;
+
+    if (editingId) {
+        setLibrary(prev => ({
+            ...prev,
+            devices: prev.devices.map(d => d.id === editingId ? { ...device, id: editingId } : d),
+            // Materials keep a name snapshot for display, follow renames
+            materials: prev.materials.map(m => m.deviceId === editingId ? { ...m, model: device.name } : m)
+        }));
+        setEditingId(null);
+    } else {
+        setLibrary(prev => ({
+            ...prev,
+            devices: [...prev.devices, { ...device, id: Date.now().toString() }]
+        }));
+    }
+    setNewDevice(EMPTY_DEVICE);
+    setDeviceAliases('');
+  };
+
+  const updateCutout = (index: number, patch: Partial<DeviceCutout>) => {
+      setNewDevice(prev => ({ ...prev, cutouts: (prev.cutouts || []).map((c, i) => i === index ? { ...c, ...patch } : c) }));
+  };
+
   const handleSaveMaterial = () => {
-    if (!newMaterial.name || !newMaterial.model) return;
+    if (!newMaterial.name) return;
+    if (!newMaterial.deviceId) {
+        alert('请先选择适用机型（可在“机型库”中添加）');
+        return;
+    }
     
     if (editingId) {
         setLibrary(prev => ({
@@ -120,11 +487,16 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
             materials: [...prev.materials, { ...newMaterial, id: Date.now().toString() } as MaterialOption]
         }));
     }
-    setNewMaterial({ type: 'plastic', model: 'iPhone 15 Pro', name: '', color: '', previewUrl: '' });
+    setNewMaterial(emptyMaterial());
   };
 
   const handleSaveProcess = () => {
     if (!newProcess.name) return;
+    const issues = validateTemplate(newProcess.description || '', 'processDescription');
+    if (issues.length > 0) {
+        alert(`工艺描述模板有误：\n${issues.join('\n')}`);
+        return;
+    }
 
     if (editingId) {
         setLibrary(prev => ({
@@ -143,6 +515,11 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
 
   const handleSaveStyle = () => {
     if (!newStyle.name) return;
+    const issues = validateTemplate(newStyle.promptModifier || '', 'styleModifier');
+    if (issues.length > 0) {
+        alert(`风格修饰语模板有误：\n${issues.join('\n')}`);
+        return;
+    }
 
     if (editingId) {
         setLibrary(prev => ({
@@ -180,7 +557,17 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
     setNewDiamondColor({ name: '', previewUrl: '' });
   };
 
+  const promptIssues = {
+      designGeneration: validateTemplate(localPrompts.designGeneration || '', 'designGeneration'),
+      diamondGeneration: validateTemplate(localPrompts.diamondGeneration || '', 'diamondGeneration'),
+      variantDesigner: validateTemplate(localPrompts.variantDesigner || '', 'variantDesigner'),
+  };
+
   const handleSavePrompts = () => {
+      if (Object.values(promptIssues).some(issues => issues.length > 0)) {
+          alert('提示词模板存在错误，请根据提示修正后再保存。');
+          return;
+      }
       setLibrary(prev => ({
           ...prev,
           prompts: localPrompts
@@ -189,10 +576,89 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
       setTimeout(() => setPromptSaved(false), 2000);
   };
 
+  // --- MODEL REGISTRY HANDLERS ---
+
+  const updateChain = (op: ModelOperation, updater: (chain: ModelChainEntry[]) => ModelChainEntry[]) => {
+      setLocalModels(prev => ({ ...prev, [op]: updater(prev[op]) }));
+  };
+
+  const updateChainEntry = (op: ModelOperation, index: number, patch: Partial<ModelChainEntry>) => {
+      updateChain(op, chain => chain.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+  };
+
+  const moveChainEntry = (op: ModelOperation, index: number, delta: number) => {
+      updateChain(op, chain => {
+          const target = index + delta;
+          if (target < 0 || target >= chain.length) return chain;
+          const next = [...chain];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  const handleSaveModels = () => {
+      // Drop blank rows, every operation needs at least one model
+      const cleaned = Object.fromEntries(
+          MODEL_OPERATIONS.map(({ key }) => [key, localModels[key].filter(e => e.model.trim()).map(e => ({ ...e, model: e.model.trim() }))])
+      ) as ModelRegistry;
+      const empty = MODEL_OPERATIONS.find(({ key }) => cleaned[key].length === 0);
+      if (empty) {
+          alert(`"${empty.label}" 至少需要配置一个模型`);
+          return;
+      }
+      setLibrary(prev => ({ ...prev, models: cleaned }));
+      setLocalModels(cleaned);
+      setModelsSaved(true);
+      setTimeout(() => setModelsSaved(false), 2000);
+  };
+
+  // --- PRICING HANDLERS ---
+
+  const updatePricingEntry = (index: number, patch: Partial<ModelPricing>) => {
+      setLocalPricing(prev => ({
+          ...prev,
+          models: prev.models.map((m, i) => i === index ? { ...m, ...patch } : m)
+      }));
+  };
+
+  const updateImagePrice = (index: number, size: string, raw: string) => {
+      setLocalPricing(prev => ({
+          ...prev,
+          models: prev.models.map((m, i) => {
+              if (i !== index) return m;
+              const imagePrices = { ...(m.imagePrices || {}) };
+              if (raw === '') delete imagePrices[size];
+              else imagePrices[size] = Math.max(0, parseFloat(raw) || 0);
+              return { ...m, imagePrices: Object.keys(imagePrices).length ? imagePrices : undefined };
+          })
+      }));
+  };
+
+  const handleSavePricing = () => {
+      if (!(localPricing.exchangeRate > 0) || !localPricing.currency.trim()) {
+          alert('请填写有效的币种和汇率');
+          return;
+      }
+      // Every save is a new price version; designs keep the version they were billed under
+      const next: PricingTable = {
+          ...localPricing,
+          currency: localPricing.currency.trim().toUpperCase(),
+          models: localPricing.models.filter(m => m.model.trim()).map(m => ({ ...m, model: m.model.trim() })),
+          version: library.pricing.version + 1,
+          updatedAt: Date.now()
+      };
+      setLibrary(prev => ({ ...prev, pricing: next, budget: moveBudgetCurrency(prev.budget, prev.pricing, next) }));
+      setPricingSaved(true);
+      setTimeout(() => setPricingSaved(false), 2000);
+  };
+
   const handleResetDefaults = () => {
       if (confirm('确定要重置所有配置为系统默认吗？这将覆盖您当前的所有修改。')) {
           setLibrary(DEFAULT_LIBRARY);
           setLocalPrompts(DEFAULT_LIBRARY.prompts);
+          setLocalModels(DEFAULT_LIBRARY.models);
+          // Keep the version counter monotonic so past designs stay distinguishable
+          setLibrary(prev => ({ ...prev, pricing: { ...DEFAULT_LIBRARY.pricing, version: library.pricing.version + 1, updatedAt: Date.now() } }));
       }
   };
 
@@ -219,10 +685,38 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
       }
   };
 
+  // Gemini proxy connection (device-local, not part of the library)
+  const [proxyConfig, setProxyConfig] = useState<GeminiProxyConfig>(getProxyConfig());
+  const [proxyUsage, setProxyUsage] = useState<ProxyUsage | null>(null);
+  const refreshProxyUsage = () => {
+      if (!getProxyUrl()) return setProxyUsage(null);
+      fetchProxyUsage().then(setProxyUsage).catch(() => setProxyUsage(null));
+  };
+  useEffect(() => {
+      if (activeTab !== 'diagnostic') return;
+      setProxyConfig(getProxyConfig());
+      refreshProxyUsage();
+  }, [activeTab]);
+
+  const handleSaveProxyConfig = async () => {
+      const url = proxyConfig.url.trim();
+      if (url && !/^https?:\/\//.test(url)) {
+          alert('请输入以 http:// 或 https:// 开头的代理地址');
+          return;
+      }
+      await configureGeminiProxy({ url, token: proxyConfig.token?.trim() || undefined });
+      setProxyConfig(getProxyConfig());
+      refreshProxyUsage();
+  };
+
   // --- EDIT HANDLERS ---
 
-  const handleEdit = (type: 'material' | 'process' | 'style' | 'diamond', item: any) => {
+  const handleEdit = (type: 'device' | 'material' | 'process' | 'style' | 'diamond', item: any) => {
       setEditingId(item.id);
+      if (type === 'device') {
+          setNewDevice({ ...item, cutouts: item.cutouts.map((c: DeviceCutout) => ({ ...c })) });
+          setDeviceAliases(item.aliases.join(', '));
+      }
       if (type === 'material') setNewMaterial({ ...item });
       if (type === 'process') setNewProcess({ ...item });
       if (type === 'style') setNewStyle({ ...item });
@@ -231,14 +725,23 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
 
   const handleCancelEdit = () => {
       setEditingId(null);
-      setNewMaterial({ type: 'plastic', model: 'iPhone 15 Pro', name: '', color: '', previewUrl: '' });
+      setNewDevice(EMPTY_DEVICE);
+      setDeviceAliases('');
+      setNewMaterial(emptyMaterial());
       setNewProcess({ name: '', description: '', previewUrl: '' });
       setNewStyle({ name: '', promptModifier: '', previewUrl: '' });
       setNewDiamondColor({ name: '', previewUrl: '' });
   }
 
-  const handleDelete = (e: React.MouseEvent, type: 'materials' | 'processes' | 'styles' | 'mainDiamondColors' | 'secondaryDiamondColors', id: string) => {
+  const handleDelete = (e: React.MouseEvent, type: 'devices' | 'materials' | 'processes' | 'styles' | 'mainDiamondColors' | 'secondaryDiamondColors', id: string) => {
     e.stopPropagation(); // Fix deletion issue
+    if (type === 'devices') {
+        const users = library.materials.filter(m => m.deviceId === id);
+        if (users.length > 0) {
+            alert(`该机型仍被以下底材使用，请先修改或删除：\n${users.map(m => m.name).join('\n')}`);
+            return;
+        }
+    }
     if (confirm('确定要删除这个配置吗？')) {
         setLibrary(prev => ({
           ...prev,
@@ -267,6 +770,12 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
       <div className="flex-1 overflow-hidden flex">
         {/* Sub-sidebar for Settings */}
         <div className="w-48 bg-white border-r border-gray-200 flex flex-col pt-4">
+          <button 
+            onClick={() => { setActiveTab('device'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'device' ? 'text-indigo-600 bg-indigo-50 border-r-2 border-indigo-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Smartphone className="w-4 h-4" /> 机型库
+          </button>
           <button 
             onClick={() => { setActiveTab('material'); handleCancelEdit(); }}
             className={`text-left px-6 py-3 text-sm font-medium ${activeTab === 'material' ? 'text-indigo-600 bg-indigo-50 border-r-2 border-indigo-600' : 'text-gray-600 hover:bg-gray-50'}`}
@@ -298,6 +807,54 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
           >
             <MessageSquare className="w-4 h-4" /> 提示词配置
           </button>
+          <button 
+            onClick={() => { setActiveTab('model'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'model' ? 'text-emerald-600 bg-emerald-50 border-r-2 border-emerald-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Cpu className="w-4 h-4" /> 模型配置
+          </button>
+          <button 
+            onClick={() => { setActiveTab('pricing'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'pricing' ? 'text-yellow-600 bg-yellow-50 border-r-2 border-yellow-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Coins className="w-4 h-4" /> 计费配置
+          </button>
+          <button 
+            onClick={() => { setActiveTab('budget'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'budget' ? 'text-rose-600 bg-rose-50 border-r-2 border-rose-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Wallet className="w-4 h-4" /> 预算控制
+          </button>
+          <button 
+            onClick={() => { setActiveTab('cache'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'cache' ? 'text-cyan-600 bg-cyan-50 border-r-2 border-cyan-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Database className="w-4 h-4" /> 响应缓存
+          </button>
+          <button
+            onClick={() => { setActiveTab('storage'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'storage' ? 'text-sky-600 bg-sky-50 border-r-2 border-sky-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <HardDrive className="w-4 h-4" /> 存储空间
+          </button>
+          <button
+            onClick={() => { setActiveTab('bundle'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'bundle' ? 'text-teal-600 bg-teal-50 border-r-2 border-teal-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Package className="w-4 h-4" /> 导入 / 导出
+          </button>
+          <button
+            onClick={() => { setActiveTab('team'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'team' ? 'text-violet-600 bg-violet-50 border-r-2 border-violet-600' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Users className="w-4 h-4" /> 团队同步
+          </button>
+          <button
+            onClick={() => { setActiveTab('history'); handleCancelEdit(); }}
+            className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'history' ? 'text-slate-700 bg-slate-100 border-r-2 border-slate-700' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            <History className="w-4 h-4" /> 历史版本
+          </button>
           <button 
             onClick={() => { setActiveTab('diagnostic'); handleCancelEdit(); }}
             className={`text-left px-6 py-3 text-sm font-medium flex items-center gap-2 ${activeTab === 'diagnostic' ? 'text-amber-600 bg-amber-50 border-r-2 border-amber-600' : 'text-gray-600 hover:bg-gray-50'}`}
@@ -309,6 +866,145 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
         {/* Content Area */}
         <div className="flex-1 overflow-y-auto p-8">
           
+          {/* DEVICE TAB */}
+          {activeTab === 'device' && (
+            <div className="max-w-3xl space-y-8">
+              <div className={`bg-white p-6 rounded-xl shadow-sm border ${editingId ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-200'}`}>
+                <h3 className="font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                  {editingId ? <Edit2 className="w-4 h-4 text-indigo-600" /> : <Plus className="w-4 h-4" />} 
+                  {editingId ? '编辑机型' : '添加新机型'}
+                </h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <input 
+                    placeholder="机型名称 (如: iPhone 17 Pro)" 
+                    className="border p-2 rounded text-sm"
+                    value={newDevice.name || ''} 
+                    onChange={e => setNewDevice({...newDevice, name: e.target.value})}
+                  />
+                  <input 
+                    placeholder="别名，逗号分隔 (如: 17 Pro, 17p)" 
+                    className="border p-2 rounded text-sm"
+                    value={deviceAliases} 
+                    onChange={e => setDeviceAliases(e.target.value)}
+                  />
+                  <label className="text-xs text-gray-500 flex flex-col gap-1">
+                    摄像头模组形状
+                    <select 
+                      className="border p-2 rounded text-sm bg-white text-gray-800"
+                      value={newDevice.cameraShape}
+                      onChange={e => setNewDevice({...newDevice, cameraShape: e.target.value as CameraModuleShape})}
+                    >
+                      {Object.entries(CAMERA_SHAPE_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-500 flex flex-col gap-1">
+                    摄像头位置
+                    <select 
+                      className="border p-2 rounded text-sm bg-white text-gray-800"
+                      value={newDevice.cameraPosition}
+                      onChange={e => setNewDevice({...newDevice, cameraPosition: e.target.value as CameraModulePosition})}
+                    >
+                      {Object.entries(CAMERA_POSITION_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-500 flex flex-col gap-1">
+                    出图比例
+                    <select 
+                      className="border p-2 rounded text-sm bg-white text-gray-800"
+                      value={newDevice.aspectRatio}
+                      onChange={e => setNewDevice({...newDevice, aspectRatio: e.target.value})}
+                    >
+                      {SUPPORTED_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="mt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-bold text-gray-500">按键 / 开孔</span>
+                    <button 
+                      onClick={() => setNewDevice({...newDevice, cutouts: [...(newDevice.cutouts || []), { kind: 'button', side: 'left', label: '' }]})}
+                      className="text-xs text-indigo-600 hover:underline flex items-center gap-1"
+                    >
+                      <Plus className="w-3 h-3" /> 添加开孔
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {(newDevice.cutouts || []).map((cutout, idx) => (
+                      <div key={idx} className="flex items-center gap-2">
+                        <select 
+                          className="border p-1.5 rounded text-xs bg-white"
+                          value={cutout.side}
+                          onChange={e => updateCutout(idx, { side: e.target.value as DeviceCutout['side'] })}
+                        >
+                          {Object.entries(CUTOUT_SIDE_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                        </select>
+                        <select 
+                          className="border p-1.5 rounded text-xs bg-white"
+                          value={cutout.kind}
+                          onChange={e => updateCutout(idx, { kind: e.target.value as DeviceCutout['kind'] })}
+                        >
+                          {Object.entries(CUTOUT_KIND_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                        </select>
+                        <input 
+                          placeholder="名称 (如: 音量键, USB-C)" 
+                          className="flex-1 border p-1.5 rounded text-xs"
+                          value={cutout.label}
+                          onChange={e => updateCutout(idx, { label: e.target.value })}
+                        />
+                        <button 
+                          onClick={() => setNewDevice({...newDevice, cutouts: (newDevice.cutouts || []).filter((_, i) => i !== idx)})}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <textarea 
+                    placeholder="提示词备注 (生成时作为 {{deviceNotes}} 注入，如摄像头模组的特殊描述)" 
+                    className="w-full border p-2 rounded text-sm h-20"
+                    value={newDevice.promptNotes || ''} 
+                    onChange={e => setNewDevice({...newDevice, promptNotes: e.target.value})}
+                  />
+                </div>
+
+                <div className="mt-4 flex justify-end gap-2">
+                  {editingId && (
+                      <button onClick={handleCancelEdit} className="px-4 py-2 text-gray-500 hover:bg-gray-100 rounded-lg text-sm">取消</button>
+                  )}
+                  <button onClick={handleSaveDevice} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-indigo-700 flex items-center gap-2">
+                      {editingId ? <><Check className="w-4 h-4"/> 更新机型</> : '保存添加'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="text-sm font-bold text-gray-400 uppercase">现有机型库</h4>
+                {library.devices.map(item => (
+                  <div key={item.id} className={`flex items-center justify-between p-4 bg-white border rounded-lg ${editingId === item.id ? 'border-indigo-500 bg-indigo-50' : ''}`}>
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        {item.name}
+                        <span className="ml-2 text-[10px] font-mono bg-gray-100 text-gray-500 px-1.5 rounded">{item.aspectRatio}</span>
+                        <span className="ml-1 text-[10px] text-gray-400">{library.materials.filter(m => m.deviceId === item.id).length} 个底材</span>
+                      </p>
+                      <p className="text-xs text-gray-500 mt-0.5">{describeDeviceGeometry(item)}</p>
+                      {item.aliases.length > 0 && <p className="text-[10px] text-gray-400 mt-0.5">别名: {item.aliases.join(', ')}</p>}
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => handleEdit('device', item)} className="p-2 text-indigo-500 hover:bg-indigo-100 rounded"><Edit2 className="w-4 h-4" /></button>
+                        <button onClick={(e) => handleDelete(e, 'devices', item.id)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* MATERIAL TAB */}
           {activeTab === 'material' && (
             <div className="max-w-3xl space-y-8">
@@ -324,12 +1020,17 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
                     value={newMaterial.name || ''} 
                     onChange={e => setNewMaterial({...newMaterial, name: e.target.value})}
                   />
-                  <input 
-                    placeholder="适用型号 (如: iPhone 15)" 
-                    className="border p-2 rounded text-sm"
-                    value={newMaterial.model || ''} 
-                    onChange={e => setNewMaterial({...newMaterial, model: e.target.value})}
-                  />
+                  <select 
+                    className="border p-2 rounded text-sm bg-white"
+                    value={newMaterial.deviceId || ''}
+                    onChange={e => {
+                        const device = library.devices.find(d => d.id === e.target.value);
+                        setNewMaterial({...newMaterial, deviceId: device?.id, model: device?.name || ''});
+                    }}
+                  >
+                    <option value="" disabled>适用机型{newMaterial.model ? ` (未关联: ${newMaterial.model})` : ''}</option>
+                    {library.devices.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
                   <input 
                     placeholder="颜色" 
                     className="border p-2 rounded text-sm"
@@ -386,7 +1087,9 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
                        </div>
                        <div>
                          <p className="font-medium text-gray-800">{item.name}</p>
-                         <p className="text-xs text-gray-500">{item.model} · {item.type} · {item.color}</p>
+                         <p className="text-xs text-gray-500">
+                           {item.model}{!item.deviceId && <span className="text-amber-600"> (未关联机型)</span>} · {item.type} · {item.color}
+                         </p>
                        </div>
                     </div>
                     <div className="flex items-center gap-1">
@@ -421,7 +1124,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
                       value={newProcess.description || ''} 
                       onChange={e => setNewProcess({...newProcess, description: e.target.value})}
                     />
-                    <p className="text-xs text-gray-400 mt-1">支持使用 <code>{`{{concept}}`}</code> 占位符代表当前脑暴词。</p>
+                    <TemplateHelp kind="processDescription" issues={validateTemplate(newProcess.description || '', 'processDescription')} />
                   </div>
                    {/* Category Selection */}
                    <select 
@@ -605,7 +1308,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
                        value={newStyle.promptModifier || ''} 
                        onChange={e => setNewStyle({...newStyle, promptModifier: e.target.value})}
                      />
-                     <p className="text-xs text-gray-400 mt-1">支持 <code>{`{{concept}}`}</code> 占位符。</p>
+                     <TemplateHelp kind="styleModifier" issues={validateTemplate(newStyle.promptModifier || '', 'styleModifier')} />
                    </div>
                    <div className="flex items-center gap-4">
                       <div 
@@ -669,13 +1372,24 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
 
                   <div className="space-y-6">
                       <div className="bg-white p-5 rounded-lg border border-gray-200">
-                          <label className="block text-sm font-bold text-gray-700 mb-2">生成设计图指令 (Design Generation)</label>
+                          <label className="block text-sm font-bold text-gray-700 mb-2">生成设计图指令 · 标准工艺 (Design Generation)</label>
                           <textarea 
                               className="w-full h-32 p-3 text-xs font-mono bg-gray-50 border border-gray-200 rounded leading-relaxed focus:border-indigo-500 outline-none"
                               value={localPrompts.designGeneration}
                               onChange={e => setLocalPrompts({...localPrompts, designGeneration: e.target.value})}
                           />
-                          <p className="text-[10px] text-gray-400 mt-2">可用变量: <code>{`{{model}}, {{concept}}, {{materialType}}, {{materialColor}}, {{processName}}, {{processDesc}}, {{styleName}}, {{stylePrompt}}, {{context}}`}</code></p>
+                          <TemplateHelp kind="designGeneration" issues={promptIssues.designGeneration} />
+                      </div>
+
+                      <div className="bg-white p-5 rounded-lg border border-gray-200">
+                          <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><Gem className="w-4 h-4 text-blue-600" /> 生成设计图指令 · 满钻工艺 (Diamond Generation)</label>
+                          <textarea 
+                              className="w-full h-40 p-3 text-xs font-mono bg-gray-50 border border-gray-200 rounded leading-relaxed focus:border-indigo-500 outline-none"
+                              value={localPrompts.diamondGeneration || ''}
+                              onChange={e => setLocalPrompts({...localPrompts, diamondGeneration: e.target.value})}
+                          />
+                          <p className="text-[10px] text-gray-400 mt-2">满钻类工艺不附工艺参考图：图1 为底材，选择水钻主色时附加主色图。</p>
+                          <TemplateHelp kind="diamondGeneration" issues={promptIssues.diamondGeneration} />
                       </div>
 
                       <div className="bg-white p-5 rounded-lg border border-gray-200">
@@ -685,7 +1399,8 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
                               value={localPrompts.variantDesigner || ''}
                               onChange={e => setLocalPrompts({...localPrompts, variantDesigner: e.target.value})}
                           />
-                          <p className="text-[10px] text-gray-400 mt-2">此指令控制点击“生成变体”按钮时的逻辑。可用变量: <code>{`{{concept}}, {{count}}`}</code></p>
+                          <p className="text-[10px] text-gray-400 mt-2">此指令控制点击“生成变体”按钮时的逻辑。</p>
+                          <TemplateHelp kind="variantDesigner" issues={promptIssues.variantDesigner} />
                       </div>
 
                       <div className="bg-white p-5 rounded-lg border border-gray-200">
@@ -696,6 +1411,19 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
                               onChange={e => setLocalPrompts({...localPrompts, brainstormRoot: e.target.value})}
                           />
                       </div>
+
+                      <div className="bg-white p-5 rounded-lg border border-gray-200 flex items-center justify-between gap-4">
+                          <div>
+                              <label className="block text-sm font-bold text-gray-700">脑暴上下文层数 (Context Depth)</label>
+                              <p className="text-[10px] text-gray-400 mt-1">展开节点与生成设计图 ({'{{context}}'}) 时附带的祖先节点数量。0 表示只看当前词；层数越多联想越贴合主题，但提示词更长。</p>
+                          </div>
+                          <input
+                              type="number" min={0} max={20}
+                              className="border p-2 rounded text-sm w-20"
+                              value={library.brainstorm.contextDepth}
+                              onChange={e => setLibrary(prev => ({ ...prev, brainstorm: { ...prev.brainstorm, contextDepth: Math.min(20, Math.max(0, parseInt(e.target.value) || 0)) } }))}
+                          />
+                      </div>
                   </div>
 
                   <div className="sticky bottom-6 flex justify-end">
@@ -710,9 +1438,835 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ library, setLibrary }) => {
               </div>
           )}
 
+          {/* MODEL REGISTRY TAB */}
+          {activeTab === 'model' && (
+              <div className="max-w-4xl space-y-6">
+                  <div className="bg-emerald-50 border border-emerald-200 p-4 rounded-lg flex items-start gap-3">
+                      <Cpu className="w-5 h-5 text-emerald-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-emerald-800">Model Fallback Chains</h4>
+                          <p className="text-xs text-emerald-700 mt-1">每个操作按顺序尝试模型：配额 / 过载 / 网络等临时错误先在同一模型上重试，权限 / 地区错误不重试；若为权限 / 配额 / 过载 / 地区错误则切换到下一个模型。Google 更名或下线预览模型时，在此处修改即可。</p>
+                      </div>
+                  </div>
+
+                  <datalist id="known-models">
+                      {Array.from(new Set(Object.values(DEFAULT_LIBRARY.models).flat().map(e => e.model))).map(m => (
+                          <option key={m} value={m} />
+                      ))}
+                  </datalist>
+
+                  {MODEL_OPERATIONS.map(op => (
+                      <div key={op.key} className="bg-white p-5 rounded-lg border border-gray-200">
+                          <div className="flex justify-between items-start mb-3">
+                              <div>
+                                  <label className="block text-sm font-bold text-gray-700">{op.label}</label>
+                                  <p className="text-[10px] text-gray-400 mt-0.5">{op.hint}</p>
+                              </div>
+                              <button 
+                                  onClick={() => updateChain(op.key, chain => [...chain, { model: '', retries: 0, delayMs: 1000 }])}
+                                  className="text-xs text-emerald-600 hover:bg-emerald-50 px-2 py-1 rounded flex items-center gap-1"
+                              >
+                                  <Plus className="w-3 h-3" /> 添加备用模型
+                              </button>
+                          </div>
+                          <div className="space-y-2">
+                              <div className="grid grid-cols-[2rem_1fr_5rem_6rem_5.5rem] gap-2 text-[10px] font-bold text-gray-400 uppercase px-1">
+                                  <span>#</span><span>Model</span><span>重试次数</span><span>等待 (ms)</span><span></span>
+                              </div>
+                              {localModels[op.key].map((entry, idx) => (
+                                  <div key={idx} className="grid grid-cols-[2rem_1fr_5rem_6rem_5.5rem] gap-2 items-center">
+                                      <span className={`text-xs font-mono text-center rounded py-1 ${idx === 0 ? 'bg-emerald-100 text-emerald-700 font-bold' : 'bg-gray-100 text-gray-500'}`}>{idx + 1}</span>
+                                      <input 
+                                          list="known-models"
+                                          className="border p-1.5 rounded text-xs font-mono"
+                                          value={entry.model}
+                                          onChange={e => updateChainEntry(op.key, idx, { model: e.target.value })}
+                                      />
+                                      <input 
+                                          type="number" min={0} max={5}
+                                          className="border p-1.5 rounded text-xs disabled:bg-gray-50 disabled:text-gray-300"
+                                          disabled={op.key === 'imageGenerate'}
+                                          value={entry.retries}
+                                          onChange={e => updateChainEntry(op.key, idx, { retries: Math.max(0, parseInt(e.target.value) || 0) })}
+                                      />
+                                      <input 
+                                          type="number" min={0} step={500}
+                                          className="border p-1.5 rounded text-xs"
+                                          value={entry.delayMs}
+                                          onChange={e => updateChainEntry(op.key, idx, { delayMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                                      />
+                                      <div className="flex gap-0.5">
+                                          <button onClick={() => moveChainEntry(op.key, idx, -1)} disabled={idx === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                                          <button onClick={() => moveChainEntry(op.key, idx, 1)} disabled={idx === localModels[op.key].length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                                          <button onClick={() => updateChain(op.key, chain => chain.filter((_, i) => i !== idx))} className="p-1 text-gray-400 hover:text-red-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                                      </div>
+                                  </div>
+                              ))}
+                          </div>
+                      </div>
+                  ))}
+
+                  <div className="sticky bottom-6 flex justify-end">
+                      <button 
+                        onClick={handleSaveModels}
+                        className={`px-6 py-3 rounded-lg font-medium text-white shadow-lg flex items-center gap-2 transition-all ${modelsSaved ? 'bg-green-600' : 'bg-emerald-600 hover:bg-emerald-700'}`}
+                      >
+                          {modelsSaved ? <Check className="w-5 h-5"/> : <Save className="w-5 h-5"/>}
+                          {modelsSaved ? '已保存设置' : '保存模型配置'}
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {/* PRICING TAB */}
+          {activeTab === 'pricing' && (
+              <div className="max-w-5xl space-y-6">
+                  <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg flex items-start gap-3">
+                      <Coins className="w-5 h-5 text-yellow-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-yellow-800">Pricing Table · v{library.pricing.version}</h4>
+                          <p className="text-xs text-yellow-700 mt-1">
+                              价格以美元 (USD) 计。配置了单张图片价格的分辨率按张计费，否则按输出 Token 计费。每次保存都会生成新版本，已生成的设计保留其计费时的版本。
+                              {library.pricing.updatedAt > 0 && ` 最近更新: ${new Date(library.pricing.updatedAt).toLocaleString()}`}
+                          </p>
+                      </div>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 grid grid-cols-2 gap-4">
+                      <div>
+                          <label className="block text-xs font-bold text-gray-500 mb-1">结算币种 (Currency)</label>
+                          <input 
+                              className="w-full border p-2 rounded text-sm font-mono uppercase"
+                              value={localPricing.currency}
+                              onChange={e => setLocalPricing({ ...localPricing, currency: e.target.value })}
+                          />
+                      </div>
+                      <div>
+                          <label className="block text-xs font-bold text-gray-500 mb-1">汇率 (1 USD = ?)</label>
+                          <input 
+                              type="number" min={0} step={0.01}
+                              className="w-full border p-2 rounded text-sm"
+                              value={localPricing.exchangeRate}
+                              onChange={e => setLocalPricing({ ...localPricing, exchangeRate: parseFloat(e.target.value) || 0 })}
+                          />
+                      </div>
+                  </div>
+
+                  <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                      <div className="grid grid-cols-[1fr_6rem_6rem_5rem_5rem_5rem_2rem] gap-2 px-4 py-2 bg-gray-50 border-b text-[10px] font-bold text-gray-400 uppercase">
+                          <span>Model</span><span>Input $/1M</span><span>Output $/1M</span>
+                          {IMAGE_SIZES.map(size => <span key={size}>{size} $/张</span>)}
+                          <span></span>
+                      </div>
+                      <div className="divide-y divide-gray-100">
+                          {localPricing.models.map((entry, idx) => (
+                              <div key={idx} className="grid grid-cols-[1fr_6rem_6rem_5rem_5rem_5rem_2rem] gap-2 px-4 py-2 items-center">
+                                  <input 
+                                      className="border p-1.5 rounded text-xs font-mono"
+                                      value={entry.model}
+                                      onChange={e => updatePricingEntry(idx, { model: e.target.value })}
+                                  />
+                                  <input 
+                                      type="number" min={0} step={0.01}
+                                      className="border p-1.5 rounded text-xs"
+                                      value={entry.inputPerMillion}
+                                      onChange={e => updatePricingEntry(idx, { inputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                  />
+                                  <input 
+                                      type="number" min={0} step={0.01}
+                                      className="border p-1.5 rounded text-xs"
+                                      value={entry.outputPerMillion}
+                                      onChange={e => updatePricingEntry(idx, { outputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                  />
+                                  {IMAGE_SIZES.map(size => (
+                                      <input 
+                                          key={size}
+                                          type="number" min={0} step={0.001}
+                                          placeholder="—"
+                                          className="border p-1.5 rounded text-xs"
+                                          value={entry.imagePrices?.[size] ?? ''}
+                                          onChange={e => updateImagePrice(idx, size, e.target.value)}
+                                      />
+                                  ))}
+                                  <button 
+                                      onClick={() => setLocalPricing(prev => ({ ...prev, models: prev.models.filter((_, i) => i !== idx) }))}
+                                      className="p-1 text-gray-400 hover:text-red-600"
+                                  >
+                                      <Trash2 className="w-3.5 h-3.5" />
+                                  </button>
+                              </div>
+                          ))}
+                      </div>
+                      <div className="px-4 py-3 border-t bg-gray-50">
+                          <button 
+                              onClick={() => setLocalPricing(prev => ({ ...prev, models: [...prev.models, { model: '', inputPerMillion: 0, outputPerMillion: 0 }] }))}
+                              className="text-xs text-yellow-700 hover:bg-yellow-100 px-2 py-1 rounded flex items-center gap-1"
+                          >
+                              <Plus className="w-3 h-3" /> 添加模型价格
+                          </button>
+                      </div>
+                  </div>
+
+                  <div className="sticky bottom-6 flex justify-end">
+                      <button 
+                        onClick={handleSavePricing}
+                        className={`px-6 py-3 rounded-lg font-medium text-white shadow-lg flex items-center gap-2 transition-all ${pricingSaved ? 'bg-green-600' : 'bg-yellow-600 hover:bg-yellow-700'}`}
+                      >
+                          {pricingSaved ? <Check className="w-5 h-5"/> : <Save className="w-5 h-5"/>}
+                          {pricingSaved ? '已保存设置' : `保存为 v${library.pricing.version + 1}`}
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {/* BUDGET TAB */}
+          {activeTab === 'budget' && (
+              <div className="max-w-3xl space-y-6">
+                  <div className="bg-rose-50 border border-rose-200 p-4 rounded-lg flex items-start gap-3">
+                      <Wallet className="w-5 h-5 text-rose-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-rose-800">Spend Budgets</h4>
+                          <p className="text-xs text-rose-700 mt-1">批量生成和变体生成前，会按当前价格表预估费用并与剩余预算比较。填 0 表示不限制。日预算按自然日计算，周预算从周一开始。</p>
+                      </div>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-5">
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-bold text-gray-500 mb-1">预算币种</label>
+                              <select 
+                                  className="w-full border p-2 rounded text-sm bg-white"
+                                  value={library.budget.currency}
+                                  onChange={e => updateBudget({ currency: e.target.value })}
+                              >
+                                  {Array.from(new Set([library.pricing.currency, 'USD', library.budget.currency])).map(c => (
+                                      <option key={c} value={c} disabled={!isBudgetCurrency(c, library.pricing)}>{c}</option>
+                                  ))}
+                              </select>
+                              {!isBudgetCurrency(library.budget.currency, library.pricing) && (
+                                  <p className="text-[10px] text-rose-600 mt-1">价格表已改用 {library.pricing.currency}，无法换算 {library.budget.currency}，请重新选择币种并核对限额</p>
+                              )}
+                          </div>
+                          <div>
+                              <label className="block text-xs font-bold text-gray-500 mb-1">超出预算时</label>
+                              <select 
+                                  className="w-full border p-2 rounded text-sm bg-white"
+                                  value={library.budget.mode}
+                                  onChange={e => updateBudget({ mode: e.target.value as SpendBudget['mode'] })}
+                              >
+                                  <option value="warn">提醒并确认 (Warn)</option>
+                                  <option value="block">直接阻止 (Block)</option>
+                              </select>
+                          </div>
+                      </div>
+
+                      {([
+                          { key: 'session', label: '单次会话预算', spentUSD: spendSummary.sessionUSD },
+                          { key: 'daily', label: '每日预算', spentUSD: spendSummary.dailyUSD },
+                          { key: 'weekly', label: '每周预算', spentUSD: spendSummary.weeklyUSD },
+                      ] as const).map(row => {
+                          const limit = library.budget[row.key];
+                          const spent = convertFromUSD(row.spentUSD, library.budget.currency, library.pricing);
+                          const ratio = limit > 0 ? Math.min(1, spent / limit) : 0;
+                          return (
+                              <div key={row.key} className="space-y-1.5">
+                                  <div className="flex items-center justify-between gap-4">
+                                      <label className="text-sm font-medium text-gray-700 w-32">{row.label}</label>
+                                      <input 
+                                          type="number" min={0} step={1}
+                                          className="border p-2 rounded text-sm w-40"
+                                          value={limit}
+                                          onChange={e => updateBudget({ [row.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                      />
+                                      <span className="text-xs text-gray-500 flex-1 text-right">
+                                          已用 {formatMoney(spent, library.budget.currency)}{limit > 0 ? ` / ${formatMoney(limit, library.budget.currency)}` : ' (不限)'}
+                                      </span>
+                                  </div>
+                                  {limit > 0 && (
+                                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                          <div className={`h-full ${ratio >= 1 ? 'bg-rose-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${ratio * 100}%` }} />
+                                      </div>
+                                  )}
+                              </div>
+                          );
+                      })}
+                  </div>
+              </div>
+          )}
+
+          {/* CACHE TAB */}
+          {activeTab === 'cache' && (
+              <div className="max-w-3xl space-y-6">
+                  <div className="bg-cyan-50 border border-cyan-200 p-4 rounded-lg flex items-start gap-3">
+                      <Database className="w-5 h-5 text-cyan-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-cyan-800">Response Cache</h4>
+                          <p className="text-xs text-cyan-700 mt-1">以 模型链 + 提示词 + 参考图哈希 + 配置 为键缓存 AI 返回结果，相同请求直接复用、不再计费。超出容量时按最近最少使用 (LRU) 淘汰。画布与工坊中可切换“强制刷新”。</p>
+                      </div>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-4">
+                      <label className="flex items-center justify-between gap-4">
+                          <span className="text-sm font-medium text-gray-700">启用响应缓存</span>
+                          <input type="checkbox" checked={library.cache.enabled} onChange={e => updateCacheSettings({ enabled: e.target.checked })} className="w-4 h-4 accent-cyan-600" />
+                      </label>
+                      <label className="flex items-center justify-between gap-4">
+                          <div>
+                              <span className="text-sm font-medium text-gray-700">缓存生成图片</span>
+                              <p className="text-[10px] text-gray-400">图片体积较大 (单张约 1~4 MB)，开启后重复生成相同概念会直接返回旧图。</p>
+                          </div>
+                          <input type="checkbox" checked={library.cache.cacheImages} disabled={!library.cache.enabled} onChange={e => updateCacheSettings({ cacheImages: e.target.checked })} className="w-4 h-4 accent-cyan-600" />
+                      </label>
+                      <div className="flex items-center justify-between gap-4">
+                          <label className="text-sm font-medium text-gray-700">容量上限 (MB)</label>
+                          <div className="flex items-center gap-2">
+                              <input 
+                                  type="number" min={1} step={10}
+                                  className="border p-2 rounded text-sm w-28"
+                                  value={library.cache.maxSizeMB}
+                                  onChange={e => updateCacheSettings({ maxSizeMB: Math.max(1, parseInt(e.target.value) || 1) })}
+                              />
+                              <button
+                                  onClick={() => enforceCacheLimit(library.cache.maxSizeMB)}
+                                  className="px-3 py-2 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50"
+                              >
+                                  立即淘汰
+                              </button>
+                          </div>
+                      </div>
+                      <div className="space-y-1.5">
+                          <div className="flex justify-between text-xs text-gray-500">
+                              <span>已用 {formatBytes(cacheTotalBytes)} / {library.cache.maxSizeMB} MB</span>
+                              <span>{cacheEntries.length} 条</span>
+                          </div>
+                          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                              <div className={`h-full ${cacheTotalBytes > cacheLimitBytes ? 'bg-rose-500' : 'bg-cyan-500'}`} style={{ width: `${Math.min(1, cacheTotalBytes / cacheLimitBytes) * 100}%` }} />
+                          </div>
+                      </div>
+                      <div className="grid grid-cols-4 gap-2">
+                          {cacheByOperation.map(row => (
+                              <div key={row.op} className="bg-gray-50 rounded p-2 border border-gray-100">
+                                  <div className="text-[10px] text-gray-400">{CACHE_OPERATION_LABELS[row.op]}</div>
+                                  <div className="text-sm font-bold text-gray-700">{row.count}</div>
+                                  <div className="text-[10px] text-gray-400">{formatBytes(row.bytes)}</div>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+
+                  <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                      <div className="px-4 py-3 border-b border-gray-100 flex justify-between items-center">
+                          <h4 className="text-sm font-bold text-gray-700">缓存条目 (按最近使用排序)</h4>
+                          <button onClick={handleClearCache} disabled={cacheEntries.length === 0} className="text-xs text-red-500 hover:text-red-700 flex items-center gap-1 disabled:opacity-40">
+                              <Trash2 className="w-3 h-3" /> 清空缓存
+                          </button>
+                      </div>
+                      {cacheEntries.length === 0 ? (
+                          <div className="p-8 text-center text-xs text-gray-400">暂无缓存</div>
+                      ) : (
+                          <div className="max-h-96 overflow-y-auto divide-y divide-gray-50">
+                              {cacheEntries.map(entry => (
+                                  <div key={entry.key} className="px-4 py-2 flex items-center gap-3 text-xs hover:bg-gray-50">
+                                      <span className="px-1.5 py-0.5 rounded bg-cyan-50 text-cyan-700 text-[10px] font-bold shrink-0">{CACHE_OPERATION_LABELS[entry.operation]}</span>
+                                      <span className="flex-1 truncate text-gray-700" title={`${entry.label}\n${entry.models.join(' → ')}`}>{entry.label}</span>
+                                      <span className="text-gray-400 w-16 text-right">{formatBytes(entry.sizeBytes)}</span>
+                                      <span className="text-gray-400 w-14 text-right">命中 {entry.hits}</span>
+                                      <span className="text-gray-400 w-32 text-right">{new Date(entry.lastAccessedAt).toLocaleString()}</span>
+                                      <button onClick={() => evictCacheEntries([entry.key])} className="p-1 text-gray-400 hover:text-red-500" title="删除">
+                                          <Trash2 className="w-3 h-3" />
+                                      </button>
+                                  </div>
+                              ))}
+                          </div>
+                      )}
+                  </div>
+              </div>
+          )}
+
+          {/* STORAGE TAB */}
+          {activeTab === 'storage' && (
+              <div className="max-w-3xl space-y-6">
+                  <div className="bg-sky-50 border border-sky-200 p-4 rounded-lg flex items-start gap-3">
+                      <HardDrive className="w-5 h-5 text-sky-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-sky-800">Storage</h4>
+                          <p className="text-xs text-sky-700 mt-1">所有数据都保存在本浏览器中。空间不足时浏览器会拒绝写入，甚至清除站点数据；建议申请持久化存储并定期清理。</p>
+                      </div>
+                  </div>
+
+                  {!storageOverview ? (
+                      <div className="p-8 text-center text-xs text-gray-400 flex items-center justify-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> 正在统计...</div>
+                  ) : (
+                      <>
+                          <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-4">
+                              <div className="space-y-1.5">
+                                  <div className="flex justify-between text-xs text-gray-500">
+                                      <span>已用 {storageOverview.usage !== undefined ? formatBytes(storageOverview.usage) : '未知'}{storageOverview.quota ? ` / ${formatBytes(storageOverview.quota)}` : ''}</span>
+                                      {storageOverview.usage !== undefined && storageOverview.quota ? <span>{(storageOverview.usage / storageOverview.quota * 100).toFixed(1)}%</span> : null}
+                                  </div>
+                                  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                      <div
+                                          className={`h-full ${storageOverview.quota && (storageOverview.usage || 0) / storageOverview.quota > 0.8 ? 'bg-rose-500' : 'bg-sky-500'}`}
+                                          style={{ width: `${storageOverview.quota ? Math.min(1, (storageOverview.usage || 0) / storageOverview.quota) * 100 : 0}%` }}
+                                      />
+                                  </div>
+                              </div>
+                              <div className="flex items-center justify-between gap-4">
+                                  <div>
+                                      <span className="text-sm font-medium text-gray-700">持久化存储</span>
+                                      <p className="text-[10px] text-gray-400">开启后浏览器在空间紧张时不会自动清除本站数据。</p>
+                                  </div>
+                                  {storageOverview.persisted ? (
+                                      <span className="flex items-center gap-1 text-xs text-green-600"><ShieldCheck className="w-4 h-4" /> 已开启</span>
+                                  ) : (
+                                      <button onClick={handleRequestPersist} className="px-3 py-2 text-xs rounded border border-sky-200 text-sky-700 hover:bg-sky-50">申请持久化</button>
+                                  )}
+                              </div>
+                          </div>
+
+                          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                              <div className="px-4 py-3 border-b border-gray-100 flex justify-between items-center">
+                                  <h4 className="text-sm font-bold text-gray-700">占用明细 (估算)</h4>
+                                  <button onClick={refreshStorage} className="text-xs text-gray-500 hover:text-gray-800 flex items-center gap-1"><RotateCcw className="w-3 h-3" /> 刷新</button>
+                              </div>
+                              {(() => {
+                                  const total = storageOverview.areas.reduce((sum, a) => sum + a.bytes, 0) || 1;
+                                  return (
+                                      <div className="divide-y divide-gray-50">
+                                          {[...storageOverview.areas].sort((a, b) => b.bytes - a.bytes).map(row => (
+                                              <div key={row.area} className="px-4 py-2 flex items-center gap-3 text-xs">
+                                                  <span className="w-28 text-gray-700">{STORAGE_AREA_LABELS[row.area]}</span>
+                                                  <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                                      <div className="h-full bg-sky-400" style={{ width: `${row.bytes / total * 100}%` }} />
+                                                  </div>
+                                                  <span className="w-16 text-right text-gray-400">{row.count} 条</span>
+                                                  <span className="w-20 text-right text-gray-600">{formatBytes(row.bytes)}</span>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  );
+                              })()}
+                          </div>
+                      </>
+                  )}
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-4">
+                      <div className="flex justify-between items-center">
+                          <h4 className="text-sm font-bold text-gray-700">清理工具</h4>
+                          {storageTask && <span className="text-xs text-sky-600 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> {storageTask}</span>}
+                      </div>
+                      <div className="flex items-center justify-between gap-4">
+                          <div>
+                              <span className="text-sm text-gray-700">清理旧设计</span>
+                              <p className="text-[10px] text-gray-400">删除指定天数前生成、且未在工坊中加星标的设计。</p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                              <input
+                                  type="number" min={1}
+                                  className="border p-2 rounded text-sm w-20"
+                                  value={pruneDays}
+                                  onChange={e => setPruneDays(Math.max(1, parseInt(e.target.value) || 1))}
+                              />
+                              <span className="text-xs text-gray-500">天前</span>
+                              <button onClick={handlePruneDesigns} disabled={!!storageTask} className="px-3 py-2 text-xs rounded border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-40">清理</button>
+                          </div>
+                      </div>
+                      <div className="flex items-center justify-between gap-4">
+                          <div>
+                              <span className="text-sm text-gray-700">压缩设计图片</span>
+                              <p className="text-[10px] text-gray-400">将 PNG 设计图及参考图转为高质量 JPEG，通常可减少 70% 以上空间。</p>
+                          </div>
+                          <button onClick={handleCompactImages} disabled={!!storageTask} className="px-3 py-2 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40">压缩</button>
+                      </div>
+                      <div className="flex items-center justify-between gap-4">
+                          <div>
+                              <span className="text-sm text-gray-700">清理未使用的素材图片</span>
+                              <p className="text-[10px] text-gray-400">删除已替换或已删除条目遗留的上传图片，历史版本仍引用的会保留。</p>
+                          </div>
+                          <button onClick={handlePruneAssets} disabled={!!storageTask} className="px-3 py-2 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40">清理</button>
+                      </div>
+                      <div className="flex items-center justify-between gap-4">
+                          <div>
+                              <span className="text-sm text-gray-700">清空响应缓存</span>
+                              <p className="text-[10px] text-gray-400">之后相同请求会重新调用并计费。</p>
+                          </div>
+                          <button onClick={() => handleClearCache().then(refreshStorage)} disabled={!!storageTask} className="px-3 py-2 text-xs rounded border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-40">清空</button>
+                      </div>
+                  </div>
+              </div>
+          )}
+
+          {/* BUNDLE TAB */}
+          {activeTab === 'bundle' && (
+              <div className="max-w-3xl space-y-6">
+                  <div className="bg-teal-50 border border-teal-200 p-4 rounded-lg flex items-start gap-3">
+                      <Package className="w-5 h-5 text-teal-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-teal-800">Library Bundle</h4>
+                          <p className="text-xs text-teal-700 mt-1">将配置库导出为 .zip 配置包 (manifest.json + 图片资源)，分发给团队成员导入。导入按 ID 合并，冲突项可逐条选择覆盖、跳过或保留两者。</p>
+                      </div>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-4">
+                      <h4 className="text-sm font-bold text-gray-700">导出</h4>
+                      <div className="grid grid-cols-3 gap-2">
+                          {BUNDLE_SECTIONS.map(section => (
+                              <label key={section.key} className="flex items-center gap-2 p-2 rounded border border-gray-100 bg-gray-50 text-sm text-gray-700 cursor-pointer">
+                                  <input type="checkbox" checked={exportSections.has(section.key)} onChange={() => toggleExportSection(section.key)} className="accent-teal-600" />
+                                  <span className="flex-1">{section.label}</span>
+                                  <span className="text-[10px] text-gray-400">{sectionCount(section.key)}</span>
+                              </label>
+                          ))}
+                      </div>
+                      <button
+                          onClick={handleExportBundle}
+                          disabled={isExporting || exportSections.size === 0}
+                          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded text-sm hover:bg-teal-700 disabled:opacity-50"
+                      >
+                          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} 导出配置包
+                      </button>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-4">
+                      <div className="flex justify-between items-center">
+                          <h4 className="text-sm font-bold text-gray-700">导入</h4>
+                          <label className="flex items-center gap-2 px-3 py-2 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50 cursor-pointer">
+                              <Upload className="w-3 h-3" /> 选择配置包
+                              <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportFile} />
+                          </label>
+                      </div>
+
+                      {!pendingImport ? (
+                          <div className="p-6 text-center text-xs text-gray-400">尚未选择文件</div>
+                      ) : (() => {
+                          const conflicts = pendingImport.plan.filter(p => p.status === 'conflict');
+                          const fresh = pendingImport.plan.filter(p => p.status === 'new');
+                          const identical = pendingImport.plan.filter(p => p.status === 'identical');
+                          return (
+                              <div className="space-y-4">
+                                  <div className="text-xs text-gray-500">
+                                      {pendingImport.fileName} · 导出于 {new Date(pendingImport.bundle.manifest.exportedAt).toLocaleString()} · 新增 {fresh.length} / 冲突 {conflicts.length} / 相同 {identical.length}
+                                  </div>
+                                  {conflicts.length > 0 && (
+                                      <>
+                                          <div className="flex items-center justify-between gap-4">
+                                              <span className="text-sm text-gray-700">冲突默认处理</span>
+                                              <select className="border p-1.5 rounded text-xs" value={defaultResolution} onChange={e => setDefaultResolution(e.target.value as ConflictResolution)}>
+                                                  <option value="skip">跳过 (保留本地)</option>
+                                                  <option value="overwrite">覆盖本地</option>
+                                                  <option value="keepBoth">保留两者</option>
+                                              </select>
+                                          </div>
+                                          <div className="max-h-72 overflow-y-auto divide-y divide-gray-50 border border-gray-100 rounded">
+                                              {conflicts.map(item => {
+                                                  const isSettings = !Array.isArray(library[item.section]);
+                                                  return (
+                                                      <div key={item.key} className="px-3 py-2 flex items-center gap-3 text-xs">
+                                                          <span className="px-1.5 py-0.5 rounded bg-teal-50 text-teal-700 text-[10px] font-bold shrink-0">{BUNDLE_SECTIONS.find(s => s.key === item.section)?.label}</span>
+                                                          <span className="flex-1 truncate text-gray-700">{item.name}</span>
+                                                          <select
+                                                              className="border p-1 rounded text-xs"
+                                                              value={importResolutions[item.key] || ''}
+                                                              onChange={e => setImportResolutions(prev => ({ ...prev, [item.key]: e.target.value as ConflictResolution }))}
+                                                          >
+                                                              <option value="">默认</option>
+                                                              <option value="skip">跳过</option>
+                                                              <option value="overwrite">覆盖</option>
+                                                              {!isSettings && <option value="keepBoth">保留两者</option>}
+                                                          </select>
+                                                      </div>
+                                                  );
+                                              })}
+                                          </div>
+                                      </>
+                                  )}
+                                  <div className="flex justify-end gap-2">
+                                      <button onClick={() => setPendingImport(null)} className="px-4 py-2 text-sm rounded border border-gray-200 text-gray-600 hover:bg-gray-50">取消</button>
+                                      <button
+                                          onClick={handleConfirmImport}
+                                          disabled={isImporting}
+                                          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded text-sm hover:bg-teal-700 disabled:opacity-50"
+                                      >
+                                          {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} 确认导入
+                                      </button>
+                                  </div>
+                              </div>
+                          );
+                      })()}
+                  </div>
+              </div>
+          )}
+
+          {/* TEAM SYNC TAB */}
+          {activeTab === 'team' && (
+              <div className="max-w-3xl space-y-6">
+                  <div className="bg-violet-50 border border-violet-200 p-4 rounded-lg flex items-start gap-3">
+                      <Users className="w-5 h-5 text-violet-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-violet-800">Team Sync</h4>
+                          <p className="text-xs text-violet-700 mt-1">连接团队自建的同步服务器 (npm run sync-server)，在成员之间同步配置库、设计图库与脑暴会话。离线时的修改会排队，恢复连接后自动上传；同一条目被多人修改时以最后一次修改为准。预算、缓存与 AI 后端设置仅保存在本机。</p>
+                      </div>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 space-y-4">
+                      <label className="flex items-center justify-between gap-4">
+                          <span className="text-sm font-medium text-gray-700">启用团队同步</span>
+                          <input type="checkbox" checked={teamConfig.enabled} onChange={e => setTeamConfig({ ...teamConfig, enabled: e.target.checked })} className="w-4 h-4 accent-violet-600" />
+                      </label>
+                      <div className="space-y-1">
+                          <label className="text-sm font-medium text-gray-700">服务器地址</label>
+                          <input
+                              className="w-full border p-2 rounded text-sm font-mono"
+                              placeholder="http://localhost:8787"
+                              value={teamConfig.serverUrl}
+                              onChange={e => setTeamConfig({ ...teamConfig, serverUrl: e.target.value })}
+                          />
+                      </div>
+                      <div className="space-y-1">
+                          <label className="text-sm font-medium text-gray-700">访问令牌 (可选)</label>
+                          <input
+                              type="password"
+                              className="w-full border p-2 rounded text-sm font-mono"
+                              placeholder="与服务器 SYNC_TOKEN 一致"
+                              value={teamConfig.token || ''}
+                              onChange={e => setTeamConfig({ ...teamConfig, token: e.target.value })}
+                          />
+                      </div>
+                      <label className="flex items-center justify-between gap-4">
+                          <div>
+                              <span className="text-sm text-gray-700">同步设计图库</span>
+                              <p className="text-[10px] text-gray-400">包含生成图片，占用流量与服务器空间较多。</p>
+                          </div>
+                          <input type="checkbox" checked={teamConfig.syncDesigns} onChange={e => setTeamConfig({ ...teamConfig, syncDesigns: e.target.checked })} className="w-4 h-4 accent-violet-600" />
+                      </label>
+                      <label className="flex items-center justify-between gap-4">
+                          <span className="text-sm text-gray-700">同步脑暴会话</span>
+                          <input type="checkbox" checked={teamConfig.syncSessions} onChange={e => setTeamConfig({ ...teamConfig, syncSessions: e.target.checked })} className="w-4 h-4 accent-violet-600" />
+                      </label>
+                      <div className="flex justify-end gap-2">
+                          <button onClick={handleTestTeamServer} disabled={teamTesting} className="px-3 py-2 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50 flex items-center gap-1 disabled:opacity-40">
+                              {teamTesting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Activity className="w-3 h-3" />} 测试连接
+                          </button>
+                          <button onClick={handleSaveTeamConfig} disabled={!teamConfigDirty} className="px-3 py-2 text-xs rounded bg-violet-600 text-white hover:bg-violet-700 flex items-center gap-1 disabled:opacity-40">
+                              <Save className="w-3 h-3" /> 保存
+                          </button>
+                      </div>
+                  </div>
+
+                  <div className="bg-white p-5 rounded-lg border border-gray-200 flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                          <Cloud className={`w-5 h-5 ${teamStatus.state === 'error' ? 'text-rose-500' : teamStatus.state === 'offline' ? 'text-amber-500' : teamStatus.state === 'off' ? 'text-gray-300' : 'text-violet-500'}`} />
+                          <div>
+                              <div className="text-sm text-gray-700">
+                                  {{ off: '未启用', idle: '已连接', syncing: '正在同步...', offline: '离线', error: '同步出错' }[teamStatus.state]}
+                                  {teamStatus.pending > 0 && <span className="ml-2 text-xs text-gray-400">{teamStatus.pending} 项待上传</span>}
+                              </div>
+                              <p className="text-[10px] text-gray-400">
+                                  {teamStatus.message || (teamStatus.lastSyncedAt ? `上次同步 ${new Date(teamStatus.lastSyncedAt).toLocaleString()}` : '尚未同步')}
+                              </p>
+                          </div>
+                      </div>
+                      <button
+                          onClick={() => syncTeamNow()}
+                          disabled={!getTeamSyncConfig().enabled || teamStatus.state === 'syncing'}
+                          className="px-3 py-2 text-xs rounded border border-violet-200 text-violet-700 hover:bg-violet-50 flex items-center gap-1 disabled:opacity-40"
+                      >
+                          <RefreshCw className={`w-3 h-3 ${teamStatus.state === 'syncing' ? 'animate-spin' : ''}`} /> 立即同步
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {/* HISTORY TAB */}
+          {activeTab === 'history' && (
+              <div className="max-w-5xl space-y-6">
+                  <div className="bg-slate-50 border border-slate-200 p-4 rounded-lg flex items-start gap-3">
+                      <History className="w-5 h-5 text-slate-600 mt-0.5" />
+                      <div>
+                          <h4 className="text-sm font-bold text-slate-800">Library History</h4>
+                          <p className="text-xs text-slate-600 mt-1">每次保存都会自动记录快照 (短时间内对同一部分的连续修改合并为一条，最多保留 200 条)，也可手动创建命名检查点。选择一条快照可查看此后的改动，并回滚整个库或单个条目。</p>
+                      </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                      <input
+                          className="flex-1 border p-2 rounded text-sm"
+                          placeholder="检查点名称，例如：双十一上线前"
+                          value={checkpointName}
+                          onChange={e => setCheckpointName(e.target.value)}
+                          onKeyDown={e => { if (e.key === 'Enter') handleCreateCheckpoint(); }}
+                      />
+                      <button onClick={handleCreateCheckpoint} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded text-sm hover:bg-slate-800">
+                          <Bookmark className="w-4 h-4" /> 创建检查点
+                      </button>
+                  </div>
+
+                  <div className="grid grid-cols-5 gap-4">
+                      <div className="col-span-2 bg-white rounded-lg border border-gray-200 overflow-hidden">
+                          <div className="px-4 py-3 border-b border-gray-100 text-sm font-bold text-gray-700">快照 ({snapshots.length})</div>
+                          {snapshots.length === 0 ? (
+                              <div className="p-8 text-center text-xs text-gray-400">暂无快照</div>
+                          ) : (
+                              <div className="max-h-[32rem] overflow-y-auto divide-y divide-gray-50">
+                                  {snapshots.map(snapshot => (
+                                      <div
+                                          key={snapshot.id}
+                                          onClick={() => { setSelectedSnapshotId(snapshot.id); setExpandedChangeKey(null); }}
+                                          className={`px-4 py-2 cursor-pointer text-xs flex items-center gap-2 ${selectedSnapshotId === snapshot.id ? 'bg-slate-100' : 'hover:bg-gray-50'}`}
+                                      >
+                                          {snapshot.kind === 'manual' ? <Bookmark className="w-3 h-3 text-slate-700 shrink-0" /> : <span className="w-3 h-3 shrink-0" />}
+                                          <div className="flex-1 min-w-0">
+                                              <div className={`truncate ${snapshot.kind === 'manual' ? 'font-bold text-gray-800' : 'text-gray-700'}`}>{snapshotTitle(snapshot)}</div>
+                                              <div className="text-[10px] text-gray-400">{new Date(snapshot.createdAt).toLocaleString()}</div>
+                                          </div>
+                                          {snapshot.kind === 'manual' && (
+                                              <button onClick={e => { e.stopPropagation(); handleDeleteSnapshot(snapshot); }} className="p-1 text-gray-400 hover:text-red-500" title="删除检查点">
+                                                  <Trash2 className="w-3 h-3" />
+                                              </button>
+                                          )}
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                      </div>
+
+                      <div className="col-span-3 bg-white rounded-lg border border-gray-200 overflow-hidden">
+                          {!selectedSnapshot ? (
+                              <div className="p-8 text-center text-xs text-gray-400">选择左侧快照查看改动</div>
+                          ) : (
+                              <>
+                                  <div className="px-4 py-3 border-b border-gray-100 flex justify-between items-center">
+                                      <h4 className="text-sm font-bold text-gray-700">此后的改动 ({snapshotChanges.length})</h4>
+                                      <button
+                                          onClick={() => handleRestoreSnapshot(selectedSnapshot)}
+                                          disabled={snapshotChanges.length === 0}
+                                          className="flex items-center gap-1 px-3 py-1.5 text-xs rounded bg-slate-700 text-white hover:bg-slate-800 disabled:opacity-40"
+                                      >
+                                          <RotateCcw className="w-3 h-3" /> 回滚整个库
+                                      </button>
+                                  </div>
+                                  {snapshotChanges.length === 0 ? (
+                                      <div className="p-8 text-center text-xs text-gray-400">与当前配置一致</div>
+                                  ) : (
+                                      <div className="max-h-[32rem] overflow-y-auto divide-y divide-gray-50">
+                                          {snapshotChanges.map(change => {
+                                              const comparison = promptComparison(change);
+                                              return (
+                                                  <div key={change.key} className="px-4 py-2 text-xs">
+                                                      <div className="flex items-center gap-2">
+                                                          <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold shrink-0 ${change.change === 'added' ? 'bg-green-50 text-green-700' : change.change === 'removed' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'}`}>
+                                                              {change.change === 'added' ? '新增' : change.change === 'removed' ? '删除' : '修改'}
+                                                          </span>
+                                                          <span className="text-gray-400 shrink-0">{SNAPSHOT_SECTION_LABELS[change.section]}</span>
+                                                          <span
+                                                              className={`flex-1 truncate text-gray-700 ${comparison ? 'cursor-pointer hover:text-slate-900 underline decoration-dotted' : ''}`}
+                                                              onClick={() => comparison && setExpandedChangeKey(expandedChangeKey === change.key ? null : change.key)}
+                                                          >
+                                                              {change.name}
+                                                          </span>
+                                                          <button onClick={() => handleRestoreChange(change)} className="text-slate-600 hover:text-slate-900 flex items-center gap-1 shrink-0" title="将此项恢复为快照中的状态">
+                                                              <RotateCcw className="w-3 h-3" /> 恢复此项
+                                                          </button>
+                                                      </div>
+                                                      {comparison && expandedChangeKey === change.key && (
+                                                          <div className="grid grid-cols-2 gap-2 mt-2">
+                                                              <div>
+                                                                  <div className="text-[10px] text-gray-400 mb-1">快照</div>
+                                                                  <pre className="p-2 bg-red-50/50 border border-red-100 rounded whitespace-pre-wrap font-mono text-[10px] max-h-60 overflow-y-auto">{comparison.before}</pre>
+                                                              </div>
+                                                              <div>
+                                                                  <div className="text-[10px] text-gray-400 mb-1">当前</div>
+                                                                  <pre className="p-2 bg-green-50/50 border border-green-100 rounded whitespace-pre-wrap font-mono text-[10px] max-h-60 overflow-y-auto">{comparison.after}</pre>
+                                                              </div>
+                                                          </div>
+                                                      )}
+                                                  </div>
+                                              );
+                                          })}
+                                      </div>
+                                  )}
+                              </>
+                          )}
+                      </div>
+                  </div>
+              </div>
+          )}
+
           {/* DIAGNOSTIC TAB */}
           {activeTab === 'diagnostic' && (
               <div className="max-w-3xl space-y-6">
+                   <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                       <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2">
+                           <Activity className="w-5 h-5 text-indigo-600" /> AI 服务提供方 (Provider)
+                       </h3>
+                       <p className="text-sm text-gray-600 mb-4">
+                           离线模拟模式返回固定的联想词和占位手机壳图片，不消耗 API 额度，适合演示与本地开发。
+                       </p>
+                       <div className="grid grid-cols-2 gap-3">
+                           {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => {
+                               const isActive = (library.aiProvider || DEFAULT_PROVIDER_ID) === id;
+                               return (
+                                   <button
+                                       key={id}
+                                       onClick={() => setLibrary(prev => ({ ...prev, aiProvider: id }))}
+                                       className={`p-4 rounded-lg border text-left transition-all ${isActive ? 'border-indigo-500 ring-1 ring-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                                   >
+                                       <div className="flex items-center justify-between">
+                                           <span className="text-sm font-bold text-gray-800">{AI_PROVIDERS[id].label}</span>
+                                           {isActive && <Check className="w-4 h-4 text-indigo-600" />}
+                                       </div>
+                                       <p className="text-xs text-gray-500 mt-1">{AI_PROVIDERS[id].requiresApiKey ? '需要 API Key' : '无需网络与 API Key'}</p>
+                                   </button>
+                               );
+                           })}
+                       </div>
+                   </div>
+
+                   <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+                       <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                           <ShieldCheck className="w-5 h-5 text-indigo-600" /> Gemini 代理服务
+                       </h3>
+                       <p className="text-sm text-gray-600">
+                           API Key 仅保存在代理服务器 (npm run gemini-proxy) 上，浏览器不再接触 Key。代理按访问令牌统计每日用量并执行配额。
+                           未填写地址时使用构建时的 GEMINI_PROXY_URL{getProxyUrl() && !proxyConfig.url ? <> (<span className="font-mono">{getProxyUrl()}</span>)</> : null}；开发模式 (npm run dev) 下若两者都为空，则直接使用 .env.local 中的 Key。
+                       </p>
+                       <div className="grid grid-cols-2 gap-3">
+                           <div className="space-y-1">
+                               <label className="text-xs font-medium text-gray-500">代理地址</label>
+                               <input
+                                   className="w-full border p-2 rounded text-sm font-mono"
+                                   placeholder="http://localhost:8788"
+                                   value={proxyConfig.url}
+                                   onChange={e => setProxyConfig({ ...proxyConfig, url: e.target.value })}
+                               />
+                           </div>
+                           <div className="space-y-1">
+                               <label className="text-xs font-medium text-gray-500">访问令牌</label>
+                               <input
+                                   type="password"
+                                   className="w-full border p-2 rounded text-sm font-mono"
+                                   placeholder="由管理员分配"
+                                   value={proxyConfig.token || ''}
+                                   onChange={e => setProxyConfig({ ...proxyConfig, token: e.target.value })}
+                               />
+                           </div>
+                       </div>
+                       <div className="flex items-center justify-between gap-4">
+                           <span className="text-xs text-gray-500">
+                               {proxyUsage
+                                   ? `${proxyUsage.user} · 今日 ${proxyUsage.requests}${proxyUsage.limits.requests ? ` / ${proxyUsage.limits.requests}` : ''} 次请求，${proxyUsage.images}${proxyUsage.limits.images ? ` / ${proxyUsage.limits.images}` : ''} 张图片`
+                                   : getProxyUrl() ? '无法获取代理用量' : '未使用代理'}
+                           </span>
+                           <button
+                               onClick={handleSaveProxyConfig}
+                               disabled={JSON.stringify(proxyConfig) === JSON.stringify(getProxyConfig())}
+                               className="px-3 py-2 text-xs rounded bg-gray-900 text-white hover:bg-gray-800 flex items-center gap-1 disabled:opacity-40"
+                           >
+                               <Save className="w-3 h-3" /> 保存
+                           </button>
+                       </div>
+                   </div>
+
                    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
                        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
                            <ShieldCheck className="w-5 h-5 text-indigo-600" /> API 状态检查
@@ -0,0 +1,236 @@
+// Gemini API proxy for CaseCraft: keeps the API key on the server.
+// Zero dependencies. The browser app points the Gemini SDK at this server
+// (GEMINI_PROXY_URL or Settings → API 诊断) and sends its per-user token where
+// the SDK would send the API key; the proxy swaps in the real key.
+//
+//   GEMINI_API_KEY=... PORT=8788 PROXY_USERS_FILE=./proxy-users.json node server/gemini-proxy.mjs
+//
+// proxy-users.json:
+//   { "users": [{ "name": "alice", "token": "<random>", "dailyRequests": 500, "dailyImages": 100 }] }
+// Without a users file the proxy refuses to start; ALLOW_ANONYMOUS=1 lets every
+// caller in as "anonymous", limited by DAILY_REQUESTS / DAILY_IMAGES.
+// Only the calls the app makes are forwarded: generateContent and the model list.
+// Every forwarded call is appended to DATA_DIR/usage.jsonl; quotas reset at 00:00 UTC.
+
+import { createServer } from 'node:http';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+// The key usually lives in .env.local next to the app; real env vars take precedence
+const readEnvFile = async (path) => {
+    const text = await readFile(path, 'utf8').catch(() => '');
+    return Object.fromEntries(text.split('\n')
+        .map(line => line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/))
+        .filter(Boolean)
+        .map(([, key, value]) => [key, value.replace(/^(['"])(.*)\1$/, '$2')]));
+};
+const env = { ...await readEnvFile('.env.local'), ...process.env };
+
+const PORT = Number(env.PORT) || 8788;
+const API_KEY = env.GEMINI_API_KEY;
+const DATA_DIR = resolve(env.DATA_DIR || './proxy-data');
+const USERS_FILE = resolve(env.PROXY_USERS_FILE || './proxy-users.json');
+const ALLOW_ANONYMOUS = env.ALLOW_ANONYMOUS === '1';
+const ALLOWED_ORIGINS = (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const MAX_BODY_BYTES = 32 * 1024 * 1024; // Reference images are sent inline as base64
+const USAGE_LOG = join(DATA_DIR, 'usage.jsonl');
+
+if (!API_KEY) {
+    console.error('GEMINI_API_KEY is not set (environment or .env.local)');
+    process.exit(1);
+}
+
+// --- Users & quotas ---
+
+const limitOf = (value) => Number(value) > 0 ? Number(value) : undefined;
+
+const loadUsers = async () => {
+    const text = await readFile(USERS_FILE, 'utf8').catch(() => null);
+    if (text === null) {
+        if (!ALLOW_ANONYMOUS) {
+            console.error(`No users file at ${USERS_FILE}. Create one, or set ALLOW_ANONYMOUS=1 to accept requests without a token`);
+            process.exit(1);
+        }
+        console.warn(`No users file at ${USERS_FILE}: accepting anonymous requests (ALLOW_ANONYMOUS=1)`);
+        return null;
+    }
+    const users = new Map();
+    for (const user of JSON.parse(text).users || []) {
+        if (!user.name || !user.token) throw new Error(`Every user in ${USERS_FILE} needs a name and a token`);
+        users.set(user.token, { name: user.name, limits: { requests: limitOf(user.dailyRequests), images: limitOf(user.dailyImages) } });
+    }
+    return users;
+};
+
+const users = await loadUsers();
+const ANONYMOUS = { name: 'anonymous', limits: { requests: limitOf(env.DAILY_REQUESTS), images: limitOf(env.DAILY_IMAGES) } };
+
+const authenticate = (token) => users ? users.get(token) : ANONYMOUS;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// user name -> { day, requests, images }
+const counters = new Map();
+const counterFor = (name) => {
+    const day = today();
+    let counter = counters.get(name);
+    if (!counter || counter.day !== day) {
+        counter = { day, requests: 0, images: 0 };
+        counters.set(name, counter);
+    }
+    return counter;
+};
+
+// Rebuild today's counters from the log so a restart does not reset quotas
+const loadCounters = async () => {
+    await mkdir(DATA_DIR, { recursive: true });
+    const text = await readFile(USAGE_LOG, 'utf8').catch(() => '');
+    const day = today();
+    for (const line of text.split('\n')) {
+        if (!line.startsWith(`{"time":"${day}`)) continue;
+        const entry = JSON.parse(line);
+        const counter = counterFor(entry.user);
+        counter.requests += 1;
+        counter.images += entry.images || 0;
+    }
+};
+
+const logUsage = (entry) => appendFile(USAGE_LOG, JSON.stringify({ time: new Date().toISOString(), ...entry }) + '\n')
+    .catch(error => console.error('Usage log write failed:', error));
+
+// --- HTTP ---
+
+// Errors in the Gemini API's own shape, so the SDK surfaces the message and status as usual
+const sendError = (res, status, message, reason) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: status, message, status: reason } }));
+};
+
+const sendJSON = (res, body) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolvePromise, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(Object.assign(new Error('Request too large'), { status: 413 }));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolvePromise(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const setCors = (req, res) => {
+    const origin = req.headers.origin;
+    if (origin && ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) return false;
+    res.setHeader('Access-Control-Allow-Origin', origin || '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-goog-api-key, x-goog-api-client');
+    res.setHeader('Vary', 'Origin');
+    return true;
+};
+
+const countImages = (response) => (response?.candidates || [])
+    .flatMap(c => c.content?.parts || [])
+    .filter(p => p.inlineData?.data).length;
+
+const forward = async (res, url, init, onResult) => {
+    const upstream = await fetch(url, { ...init, headers: { ...init.headers, 'x-goog-api-key': API_KEY } });
+    const text = await upstream.text();
+    res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+    res.end(text);
+    let body = null;
+    try { body = JSON.parse(text); } catch { /* Non-JSON error page; logged by status only */ }
+    onResult?.(upstream.status, body);
+};
+
+const handleGenerate = async (req, res, user, model) => {
+    const counter = counterFor(user.name);
+    const body = await readBody(req);
+    const request = JSON.parse(body.toString('utf8'));
+    const wantsImage = Boolean(request.generationConfig?.imageConfig) || model.includes('image');
+
+    if (user.limits.requests && counter.requests >= user.limits.requests) {
+        return sendError(res, 429, `今日请求配额已用尽 (${user.limits.requests} 次)，请明天再试或联系管理员`, 'RESOURCE_EXHAUSTED');
+    }
+    // Images are reserved before forwarding so concurrent requests cannot overrun the quota together
+    const reserved = wantsImage ? Math.max(1, Number(request.generationConfig?.candidateCount) || 1) : 0;
+    if (reserved > 0 && user.limits.images && counter.images + reserved > user.limits.images) {
+        return sendError(res, 429, `今日图片生成配额已用尽 (${user.limits.images} 张)，请明天再试或联系管理员`, 'RESOURCE_EXHAUSTED');
+    }
+
+    counter.requests += 1;
+    counter.images += reserved;
+    const started = Date.now();
+    const record = (status, response) => {
+        const images = status === 200 ? countImages(response) : 0;
+        // Failed calls and short responses give back what they did not use
+        counter.images += images - reserved;
+        logUsage({
+            user: user.name,
+            model,
+            status,
+            images,
+            promptTokens: response?.usageMetadata?.promptTokenCount,
+            candidatesTokens: response?.usageMetadata?.candidatesTokenCount,
+            durationMs: Date.now() - started
+        });
+    };
+    try {
+        await forward(res, `${UPSTREAM}/v1beta/models/${model}:generateContent`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body
+        }, record);
+    } catch (error) {
+        // Upstream unreachable: still counted, so the log matches the in-memory quota
+        record(502, null);
+        throw error;
+    }
+};
+
+const handle = async (req, res) => {
+    if (!setCors(req, res)) return sendError(res, 403, 'Origin not allowed', 'PERMISSION_DENIED');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        return res.end();
+    }
+
+    const url = new URL(req.url, 'http://localhost');
+    if (url.pathname === '/api/health') return sendJSON(res, { ok: true, users: users ? users.size : 'anonymous' });
+
+    const user = authenticate(req.headers['x-goog-api-key']);
+    if (!user) return sendError(res, 401, '代理访问令牌无效，请在 设置 → API 诊断 中检查', 'UNAUTHENTICATED');
+
+    if (url.pathname === '/api/usage' && req.method === 'GET') {
+        const { day, requests, images } = counterFor(user.name);
+        return sendJSON(res, { user: user.name, day, requests, images, limits: user.limits });
+    }
+    if (url.pathname === '/v1beta/models' && req.method === 'GET') {
+        return forward(res, `${UPSTREAM}/v1beta/models`, { method: 'GET' });
+    }
+    const generate = url.pathname.match(/^\/v1beta\/models\/([\w.-]+):generateContent$/);
+    if (generate && req.method === 'POST') return handleGenerate(req, res, user, generate[1]);
+
+    sendError(res, 404, `Not proxied: ${req.method} ${url.pathname}`, 'NOT_FOUND');
+};
+
+await loadCounters();
+createServer((req, res) => {
+    handle(req, res).catch(error => {
+        console.error('Proxy request failed:', error);
+        if (res.headersSent) return res.destroy();
+        const status = error.status || (error instanceof SyntaxError ? 400 : 502);
+        sendError(res, status, error.message, status === 502 ? 'UNAVAILABLE' : 'INVALID_ARGUMENT');
+    });
+}).listen(PORT, () => {
+    console.log(`CaseCraft Gemini proxy on http://localhost:${PORT} (${users ? `${users.size} users` : 'anonymous access'}, log: ${USAGE_LOG})`);
+});
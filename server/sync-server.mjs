@@ -0,0 +1,191 @@
+// Reference team sync server for CaseCraft (Settings → 团队同步).
+// Zero dependencies; stores everything as files under DATA_DIR.
+//
+//   PORT=8787 DATA_DIR=./sync-data SYNC_TOKEN=secret node server/sync-server.mjs
+//
+// Records are last-write-wins per entity: a push is accepted when its version is
+// higher than the stored one (or equal and newer by updatedAt). Every accepted
+// write gets the next sequence number, which clients use as their pull cursor.
+// Images are stored once per SHA-256 under blobs/.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = resolve(process.env.DATA_DIR || './sync-data');
+const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+const TYPES = ['library', 'design', 'session'];
+
+const RECORDS_DIR = join(DATA_DIR, 'records');
+const BLOBS_DIR = join(DATA_DIR, 'blobs');
+
+// --- Storage ---
+
+// key -> record (with seq); kept in memory, persisted one file per record
+const records = new Map();
+let lastSeq = 0;
+
+const keyOf = (type, id) => `${type}:${id}`;
+const recordPath = (type, id) => join(RECORDS_DIR, type, `${encodeURIComponent(id)}.json`);
+
+// Write to a temp file first so a crash never leaves a half-written record
+const writeAtomic = async (path, data) => {
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, data);
+    await rename(tmp, path);
+};
+
+const loadRecords = async () => {
+    for (const type of TYPES) {
+        await mkdir(join(RECORDS_DIR, type), { recursive: true });
+        for (const file of await readdir(join(RECORDS_DIR, type))) {
+            if (!file.endsWith('.json')) continue;
+            const record = JSON.parse(await readFile(join(RECORDS_DIR, type, file), 'utf8'));
+            records.set(keyOf(record.type, record.id), record);
+            lastSeq = Math.max(lastSeq, record.seq);
+        }
+    }
+    await mkdir(BLOBS_DIR, { recursive: true });
+};
+
+const isValidRecord = (r) =>
+    r && TYPES.includes(r.type) && typeof r.id === 'string' && r.id.length > 0
+    && Number.isInteger(r.version) && r.version > 0 && typeof r.updatedAt === 'number';
+
+const wins = (incoming, stored) =>
+    !stored || incoming.version > stored.version
+    || (incoming.version === stored.version && incoming.updatedAt > stored.updatedAt);
+
+// Pushes are applied one at a time so sequence numbers stay ordered on disk
+let writeQueue = Promise.resolve();
+const pushRecords = (incoming) => {
+    const run = writeQueue.then(async () => {
+        const results = [];
+        for (const r of incoming) {
+            if (!isValidRecord(r)) {
+                results.push({ accepted: false, error: 'invalid record' });
+                continue;
+            }
+            const stored = records.get(keyOf(r.type, r.id));
+            if (!wins(r, stored)) {
+                results.push({ accepted: false, current: stored });
+                continue;
+            }
+            const record = {
+                type: r.type, id: r.id, version: r.version, updatedAt: r.updatedAt,
+                ...(r.deleted ? { deleted: true } : { data: r.data }),
+                ...(typeof r.order === 'number' ? { order: r.order } : {}),
+                seq: lastSeq + 1
+            };
+            await writeAtomic(recordPath(r.type, r.id), JSON.stringify(record));
+            lastSeq = record.seq;
+            records.set(keyOf(r.type, r.id), record);
+            results.push({ accepted: true });
+        }
+        return results;
+    });
+    writeQueue = run.catch(() => {});
+    return run;
+};
+
+const listChanges = (since, limit) => {
+    const changed = [...records.values()].filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+    const page = changed.slice(0, limit);
+    return {
+        records: page,
+        cursor: page.length > 0 ? page[page.length - 1].seq : Math.max(since, 0),
+        hasMore: changed.length > limit
+    };
+};
+
+// --- HTTP ---
+
+const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolvePromise, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(Object.assign(new Error('payload too large'), { status: 413 }));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolvePromise(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const setCors = (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Type');
+};
+
+const handleBlob = async (req, res, hash) => {
+    if (!/^[0-9a-f]{64}$/.test(hash)) return send(res, 400, { error: 'invalid hash' });
+    const path = join(BLOBS_DIR, hash);
+    const meta = `${path}.type`;
+
+    if (req.method === 'PUT') {
+        const body = await readBody(req);
+        if (createHash('sha256').update(body).digest('hex') !== hash) return send(res, 400, { error: 'hash mismatch' });
+        await writeAtomic(path, body);
+        await writeFile(meta, req.headers['content-type'] || 'application/octet-stream');
+        return send(res, 201, { ok: true });
+    }
+
+    const info = await stat(path).catch(() => null);
+    if (!info) return send(res, 404, req.method === 'HEAD' ? undefined : { error: 'not found' });
+    const type = await readFile(meta, 'utf8').catch(() => 'application/octet-stream');
+    res.writeHead(200, { 'Content-Type': type, 'Content-Length': info.size, 'Cache-Control': 'public, max-age=31536000, immutable' });
+    if (req.method === 'HEAD') return res.end();
+    createReadStream(path).pipe(res);
+};
+
+const handle = async (req, res) => {
+    setCors(req, res);
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const url = new URL(req.url, 'http://localhost');
+    if (SYNC_TOKEN && req.headers.authorization !== `Bearer ${SYNC_TOKEN}`) return send(res, 401, { error: 'unauthorized' });
+
+    if (url.pathname === '/api/health' && req.method === 'GET') {
+        return send(res, 200, { ok: true, records: records.size, cursor: lastSeq });
+    }
+    if (url.pathname === '/api/changes' && req.method === 'GET') {
+        const since = Number(url.searchParams.get('since')) || 0;
+        const limit = Math.min(1000, Math.max(1, Number(url.searchParams.get('limit')) || 200));
+        return send(res, 200, listChanges(since, limit));
+    }
+    if (url.pathname === '/api/push' && req.method === 'POST') {
+        const body = JSON.parse((await readBody(req)).toString('utf8'));
+        if (!Array.isArray(body.records)) return send(res, 400, { error: 'records must be an array' });
+        return send(res, 200, { results: await pushRecords(body.records) });
+    }
+    const blob = url.pathname.match(/^\/api\/blobs\/([^/]+)$/);
+    if (blob && ['GET', 'HEAD', 'PUT'].includes(req.method)) return handleBlob(req, res, blob[1]);
+
+    send(res, 404, { error: 'not found' });
+};
+
+await loadRecords();
+createServer((req, res) => {
+    handle(req, res).catch(error => {
+        console.error('Sync request failed:', error);
+        if (!res.headersSent) send(res, error.status || (error instanceof SyntaxError ? 400 : 500), { error: error.message });
+        else res.destroy();
+    });
+}).listen(PORT, () => {
+    console.log(`CaseCraft sync server on http://localhost:${PORT} (data: ${DATA_DIR}${SYNC_TOKEN ? ', token required' : ''})`);
+});
@@ -0,0 +1,75 @@
+import { AIErrorKind } from "../types";
+
+/**
+ * Typed error for every AI call. Providers throw it for conditions they can
+ * detect directly (safety blocks, unparsable JSON); anything else is
+ * classified from the raw SDK / fetch error by `toAIError`.
+ */
+export class AIError extends Error {
+    kind: AIErrorKind;
+    status?: number;
+    cause?: unknown;
+
+    constructor(kind: AIErrorKind, message: string, options: { status?: number, cause?: unknown } = {}) {
+        super(message);
+        this.name = 'AIError';
+        this.kind = kind;
+        this.status = options.status;
+        this.cause = options.cause;
+    }
+}
+
+// User-facing, actionable message per kind
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+    auth: 'API Key 无效或无权限，请在设置中检查 Key 及 Generative Language API 是否已启用',
+    quota: '请求过于频繁或配额已用尽 (429)，请降低并发或稍后再试',
+    region: '当前地区不支持该模型，请切换网络节点或在设置中更换模型',
+    safety: '安全过滤器拦截了该概念，请换个说法或调整提示词',
+    overloaded: '模型服务繁忙或暂时不可用，请稍后重试',
+    badRequest: '请求参数无效，请检查模型配置与参考图片',
+    parse: '模型返回的结果无法解析，请重试',
+    network: '网络连接失败，请检查网络或代理设置',
+    unknown: '未知错误，请查看控制台日志',
+};
+
+// Kinds that mean "this model is unusable right now" — worth trying the next model in the chain
+const FALLBACK_KINDS: AIErrorKind[] = ['auth', 'quota', 'region', 'overloaded'];
+// Kinds where repeating the same request can succeed
+const RETRYABLE_KINDS: AIErrorKind[] = ['quota', 'overloaded', 'network', 'parse', 'unknown'];
+
+export const isFallbackKind = (kind: AIErrorKind) => FALLBACK_KINDS.includes(kind);
+export const isRetryableKind = (kind: AIErrorKind) => RETRYABLE_KINDS.includes(kind);
+
+// SDK errors carry `status`; some only embed `"code": 429` in the message JSON
+const extractStatus = (error: any, message: string): number | undefined => {
+    if (typeof error?.status === 'number') return error.status;
+    if (typeof error?.code === 'number') return error.code;
+    const match = message.match(/"code"\s*:\s*(\d{3})/) || message.match(/\b(4\d\d|5\d\d)\b/);
+    return match ? parseInt(match[1]) : undefined;
+};
+
+const classify = (error: any, status: number | undefined, msg: string): AIErrorKind => {
+    if (error instanceof SyntaxError) return 'parse';
+    if (status === 401 || status === 403) return 'auth';
+    if (msg.includes('safety') || msg.includes('blocked') || msg.includes('prohibited')) return 'safety';
+    if (msg.includes('location') || msg.includes('region') || (status === 400 && msg.includes('precondition'))) return 'region';
+    if (msg.includes('api key') || msg.includes('permission') || msg.includes('unauthenticated')) return 'auth';
+    if (status === 429 || msg.includes('resource_exhausted') || msg.includes('quota')) return 'quota';
+    if ((status !== undefined && status >= 500) || msg.includes('overloaded') || msg.includes('unavailable') || msg.includes('rpc')) return 'overloaded';
+    if (status === 400 || msg.includes('invalid_argument')) return 'badRequest';
+    if (error instanceof TypeError || msg.includes('failed to fetch') || msg.includes('network')) return 'network';
+    return 'unknown';
+};
+
+export const toAIError = (error: unknown): AIError => {
+    if (error instanceof AIError) return error;
+    const message = (error as any)?.message || String(error);
+    const status = extractStatus(error, message);
+    return new AIError(classify(error, status, message.toLowerCase()), message, { status, cause: error });
+};
+
+// Unclassified errors keep their raw message, which is more useful than the generic hint
+export const describeAIError = (error: unknown): string => {
+    const aiError = toAIError(error);
+    return aiError.kind === 'unknown' ? aiError.message || AI_ERROR_MESSAGES.unknown : AI_ERROR_MESSAGES[aiError.kind];
+};
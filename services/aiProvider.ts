@@ -0,0 +1,90 @@
+import { AIProviderId, UsageMetadata } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export type AssociationDimension = 'up' | 'side' | 'down';
+
+// Structured 3-way association result (Up / Side / Down)
+export interface AssociationResponse {
+    up: string[];
+    side: string[];
+    down: string[];
+}
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // Base64
+}
+
+// A single multimodal part, mirrors the Gemini `Part` shape we actually use
+export type ContentPart = { text: string } | { inlineData: InlineImage };
+
+export interface AssociateRequest {
+    model: string;
+    prompt: string;
+    word: string; // Target word, used by offline providers to build canned results
+    exclude?: string[]; // Words the result must not repeat (already in the prompt for live models)
+    only?: AssociationDimension; // Fill just this dimension
+}
+
+export interface AnalyzeImageRequest {
+    model: string;
+    prompt: string;
+    image: InlineImage;
+}
+
+export interface RewritePromptsRequest {
+    model: string;
+    systemInstruction: string;
+    originalPrompt: string;
+    count: number;
+}
+
+export interface ImageGenerationRequest {
+    model: string;
+    parts: ContentPart[];
+    aspectRatio: string;
+    imageSize: string;
+    concept?: string; // Display label for placeholder renderers
+}
+
+export interface ImageGenerationResult {
+    image: InlineImage;
+    usage?: Partial<UsageMetadata>; // Raw counts reported by the backend, if any
+}
+
+// Text operations return the parsed value with the counts needed to bill the call
+export interface TextResult<T> {
+    value: T;
+    usage?: Partial<UsageMetadata>; // Raw counts reported by the backend, if any
+}
+
+/**
+ * A backend able to serve every AI operation the app needs.
+ * Prompt assembly stays in geminiService; providers only execute calls.
+ */
+export interface AIProvider {
+    id: AIProviderId;
+    label: string;
+    requiresApiKey: boolean;
+    associate(req: AssociateRequest): Promise<TextResult<AssociationResponse>>;
+    analyzeImage(req: AnalyzeImageRequest): Promise<TextResult<string>>;
+    rewritePrompts(req: RewritePromptsRequest): Promise<TextResult<string[]>>;
+    generateImage(req: ImageGenerationRequest): Promise<ImageGenerationResult | null>;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider
+};
+
+// Build-time default: `AI_PROVIDER=mock npm run dev` starts offline
+export const DEFAULT_PROVIDER_ID: AIProviderId = process.env.AI_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
+let activeProviderId: AIProviderId = DEFAULT_PROVIDER_ID;
+
+export const setActiveProvider = (id: AIProviderId | undefined) => {
+    activeProviderId = id && AI_PROVIDERS[id] ? id : DEFAULT_PROVIDER_ID;
+};
+
+export const getProvider = (): AIProvider => AI_PROVIDERS[activeProviderId];
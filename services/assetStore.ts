@@ -0,0 +1,108 @@
+import { Library } from "../types";
+import { deleteAssets, getAsset, listAssetIds, putAssetIfMissing } from "./db";
+import { LIBRARY_COLLECTIONS } from "./dbMigrations";
+import { assignSection } from "./librarySections";
+
+/**
+ * Library images live in the asset store keyed by content hash. Items keep an
+ * `assetId`; `previewUrl` is only a runtime object URL and is never persisted.
+ */
+
+type AssetBackedItem = { previewUrl?: string, assetId?: string };
+
+// Object URLs are shared across items pointing at the same asset
+const objectUrls = new Map<string, string>();
+
+const hashBytes = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const urlForBlob = (id: string, blob: Blob): string => {
+    let url = objectUrls.get(id);
+    if (!url) {
+        url = URL.createObjectURL(blob);
+        objectUrls.set(id, url);
+    }
+    return url;
+};
+
+/**
+ * Store an uploaded image (data URL) and return its asset id and display URL.
+ * Uploading the same bytes twice yields the same id and a single record.
+ */
+export const storeAsset = async (dataUrl: string): Promise<{ assetId: string, url: string }> =>
+    storeAssetBlob(await (await fetch(dataUrl)).blob());
+
+export const storeAssetBlob = async (blob: Blob): Promise<{ assetId: string, url: string }> => {
+    const assetId = await hashBytes(blob);
+    await putAssetIfMissing({ id: assetId, blob, size: blob.size, createdAt: Date.now() });
+    return { assetId, url: urlForBlob(assetId, blob) };
+};
+
+export const getAssetUrl = async (assetId: string): Promise<string | undefined> => {
+    const cached = objectUrls.get(assetId);
+    if (cached) return cached;
+    const asset = await getAsset(assetId);
+    return asset ? urlForBlob(assetId, asset.blob) : undefined;
+};
+
+const mapLibraryItems = async (library: Library, fn: (item: AssetBackedItem) => Promise<AssetBackedItem>): Promise<Library> => {
+    const next: Library = { ...library };
+    for (const collection of LIBRARY_COLLECTIONS) {
+        if (collection === 'devices') continue;
+        const items = library[collection] as AssetBackedItem[] | undefined;
+        if (items) assignSection(next, collection, await Promise.all(items.map(fn)) as Library[typeof collection]);
+    }
+    return next;
+};
+
+/**
+ * Prepare a loaded library for use: inline data URLs from older saves become
+ * assets, and every asset-backed item gets an object URL.
+ */
+export const hydrateLibraryAssets = (library: Library): Promise<Library> =>
+    mapLibraryItems(library, async item => {
+        if (item.previewUrl?.startsWith('data:')) {
+            const { assetId, url } = await storeAsset(item.previewUrl);
+            return { ...item, assetId, previewUrl: url };
+        }
+        if (item.assetId) return { ...item, previewUrl: await getAssetUrl(item.assetId) || '' };
+        return item;
+    });
+
+// Persisted form: asset-backed items drop their runtime object URL
+export const stripLibraryAssets = (library: Library): Library => {
+    const next: Library = { ...library };
+    for (const collection of LIBRARY_COLLECTIONS) {
+        if (collection === 'devices') continue;
+        const items = library[collection] as AssetBackedItem[] | undefined;
+        if (items) assignSection(next, collection, items.map(item => item.assetId ? { ...item, previewUrl: '' } : item) as Library[typeof collection]);
+    }
+    return next;
+};
+
+const referencedAssetIds = (library: Library): Set<string> => {
+    const ids = new Set<string>();
+    for (const collection of LIBRARY_COLLECTIONS) {
+        (library[collection] as AssetBackedItem[] | undefined)?.forEach(item => { if (item.assetId) ids.add(item.assetId); });
+    }
+    return ids;
+};
+
+// Another tab may have just uploaded an image its library save has not reached yet
+const PRUNE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Delete assets no library item points at (e.g. replaced or deleted uploads); `keep` adds ids referenced elsewhere
+export const pruneUnusedAssets = async (library: Library, keep: Set<string> = new Set()) => {
+    const used = referencedAssetIds(library);
+    keep.forEach(id => used.add(id));
+    const unused = (await listAssetIds(Date.now() - PRUNE_GRACE_MS)).filter(id => !used.has(id));
+    if (unused.length === 0) return;
+    unused.forEach(id => {
+        const url = objectUrls.get(id);
+        if (url) URL.revokeObjectURL(url);
+        objectUrls.delete(id);
+    });
+    await deleteAssets(unused);
+};
@@ -0,0 +1,38 @@
+import { MindMapNode } from "../types";
+
+/**
+ * Where a node sits in the brainstorm tree. "月球" under "中秋节" and under
+ * "太空探索" are different concepts; prompts get the chain of ancestors so the
+ * model can tell them apart.
+ */
+
+export type ContextStep = Pick<MindMapNode, 'text' | 'associationType'>;
+
+export const ASSOCIATION_LABELS: Record<NonNullable<MindMapNode['associationType']>, { zh: string, en: string }> = {
+    root: { zh: '主题', en: 'root' },
+    up: { zh: '上位联想', en: 'broader (up)' },
+    side: { zh: '同位联想', en: 'related (side)' },
+    down: { zh: '下位联想', en: 'specific (down)' },
+};
+
+/**
+ * Steps from the root (or the `depth`-th ancestor) down to `node`, inclusive.
+ * Stops at missing parents and at cycles, so a partly loaded map still yields a path.
+ */
+export const getContextPath = (node: MindMapNode, nodes: MindMapNode[], depth: number): ContextStep[] => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const path: ContextStep[] = [{ text: node.text, associationType: node.associationType }];
+    const seen = new Set([node.id]);
+    let parentId = node.parentId;
+    while (parentId && path.length <= depth && !seen.has(parentId)) {
+        const parent = byId.get(parentId);
+        if (!parent) break;
+        seen.add(parent.id);
+        path.unshift({ text: parent.text, associationType: parent.associationType });
+        parentId = parent.parentId;
+    }
+    return path;
+};
+
+// "中秋节 → 月亮 → 月球", the form used for the {{context}} template variable
+export const formatContextPath = (path: ContextStep[]) => path.map(step => step.text).join(' → ');
@@ -0,0 +1,237 @@
+import { BrainstormLayout, MindMapNode } from "../types";
+import { ASSOCIATION_LABELS } from "./brainstormContext";
+
+/**
+ * Deterministic alternatives to the force layout: the same map always gets the
+ * same picture, for presenting. These only compute target positions; the
+ * canvas animates nodes towards them. Pinned nodes stay where they were put,
+ * and in the tree layouts their branch moves along with them.
+ */
+
+export type TidyLayout = Exclude<BrainstormLayout, 'force'>;
+
+export type LayoutNode = Pick<MindMapNode, 'id' | 'level' | 'associationType' | 'isPinned'> & { x: number, y: number, radius: number };
+
+export interface LayoutLink {
+    source: string;
+    target: string;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export interface LayoutResult {
+    targets: Map<string, Point>;            // Unpinned nodes only
+    labels: (Point & { text: string })[];   // Group captions (clusters layout)
+}
+
+export const LAYOUT_OPTIONS: { layout: BrainstormLayout, label: string }[] = [
+    { layout: 'force', label: '自由 (力导向)' },
+    { layout: 'radial', label: '径向树' },
+    { layout: 'tree', label: '层级图 (左→右)' },
+    { layout: 'clusters', label: '按联想类型分组' },
+];
+
+const RING_GAP = 240;        // Radial: distance between depth rings
+const NODE_GAP = 24;         // Minimum clearance between neighbouring nodes
+const COLUMN_GAP = 320;      // Tree: distance between depth columns
+const ROW_GAP = 16;          // Tree: space between stacked leaves
+const ROOT_GAP = 120;        // Between separate trees (maps with several roots)
+const CLUSTER_GAP = 160;     // Clusters: space between groups
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// --- Tree structure ---
+
+interface Forest {
+    roots: LayoutNode[];
+    children: Map<string, LayoutNode[]>;
+}
+
+// Children in link order and roots in node order, so the result never depends on timing
+const buildForest = (nodes: LayoutNode[], links: LayoutLink[]): Forest => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const children = new Map<string, LayoutNode[]>();
+    const hasParent = new Set<string>();
+    links.forEach(l => {
+        const child = byId.get(l.target);
+        if (!child || !byId.has(l.source) || hasParent.has(child.id)) return;
+        hasParent.add(child.id);
+        children.set(l.source, [...(children.get(l.source) || []), child]);
+    });
+    return { roots: nodes.filter(n => !hasParent.has(n.id)), children };
+};
+
+// Pre-order walk with depth; `seen` guards against cycles in damaged data
+const walk = (forest: Forest, root: LayoutNode, visit: (node: LayoutNode, depth: number) => void, seen = new Set<string>()) => {
+    const step = (node: LayoutNode, depth: number) => {
+        if (seen.has(node.id)) return;
+        seen.add(node.id);
+        visit(node, depth);
+        (forest.children.get(node.id) || []).forEach(child => step(child, depth + 1));
+    };
+    step(root, 0);
+};
+
+// Leaves below each node (a leaf counts as one), used to share out space
+const countLeaves = (forest: Forest, root: LayoutNode) => {
+    const leaves = new Map<string, number>();
+    const count = (node: LayoutNode, seen: Set<string>): number => {
+        if (seen.has(node.id)) return 0;
+        seen.add(node.id);
+        const kids = forest.children.get(node.id) || [];
+        const total = kids.length === 0 ? 1 : Math.max(1, kids.reduce((sum, child) => sum + count(child, seen), 0));
+        leaves.set(node.id, total);
+        return total;
+    };
+    count(root, new Set());
+    return leaves;
+};
+
+// A pinned node drags its (unpinned) branch along: everything below shifts by its offset
+const followPinned = (forest: Forest, positions: Map<string, Point>) => {
+    const shift = (node: LayoutNode, offset: Point, seen: Set<string>) => {
+        if (seen.has(node.id)) return;
+        seen.add(node.id);
+        const computed = positions.get(node.id);
+        if (!computed) return;
+        const next = node.isPinned ? { x: node.x - computed.x, y: node.y - computed.y } : offset;
+        positions.set(node.id, { x: computed.x + next.x, y: computed.y + next.y });
+        (forest.children.get(node.id) || []).forEach(child => shift(child, next, seen));
+    };
+    const seen = new Set<string>();
+    forest.roots.forEach(root => shift(root, { x: 0, y: 0 }, seen));
+};
+
+// --- Layouts ---
+
+const radialLayout = (forest: Forest) => {
+    const positions = new Map<string, Point>();
+    let offsetX = 0;
+    forest.roots.forEach((root, i) => {
+        const leaves = countLeaves(forest, root);
+
+        // Each node gets a wedge proportional to its leaves; first child at the top, going clockwise
+        const wedges: { node: LayoutNode, depth: number, from: number, to: number }[] = [];
+        const share = (node: LayoutNode, depth: number, from: number, to: number, seen: Set<string>) => {
+            if (seen.has(node.id)) return;
+            seen.add(node.id);
+            wedges.push({ node, depth, from, to });
+            let start = from;
+            (forest.children.get(node.id) || []).forEach(child => {
+                const span = (to - from) * (leaves.get(child.id) || 1) / (leaves.get(node.id) || 1);
+                share(child, depth + 1, start, start + span, seen);
+                start += span;
+            });
+        };
+        share(root, 0, -Math.PI / 2, Math.PI * 1.5, new Set());
+
+        // Rings far enough apart that every node fits the chord of its wedge
+        const ring = wedges.reduce((max, { node, depth, from, to }) => depth === 0 ? max
+            : Math.max(max, (node.radius * 2 + NODE_GAP) / (2 * depth * Math.sin(Math.min(to - from, Math.PI) / 2))), RING_GAP);
+        const maxDepth = wedges.reduce((max, w) => Math.max(max, w.depth), 0);
+        const extent = ring * maxDepth + root.radius;
+        const centerX = i === 0 ? 0 : offsetX + extent;
+        offsetX = centerX + extent + ROOT_GAP;
+
+        wedges.forEach(({ node, depth, from, to }) => {
+            const angle = (from + to) / 2;
+            positions.set(node.id, { x: centerX + Math.cos(angle) * ring * depth, y: Math.sin(angle) * ring * depth });
+        });
+    });
+    return positions;
+};
+
+const treeLayout = (forest: Forest) => {
+    const positions = new Map<string, Point>();
+    let cursorY = 0;
+    const place = (node: LayoutNode, depth: number, seen: Set<string>): number => {
+        if (seen.has(node.id)) return cursorY;
+        seen.add(node.id);
+        const kids = (forest.children.get(node.id) || []).filter(child => !seen.has(child.id));
+        let y: number;
+        if (kids.length === 0) {
+            y = cursorY + node.radius;
+            cursorY += node.radius * 2 + ROW_GAP;
+        } else {
+            const ys = kids.map(child => place(child, depth + 1, seen));
+            y = (ys[0] + ys[ys.length - 1]) / 2;
+        }
+        positions.set(node.id, { x: depth * COLUMN_GAP, y });
+        return y;
+    };
+    const seen = new Set<string>();
+    forest.roots.forEach((root, i) => {
+        if (i > 0) cursorY += ROOT_GAP;
+        place(root, 0, seen);
+    });
+
+    // Centre on the origin, where the view starts
+    let maxX = 0;
+    positions.forEach(p => { maxX = Math.max(maxX, p.x); });
+    const shiftY = cursorY / 2;
+    positions.forEach((p, id) => positions.set(id, { x: p.x - maxX / 2, y: p.y - shiftY }));
+    return positions;
+};
+
+type ClusterKey = 'root' | 'up' | 'side' | 'down';
+
+const clusterLayout = (forest: Forest) => {
+    const positions = new Map<string, Point>();
+    const groups: Record<ClusterKey, LayoutNode[]> = { root: [], up: [], side: [], down: [] };
+    // Tree order inside each group keeps related words near each other
+    const seen = new Set<string>();
+    forest.roots.forEach(root => walk(forest, root, (node, depth) => {
+        const key: ClusterKey = depth === 0 ? 'root' : node.associationType === 'root' ? 'down' : node.associationType || 'down';
+        groups[key].push(node);
+    }, seen));
+
+    // Sunflower packing: even density, no randomness
+    const spacingOf = (group: LayoutNode[]) => {
+        const meanRadius = group.reduce((sum, n) => sum + n.radius, 0) / Math.max(1, group.length);
+        const maxRadius = Math.max(0, ...group.map(n => n.radius));
+        return (meanRadius + maxRadius + NODE_GAP) / 1.4;
+    };
+    const extentOf = (group: LayoutNode[]) => group.length === 0 ? 0 : spacingOf(group) * Math.sqrt(group.length) + Math.max(...group.map(n => n.radius));
+    const pack = (group: LayoutNode[], center: Point) => {
+        const spacing = spacingOf(group);
+        group.forEach((node, i) => {
+            const r = group.length === 1 ? 0 : spacing * Math.sqrt(i + 0.5);
+            positions.set(node.id, { x: center.x + Math.cos(i * GOLDEN_ANGLE) * r, y: center.y + Math.sin(i * GOLDEN_ANGLE) * r });
+        });
+    };
+
+    // Broader words above the topic, more specific below, related ones beside it
+    const rootExtent = extentOf(groups.root);
+    const centers: Record<ClusterKey, Point> = {
+        root: { x: 0, y: 0 },
+        up: { x: 0, y: -(rootExtent + extentOf(groups.up) + CLUSTER_GAP) },
+        side: { x: rootExtent + extentOf(groups.side) + CLUSTER_GAP, y: 0 },
+        down: { x: 0, y: rootExtent + extentOf(groups.down) + CLUSTER_GAP },
+    };
+    const labels: LayoutResult['labels'] = [];
+    (Object.keys(groups) as ClusterKey[]).forEach(key => {
+        if (groups[key].length === 0) return;
+        pack(groups[key], centers[key]);
+        if (key !== 'root') labels.push({ text: ASSOCIATION_LABELS[key].zh, x: centers[key].x, y: centers[key].y - extentOf(groups[key]) - 30 });
+    });
+    return { positions, labels };
+};
+
+export const computeLayout = (layout: TidyLayout, nodes: LayoutNode[], links: LayoutLink[]): LayoutResult => {
+    const forest = buildForest(nodes, links);
+    let positions: Map<string, Point>;
+    let labels: LayoutResult['labels'] = [];
+    if (layout === 'radial') {
+        positions = radialLayout(forest);
+        followPinned(forest, positions);
+    } else if (layout === 'tree') {
+        positions = treeLayout(forest);
+        followPinned(forest, positions);
+    } else {
+        ({ positions, labels } = clusterLayout(forest));
+    }
+    nodes.forEach(n => { if (n.isPinned) positions.delete(n.id); });
+    return { targets: positions, labels };
+};
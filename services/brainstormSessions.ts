@@ -0,0 +1,91 @@
+import { BrainstormSession } from "../types";
+import {
+    deleteBrainstormSession, getBrainstormSession, listBrainstormSessions, loadActiveSessionIdFromDB,
+    putBrainstormSession, putBrainstormSessionIfCurrent, saveActiveSessionIdToDB
+} from "./db";
+import { broadcastChange } from "./tabSync";
+
+/**
+ * Named brainstorm maps. The canvas edits one active session at a time and
+ * autosaves it; the switcher creates, renames, duplicates and deletes them.
+ */
+
+export const DEFAULT_SESSION_NAME = '未命名脑暴';
+
+export const createEmptySession = (name: string = DEFAULT_SESSION_NAME): BrainstormSession => ({
+    id: `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    nodes: [],
+    links: [],
+    viewport: { x: 0, y: 0, k: 1 },
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+});
+
+// Most recently edited first
+export const listSessions = async (): Promise<BrainstormSession[]> =>
+    (await listBrainstormSessions()).sort((a, b) => b.updatedAt - a.updatedAt);
+
+/**
+ * Save edits made on top of `session.revision`. If another tab saved a newer
+ * revision meanwhile, nothing is written and that copy comes back as `conflict`.
+ */
+export const saveSession = async (session: BrainstormSession): Promise<{ saved?: BrainstormSession, conflict?: BrainstormSession }> => {
+    const result = await putBrainstormSessionIfCurrent(session, session.revision || 0);
+    if (result.saved) broadcastChange({ type: 'session', id: session.id, revision: result.saved.revision || 0 });
+    return result;
+};
+
+const putNewSession = async (session: BrainstormSession) => {
+    await putBrainstormSession(session);
+    broadcastChange({ type: 'session', id: session.id, revision: session.revision || 0 });
+};
+
+export const startSession = async (session: BrainstormSession) => {
+    await putNewSession(session);
+    await saveActiveSessionIdToDB(session.id);
+};
+
+/**
+ * Session to open on startup: the last active one, else the most recent,
+ * else a fresh empty session.
+ */
+export const openInitialSession = async (): Promise<BrainstormSession> => {
+    const activeId = await loadActiveSessionIdFromDB();
+    const active = activeId ? await getBrainstormSession(activeId) : null;
+    if (active) return active;
+    const [latest] = await listSessions();
+    if (latest) return latest;
+    const session = createEmptySession();
+    await startSession(session);
+    return session;
+};
+
+export const openSession = async (id: string): Promise<BrainstormSession | null> => {
+    const session = await getBrainstormSession(id);
+    if (session) await saveActiveSessionIdToDB(id);
+    return session;
+};
+
+export const renameSession = async (id: string, name: string) => {
+    const session = await getBrainstormSession(id);
+    if (session) await saveSession({ ...session, name, updatedAt: Date.now() });
+};
+
+export const duplicateSession = async (id: string): Promise<BrainstormSession | null> => {
+    const source = await getBrainstormSession(id);
+    if (!source) return null;
+    const copy: BrainstormSession = {
+        ...createEmptySession(`${source.name} (副本)`),
+        nodes: source.nodes.map(n => ({ ...n })),
+        links: source.links.map(l => ({ ...l })),
+        viewport: { ...source.viewport }
+    };
+    await putNewSession(copy);
+    return copy;
+};
+
+export const removeSession = async (id: string) => {
+    await deleteBrainstormSession(id);
+    broadcastChange({ type: 'session', id, revision: 0, deleted: true });
+};
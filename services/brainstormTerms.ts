@@ -0,0 +1,35 @@
+import { AssociationDimension, AssociationResponse } from "./aiProvider";
+import { toSimplified } from "./chineseVariants";
+
+/**
+ * Duplicate detection for brainstorm words. Two terms are the same when they
+ * differ only in case, width, whitespace, punctuation or traditional vs
+ * simplified characters ("Moon Rabbit" / "moonrabbit", "龍" / "龙").
+ */
+
+export const ASSOCIATION_DIMENSIONS: AssociationDimension[] = ['up', 'side', 'down'];
+
+export const normalizeTerm = (text: string): string =>
+    toSimplified(text.normalize('NFKC')).toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+
+/**
+ * Drop words already in `existing` and repeats within the result itself
+ * (the first dimension a word appears in keeps it).
+ */
+export const dedupeAssociations = (result: AssociationResponse, existing: Iterable<string>): { result: AssociationResponse, dropped: number } => {
+    const seen = new Set(Array.from(existing, normalizeTerm));
+    let dropped = 0;
+    const filtered = {} as AssociationResponse;
+    for (const dimension of ASSOCIATION_DIMENSIONS) {
+        filtered[dimension] = (result[dimension] || []).filter(text => {
+            const key = normalizeTerm(text);
+            if (!key || seen.has(key)) {
+                dropped++;
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+    }
+    return { result: filtered, dropped };
+};
@@ -0,0 +1,161 @@
+import { CostInfo, ModelOperation, PricingTable, SpendBudget, SpendRecord } from "../types";
+import { appendSpendLog, loadSpendLogs, pruneLogsBefore } from "./db";
+import { formatMoney } from "./pricing";
+
+/**
+ * Spend ledger shared by every generation call.
+ * Session totals count from page load; daily / weekly windows use local calendar days (weeks start Monday).
+ */
+
+const LEDGER_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const SESSION_STARTED_AT = Date.now();
+
+let ledger: SpendRecord[] = [];
+let ledgerLoad: Promise<void> | null = null;
+// Estimates of approved calls that have not settled yet. Checks count them as spent,
+// so runs started side by side cannot each pass against the same remaining budget.
+let pendingUSD = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(fn => fn());
+
+const prune = (records: SpendRecord[]) => {
+    const cutoff = Date.now() - LEDGER_RETENTION_MS;
+    return records.filter(r => r.timestamp >= cutoff);
+};
+
+export const initSpendLedger = (): Promise<void> => {
+    if (!ledgerLoad) {
+        ledgerLoad = loadSpendLogs().then(saved => {
+            // Keep anything recorded while the load was in flight (it may or may not be in `saved`)
+            const recordKey = (r: SpendRecord) => `${r.timestamp}|${r.operation}|${r.model}|${r.totalUSD}`;
+            const loaded = new Set(saved.map(recordKey));
+            ledger = prune([...saved, ...ledger.filter(r => !loaded.has(recordKey(r)))]);
+            pruneLogsBefore(Date.now() - LEDGER_RETENTION_MS);
+            notify();
+        });
+    }
+    return ledgerLoad;
+};
+
+export const subscribeSpend = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const recordSpend = (cost: CostInfo, model: string, operation: ModelOperation) => {
+    const record: SpendRecord = { timestamp: Date.now(), operation, model, totalUSD: cost.totalUSD };
+    ledger = prune([...ledger, record]);
+    appendSpendLog(record);
+    notify();
+};
+
+/**
+ * Hold `estimateUSD` against every budget window until the returned release is
+ * called (once the call has been recorded, has failed or was cancelled).
+ */
+export const reserveSpend = (estimateUSD: number): (() => void) => {
+    pendingUSD += estimateUSD;
+    notify();
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        pendingUSD = Math.max(0, pendingUSD - estimateUSD);
+        notify();
+    };
+};
+
+export const getPendingSpendUSD = () => pendingUSD;
+
+const startOfDay = (ts: number) => {
+    const d = new Date(ts);
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+};
+
+const startOfWeek = (ts: number) => {
+    const d = new Date(startOfDay(ts));
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7)); // Monday
+    return d.getTime();
+};
+
+export interface SpendSummary {
+    sessionUSD: number;
+    dailyUSD: number;
+    weeklyUSD: number;
+}
+
+export const getSpendSummary = (now: number = Date.now()): SpendSummary => {
+    const day = startOfDay(now);
+    const week = startOfWeek(now);
+    return ledger.reduce((acc, r) => {
+        if (r.timestamp >= SESSION_STARTED_AT) acc.sessionUSD += r.totalUSD;
+        if (r.timestamp >= day) acc.dailyUSD += r.totalUSD;
+        if (r.timestamp >= week) acc.weeklyUSD += r.totalUSD;
+        return acc;
+    }, { sessionUSD: 0, dailyUSD: 0, weeklyUSD: 0 });
+};
+
+// Budgets are kept in USD or in the pricing table's currency; there is no rate for any other
+export const isBudgetCurrency = (currency: string, pricing: PricingTable) =>
+    currency === 'USD' || currency === pricing.currency;
+
+export const convertFromUSD = (usd: number, currency: string, pricing: PricingTable): number =>
+    currency === pricing.currency ? usd * pricing.exchangeRate : usd;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A budget kept in the pricing currency moves with it when that currency
+ * changes, limits converted at the two tables' rates.
+ */
+export const moveBudgetCurrency = (budget: SpendBudget, previous: PricingTable, next: PricingTable): SpendBudget => {
+    if (budget.currency === 'USD' || budget.currency !== previous.currency || next.currency === previous.currency) return budget;
+    const scale = next.exchangeRate / previous.exchangeRate;
+    return {
+        ...budget,
+        currency: next.currency,
+        session: roundMoney(budget.session * scale),
+        daily: roundMoney(budget.daily * scale),
+        weekly: roundMoney(budget.weekly * scale)
+    };
+};
+
+export interface BudgetCheck {
+    status: 'ok' | 'warn' | 'block';
+    messages: string[];
+}
+
+const BUDGET_WINDOWS: { key: 'session' | 'daily' | 'weekly', summaryKey: keyof SpendSummary, label: string }[] = [
+    { key: 'session', summaryKey: 'sessionUSD', label: '本次会话' },
+    { key: 'daily', summaryKey: 'dailyUSD', label: '今日' },
+    { key: 'weekly', summaryKey: 'weeklyUSD', label: '本周' },
+];
+
+/**
+ * Compare a pre-flight estimate against every configured limit.
+ * Spend still reserved by queued or running calls counts as already spent.
+ */
+export const checkBudget = (estimateUSD: number, budget: SpendBudget, pricing: PricingTable): BudgetCheck => {
+    if (!isBudgetCurrency(budget.currency, pricing)) {
+        return { status: budget.mode, messages: [`预算币种 ${budget.currency} 与价格表币种 ${pricing.currency} 不一致，无法换算，请在设置 → 预算控制中重新选择`] };
+    }
+    const summary = getSpendSummary();
+    const estimate = convertFromUSD(estimateUSD, budget.currency, pricing);
+    const pending = pendingUSD > 0 ? `，进行中的任务已预留 ${formatMoney(convertFromUSD(pendingUSD, budget.currency, pricing), budget.currency)}` : '';
+    const messages: string[] = [];
+
+    for (const window of BUDGET_WINDOWS) {
+        const limit = budget[window.key];
+        if (!limit || limit <= 0) continue;
+        const spent = convertFromUSD(summary[window.summaryKey] + pendingUSD, budget.currency, pricing);
+        if (spent + estimate > limit) {
+            const remaining = Math.max(0, limit - spent);
+            messages.push(`${window.label}预算剩余 ${formatMoney(remaining, budget.currency)}，本次预计 ${formatMoney(estimate, budget.currency)}（上限 ${formatMoney(limit, budget.currency)}${pending}）`);
+        }
+    }
+
+    if (messages.length === 0) return { status: 'ok', messages };
+    return { status: budget.mode, messages };
+};
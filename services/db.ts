@@ -1,50 +1,844 @@
+import { BrainstormSession, CacheEntryMeta, GeminiProxyConfig, Library, LibrarySnapshot, SpendRecord, StoredAsset, StoredDesign, SyncEntityType, SyncOutboxEntry, TeamSyncConfig } from '../types';
+import { librarySections } from './librarySections';
+import { reportSaveError } from './storageErrors';
+import { COLLECTIONS_SETTING_KEY, DB_VERSION, LIBRARY_COLLECTIONS, REVISIONS_SETTING_KEY, STORES, assembleLibrary, runMigrations, writeLibraryRecords } from './dbMigrations';
 
 const DB_NAME = 'CaseCraftDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'libraryStore';
-const KEY = 'userLibrary';
+const STORE_NAME = STORES.keyValue;
+const CACHE_META_STORE = STORES.cacheMeta;
+const CACHE_DATA_STORE = STORES.cacheData;
+const DESIGN_STORE = STORES.designs;
+const SESSION_STORE = STORES.sessions;
+const SNAPSHOT_STORE = STORES.snapshots;
+const ACTIVE_SESSION_KEY = 'activeBrainstormSession';
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema; step aside instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
+      runMigrations(request.result, request.transaction!, event.oldVersion);
     };
   });
 };
 
-export const saveLibraryToDB = async (data: any) => {
+const putValue = async (key: string, data: any) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.put(data, key);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getValue = async (key: string): Promise<any> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Local Write Observer ---
+
+// Entities written by this device, reported after their transaction commits (used by team sync)
+export interface LocalWrite {
+  type: SyncEntityType;
+  id: string;
+  deleted?: boolean;
+}
+
+let writeObserver: ((writes: LocalWrite[]) => void) | null = null;
+
+export const observeLocalWrites = (observer: ((writes: LocalWrite[]) => void) | null) => {
+  writeObserver = observer;
+};
+
+const reportWrites = (writes: LocalWrite[]) => {
+  if (writes.length > 0) writeObserver?.(writes);
+};
+
+// --- Library ---
+
+// Revision per library section, as last seen by this tab
+export type LibraryRevisions = Partial<Record<keyof Library, number>>;
+
+export interface StoredLibrary {
+  library: Partial<Library>;
+  revisions: LibraryRevisions;
+}
+
+export interface LibrarySaveResult {
+  written: LibraryRevisions; // Sections written, with their new revisions
+  conflicts: (keyof Library)[]; // Sections another tab wrote since `base`; left untouched
+}
+
+
+/**
+ * Persist the library. With `changed`, only those sections are rewritten
+ * (a prompt edit no longer touches every material record).
+ * A section is only written if its stored revision still matches `base`,
+ * so a stale tab cannot overwrite another tab's newer save.
+ */
+export const saveLibraryToDB = async (data: Library, changed: Set<keyof Library> | undefined, base: LibraryRevisions): Promise<LibrarySaveResult> => {
   try {
     const db = await initDB();
-    return new Promise<void>((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(data, KEY);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+    return await new Promise<LibrarySaveResult>((resolve, reject) => {
+      const transaction = db.transaction([STORES.libraryEntities, STORES.librarySettings], 'readwrite');
+      const settings = transaction.objectStore(STORES.librarySettings);
+      const result: LibrarySaveResult = { written: {}, conflicts: [] };
+      const writes: LocalWrite[] = [];
+
+      const revisionsRequest = settings.get(REVISIONS_SETTING_KEY);
+      revisionsRequest.onsuccess = () => {
+        const stored: LibraryRevisions = revisionsRequest.result || {};
+        const allowed = new Set<keyof Library>();
+        for (const section of changed || librarySections(data)) {
+          if ((stored[section] || 0) > (base[section] || 0)) {
+            result.conflicts.push(section);
+          } else {
+            allowed.add(section);
+            result.written[section] = (stored[section] || 0) + 1;
+          }
+        }
+        const entities = transaction.objectStore(STORES.libraryEntities);
+        // Read the old records first (requests run in order) to report item-level changes
+        allowed.forEach(section => {
+          const items = (data as any)[section];
+          if (!(LIBRARY_COLLECTIONS as readonly string[]).includes(section)) {
+            const previousRequest = settings.get(section);
+            previousRequest.onsuccess = () => {
+              if (JSON.stringify(previousRequest.result) !== JSON.stringify(items)) writes.push({ type: 'library', id: `settings/${section}`, deleted: items === undefined });
+            };
+            return;
+          }
+          if (!Array.isArray(items)) return;
+          const previousRequest = entities.index('collection').getAll(section);
+          previousRequest.onsuccess = () => {
+            const previous = new Map((previousRequest.result as { id: string, order: number, value: any }[]).map(r => [r.id, r]));
+            items.forEach((item: any, order: number) => {
+              const old = previous.get(String(item.id));
+              if (!old || old.order !== order || JSON.stringify(old.value) !== JSON.stringify(item)) writes.push({ type: 'library', id: `${section}/${item.id}` });
+              previous.delete(String(item.id));
+            });
+            previous.forEach((_, id) => writes.push({ type: 'library', id: `${section}/${id}`, deleted: true }));
+          };
+        });
+        writeLibraryRecords(entities, settings, data, allowed);
+        settings.put({ ...stored, ...result.written }, REVISIONS_SETTING_KEY);
+      };
+      transaction.oncomplete = () => {
+        reportWrites(writes);
+        resolve(result);
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
     });
   } catch (e) {
-    console.error("IndexedDB Save Error:", e);
+    reportSaveError(e);
+    return { written: {}, conflicts: [] };
   }
 };
 
-export const loadLibraryFromDB = async (): Promise<any> => {
+/**
+ * Reassemble the saved library, already brought to the current shape by the
+ * migrations. Returns null when nothing is saved.
+ */
+export const loadLibraryFromDB = async (): Promise<StoredLibrary | null> => {
   try {
     const db = await initDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(KEY);
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.libraryEntities, STORES.librarySettings], 'readonly');
+      const entitiesRequest = transaction.objectStore(STORES.libraryEntities).getAll();
+      const settingsStore = transaction.objectStore(STORES.librarySettings);
+      const keysRequest = settingsStore.getAllKeys();
+      const valuesRequest = settingsStore.getAll();
+      transaction.oncomplete = () => {
+        const keys = keysRequest.result as string[];
+        if (keys.length === 0) return resolve(null);
+
+        const library = assembleLibrary(keys, valuesRequest.result, entitiesRequest.result);
+        const revisions: LibraryRevisions = library[REVISIONS_SETTING_KEY] || {};
+        delete library[COLLECTIONS_SETTING_KEY];
+        delete library[REVISIONS_SETTING_KEY];
+        resolve({ library: library as Partial<Library>, revisions });
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+// --- Assets ---
+
+const runAssetTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORES.assets], mode);
+    const request = work(transaction.objectStore(STORES.assets));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Content-addressed: an existing record with the same id is left untouched
+export const putAssetIfMissing = async (asset: StoredAsset) => {
+  try {
+    await runAssetTransaction<void>('readwrite', store => {
+      const request = store.getKey(asset.id);
+      request.onsuccess = () => {
+        if (request.result === undefined) store.put(asset);
+      };
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const getAsset = async (id: string): Promise<StoredAsset | null> => {
+  try {
+    return await runAssetTransaction<StoredAsset | undefined>('readonly', store => store.get(id)) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+// With `createdBefore`, only assets stored before that time
+export const listAssetIds = async (createdBefore?: number): Promise<string[]> => {
+  try {
+    return await runAssetTransaction<string[]>('readonly', store => (createdBefore === undefined
+      ? store.getAllKeys()
+      : store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(createdBefore, true))) as IDBRequest<string[]>) || [];
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+export const deleteAssets = async (ids: string[]) => {
+  try {
+    await runAssetTransaction<void>('readwrite', store => { ids.forEach(id => store.delete(id)); });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// --- Logs ---
+
+type LogType = 'spend';
+
+const runLogTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORES.logs], mode);
+    const request = work(transaction.objectStore(STORES.logs));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const appendSpendLog = async (record: SpendRecord) => {
+  try {
+    await runLogTransaction<void>('readwrite', store => { store.add({ ...record, type: 'spend' as LogType }); });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const loadSpendLogs = async (): Promise<SpendRecord[]> => {
+  try {
+    const rows = await runLogTransaction<any[]>('readonly', store => store.index('type').getAll('spend')) || [];
+    return rows.map(({ seq, type, ...record }) => record as SpendRecord);
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+// Drop log entries (of every type) older than `timestamp`
+export const pruneLogsBefore = async (timestamp: number) => {
+  try {
+    await runLogTransaction<void>('readwrite', store => {
+      const request = store.index('timestamp').openCursor(IDBKeyRange.upperBound(timestamp, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// --- Response Cache ---
+
+const runCacheTransaction = async <T>(mode: IDBTransactionMode, work: (meta: IDBObjectStore, data: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CACHE_META_STORE, CACHE_DATA_STORE], mode);
+    const request = work(transaction.objectStore(CACHE_META_STORE), transaction.objectStore(CACHE_DATA_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getCachedResponse = async (key: string): Promise<{ meta: CacheEntryMeta, value: any } | null> => {
+  try {
+    let metaRequest: IDBRequest | undefined;
+    const value = await runCacheTransaction<any>('readonly', (meta, data) => {
+      metaRequest = meta.get(key);
+      return data.get(key);
     });
+    const meta = metaRequest?.result as CacheEntryMeta | undefined;
+    return meta && value !== undefined ? { meta, value } : null;
   } catch (e) {
     console.error("IndexedDB Load Error:", e);
     return null;
   }
 };
+
+export const putCachedResponse = async (meta: CacheEntryMeta, value?: any) => {
+  try {
+    await runCacheTransaction<void>('readwrite', (metaStore, data) => {
+      metaStore.put(meta);
+      if (value !== undefined) data.put(value, meta.key);
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const listCachedResponses = async (): Promise<CacheEntryMeta[]> => {
+  try {
+    return await runCacheTransaction<CacheEntryMeta[]>('readonly', meta => meta.getAll()) || [];
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+export const deleteCachedResponses = async (keys: string[]) => {
+  try {
+    await runCacheTransaction<void>('readwrite', (meta, data) => {
+      keys.forEach(key => {
+        meta.delete(key);
+        data.delete(key);
+      });
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const clearCachedResponses = async () => {
+  try {
+    await runCacheTransaction<void>('readwrite', (meta, data) => {
+      meta.clear();
+      data.clear();
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// --- Design Gallery ---
+
+const runDesignTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DESIGN_STORE], mode);
+    const request = work(transaction.objectStore(DESIGN_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const putDesigns = async (designs: StoredDesign[]) => {
+  try {
+    await runDesignTransaction<void>('readwrite', store => {
+      designs.forEach(design => store.put(design));
+    });
+    reportWrites(designs.map(d => ({ type: 'design', id: d.id })));
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const getDesign = async (id: string): Promise<StoredDesign | null> => {
+  try {
+    return await runDesignTransaction<StoredDesign | undefined>('readonly', store => store.get(id)) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+// Newest first; skips `offset` records with a cursor so only one page is read
+export const listDesignPage = async (offset: number, limit: number): Promise<StoredDesign[]> => {
+  try {
+    const page: StoredDesign[] = [];
+    await runDesignTransaction<void>('readonly', store => {
+      const request = store.index('timestamp').openCursor(null, 'prev');
+      let skipped = offset === 0;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        page.push(cursor.value);
+        if (page.length < limit) cursor.continue();
+      };
+    });
+    return page;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+export const countDesigns = async (): Promise<number> => {
+  try {
+    return await runDesignTransaction<number>('readonly', store => store.count()) || 0;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return 0;
+  }
+};
+
+export const deleteDesign = async (id: string) => {
+  try {
+    await runDesignTransaction<void>('readwrite', store => { store.delete(id); });
+    reportWrites([{ type: 'design', id, deleted: true }]);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const listDesignIds = async (): Promise<string[]> => {
+  try {
+    return await runDesignTransaction<string[]>('readonly', store => store.getAllKeys() as IDBRequest<string[]>) || [];
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+// Delete unstarred designs saved before `timestamp`; returns how many were removed
+export const deleteUnstarredDesignsBefore = async (timestamp: number): Promise<number> => {
+  try {
+    const removed: string[] = [];
+    await runDesignTransaction<void>('readwrite', store => {
+      const request = store.index('timestamp').openCursor(IDBKeyRange.upperBound(timestamp, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (!(cursor.value as StoredDesign).starred) {
+          cursor.delete();
+          removed.push((cursor.value as StoredDesign).id);
+        }
+        cursor.continue();
+      };
+    });
+    reportWrites(removed.map(id => ({ type: 'design', id, deleted: true })));
+    return removed.length;
+  } catch (e) {
+    reportSaveError(e);
+    return 0;
+  }
+};
+
+// --- Brainstorm Sessions ---
+
+const runSessionTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE], mode);
+    const request = work(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const putBrainstormSession = async (session: BrainstormSession) => {
+  try {
+    await runSessionTransaction<void>('readwrite', store => { store.put(session); });
+    reportWrites([{ type: 'session', id: session.id }]);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+/**
+ * Save only if the stored copy is still at `baseRevision`. Returns the saved
+ * session, or `conflict` holding the newer stored copy.
+ */
+export const putBrainstormSessionIfCurrent = async (session: BrainstormSession, baseRevision: number): Promise<{ saved?: BrainstormSession, conflict?: BrainstormSession }> => {
+  try {
+    const result: { saved?: BrainstormSession, conflict?: BrainstormSession } = {};
+    await runSessionTransaction<void>('readwrite', store => {
+      const request = store.get(session.id);
+      request.onsuccess = () => {
+        const stored = request.result as BrainstormSession | undefined;
+        if (stored && (stored.revision || 0) > baseRevision) {
+          result.conflict = stored;
+          return;
+        }
+        result.saved = { ...session, revision: (stored?.revision || 0) + 1 };
+        store.put(result.saved);
+      };
+    });
+    if (result.saved) reportWrites([{ type: 'session', id: session.id }]);
+    return result;
+  } catch (e) {
+    reportSaveError(e);
+    return {};
+  }
+};
+
+export const getBrainstormSession = async (id: string): Promise<BrainstormSession | null> => {
+  try {
+    return await runSessionTransaction<BrainstormSession | undefined>('readonly', store => store.get(id)) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+export const listBrainstormSessions = async (): Promise<BrainstormSession[]> => {
+  try {
+    return await runSessionTransaction<BrainstormSession[]>('readonly', store => store.getAll()) || [];
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+export const deleteBrainstormSession = async (id: string) => {
+  try {
+    await runSessionTransaction<void>('readwrite', store => { store.delete(id); });
+    reportWrites([{ type: 'session', id, deleted: true }]);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const saveActiveSessionIdToDB = async (id: string) => {
+  try {
+    return await putValue(ACTIVE_SESSION_KEY, id);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const loadActiveSessionIdFromDB = async (): Promise<string | null> => {
+  try {
+    return await getValue(ACTIVE_SESSION_KEY) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+// --- Library Snapshots ---
+
+const runSnapshotTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOT_STORE], mode);
+    const request = work(transaction.objectStore(SNAPSHOT_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const putLibrarySnapshot = async (snapshot: LibrarySnapshot) => {
+  try {
+    await runSnapshotTransaction<void>('readwrite', store => { store.put(snapshot); });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// Oldest first, via the createdAt index
+export const listLibrarySnapshots = async (): Promise<LibrarySnapshot[]> => {
+  try {
+    return await runSnapshotTransaction<LibrarySnapshot[]>('readonly', store => store.index('createdAt').getAll()) || [];
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+export const deleteLibrarySnapshots = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  try {
+    await runSnapshotTransaction<void>('readwrite', store => { ids.forEach(id => store.delete(id)); });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// --- Storage Usage ---
+
+// Record count and approximate size of one store, walked with a cursor
+export const measureStore = async (storeName: string, sizeOf: (value: any) => number): Promise<{ count: number, bytes: number }> => {
+  try {
+    const db = await initDB();
+    return await new Promise((resolve, reject) => {
+      const totals = { count: 0, bytes: 0 };
+      const transaction = db.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        totals.count++;
+        totals.bytes += sizeOf(cursor.value);
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve(totals);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return { count: 0, bytes: 0 };
+  }
+};
+
+// --- Gemini Proxy ---
+
+const PROXY_CONFIG_KEY = 'geminiProxyConfig';
+
+export const saveProxyConfigToDB = async (config: GeminiProxyConfig) => {
+  try {
+    await putValue(PROXY_CONFIG_KEY, config);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const loadProxyConfigFromDB = async (): Promise<GeminiProxyConfig | null> => {
+  try {
+    return await getValue(PROXY_CONFIG_KEY) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+// --- Team Sync ---
+// Remote writes below bypass the local write observer, so pulled changes are not pushed back.
+
+const SYNC_CONFIG_KEY = 'teamSyncConfig';
+const SYNC_STATE_KEY = 'teamSyncState';
+
+export const saveSyncConfigToDB = async (config: TeamSyncConfig) => {
+  try {
+    await putValue(SYNC_CONFIG_KEY, config);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const loadSyncConfigFromDB = async (): Promise<TeamSyncConfig | null> => {
+  try {
+    return await getValue(SYNC_CONFIG_KEY) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+export const saveSyncStateToDB = async <T>(state: T) => {
+  try {
+    await putValue(SYNC_STATE_KEY, state);
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const loadSyncStateFromDB = async <T>(): Promise<T | null> => {
+  try {
+    return await getValue(SYNC_STATE_KEY) || null;
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+const runOutboxTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORES.syncOutbox], mode);
+    const request = work(transaction.objectStore(STORES.syncOutbox));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const queueOutbox = async (entries: SyncOutboxEntry[]) => {
+  try {
+    await runOutboxTransaction<void>('readwrite', store => { entries.forEach(entry => store.put(entry)); });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+export const listOutbox = async (): Promise<SyncOutboxEntry[]> => {
+  try {
+    return await runOutboxTransaction<SyncOutboxEntry[]>('readonly', store => store.getAll()) || [];
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return [];
+  }
+};
+
+// Remove pushed entries, unless the entity changed again while the push was in flight
+export const removeOutbox = async (entries: SyncOutboxEntry[]) => {
+  try {
+    await runOutboxTransaction<void>('readwrite', store => {
+      entries.forEach(entry => {
+        const request = store.get(entry.key);
+        request.onsuccess = () => {
+          if ((request.result as SyncOutboxEntry | undefined)?.queuedAt === entry.queuedAt) store.delete(entry.key);
+        };
+      });
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// Current value of one library entity (`materials/m1`) or settings section (`settings/prompts`)
+export const getLibraryEntity = async (id: string): Promise<{ value: any, order?: number } | null> => {
+  const [collection, itemId] = id.split(/\/(.*)/s);
+  try {
+    const db = await initDB();
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.libraryEntities, STORES.librarySettings], 'readonly');
+      const request = collection === 'settings'
+        ? transaction.objectStore(STORES.librarySettings).get(itemId)
+        : transaction.objectStore(STORES.libraryEntities).get([collection, itemId]);
+      transaction.oncomplete = () => {
+        const record = request.result;
+        if (record === undefined) return resolve(null);
+        resolve(collection === 'settings' ? { value: record } : { value: record.value, order: record.order });
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (e) {
+    console.error("IndexedDB Load Error:", e);
+    return null;
+  }
+};
+
+export interface RemoteLibraryChange {
+  id: string;       // `materials/m1` or `settings/prompts`
+  value?: any;      // Absent when deleted
+  order?: number;
+}
+
+/**
+ * Apply pulled library changes and bump the touched sections' revisions,
+ * so open tabs merge them like an edit from another tab. Returns the sections touched.
+ */
+export const applyRemoteLibraryChanges = async (changes: RemoteLibraryChange[]): Promise<(keyof Library)[]> => {
+  if (changes.length === 0) return [];
+  try {
+    const db = await initDB();
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.libraryEntities, STORES.librarySettings], 'readwrite');
+      const entities = transaction.objectStore(STORES.libraryEntities);
+      const settings = transaction.objectStore(STORES.librarySettings);
+      const sections = new Set<keyof Library>();
+
+      changes.forEach(change => {
+        const [collection, itemId] = change.id.split(/\/(.*)/s);
+        if (collection === 'settings') {
+          sections.add(itemId as keyof Library);
+          if (change.value === undefined) settings.delete(itemId);
+          else settings.put(change.value, itemId);
+        } else if ((LIBRARY_COLLECTIONS as readonly string[]).includes(collection)) {
+          sections.add(collection as keyof Library);
+          if (change.value === undefined) entities.delete([collection, itemId]);
+          else entities.put({ collection, id: itemId, order: change.order ?? Number.MAX_SAFE_INTEGER, value: change.value });
+        }
+      });
+
+      const metaRequest = settings.get(REVISIONS_SETTING_KEY);
+      const collectionsRequest = settings.get(COLLECTIONS_SETTING_KEY);
+      collectionsRequest.onsuccess = () => {
+        const written: string[] = collectionsRequest.result || [];
+        const added = [...sections].filter(s => (LIBRARY_COLLECTIONS as readonly string[]).includes(s) && !written.includes(s));
+        if (added.length > 0) settings.put([...written, ...added], COLLECTIONS_SETTING_KEY);
+      };
+      metaRequest.onsuccess = () => {
+        const revisions: LibraryRevisions = { ...metaRequest.result };
+        sections.forEach(section => { revisions[section] = (revisions[section] || 0) + 1; });
+        settings.put(revisions, REVISIONS_SETTING_KEY);
+      };
+      transaction.oncomplete = () => resolve([...sections]);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } catch (e) {
+    reportSaveError(e);
+    return [];
+  }
+};
+
+export const applyRemoteDesign = async (id: string, design: StoredDesign | null) => {
+  try {
+    await runDesignTransaction<void>('readwrite', store => {
+      if (design) store.put(design);
+      else store.delete(id);
+    });
+  } catch (e) {
+    reportSaveError(e);
+  }
+};
+
+// Pulled sessions get the next local revision, so an open canvas treats them like another tab's save
+export const applyRemoteSession = async (id: string, session: BrainstormSession | null): Promise<number> => {
+  try {
+    let revision = 0;
+    await runSessionTransaction<void>('readwrite', store => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        revision = ((request.result as BrainstormSession | undefined)?.revision || 0) + 1;
+        if (session) store.put({ ...session, revision });
+        else store.delete(id);
+      };
+    });
+    return revision;
+  } catch (e) {
+    reportSaveError(e);
+    return 0;
+  }
+};
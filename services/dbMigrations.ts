@@ -0,0 +1,242 @@
+/**
+ * IndexedDB schema history. Each step upgrades the database from the previous
+ * version and runs inside the `versionchange` transaction, so a failed step
+ * aborts the whole upgrade and leaves the old data untouched.
+ *
+ * Never edit a released step; append a new one instead. That includes library
+ * sections: a step with `upgradeLibrary` writes the new section's default into
+ * libraries saved before it existed, so loading never has to patch old data.
+ */
+
+import { linkMaterialsToDevices } from "./devices";
+import { DEFAULT_BRAINSTORM_SETTINGS, DEFAULT_BUDGET, DEFAULT_CACHE_SETTINGS, DEFAULT_DEVICES, DEFAULT_LIBRARY, DEFAULT_MODEL_REGISTRY, DEFAULT_PRICING, DEFAULT_PROMPTS } from "./libraryDefaults";
+
+export const STORES = {
+    keyValue: 'libraryStore',           // Small singletons (active session id, pre-v5 library blob)
+    cacheMeta: 'responseCacheMeta',
+    cacheData: 'responseCacheData',
+    designs: 'designs',
+    sessions: 'brainstormSessions',
+    libraryEntities: 'libraryEntities', // One record per material / process / style / ...
+    librarySettings: 'librarySettings', // One record per settings section (prompts, pricing, ...)
+    assets: 'assets',
+    logs: 'logs',
+    snapshots: 'librarySnapshots',
+    syncOutbox: 'syncOutbox',
+} as const;
+
+// Library arrays stored as individual entity records
+export const LIBRARY_COLLECTIONS = ['devices', 'materials', 'processes', 'styles', 'mainDiamondColors', 'secondaryDiamondColors'] as const;
+export type LibraryCollection = typeof LIBRARY_COLLECTIONS[number];
+
+// Settings key listing which collections have been written (absent collections fall back to defaults)
+export const COLLECTIONS_SETTING_KEY = '__collections';
+
+// Settings key holding a revision counter per library section, bumped on every write (see saveLibraryToDB)
+export const REVISIONS_SETTING_KEY = '__revisions';
+
+// Pre-v5 keys in the key-value store
+const LEGACY_LIBRARY_KEY = 'userLibrary';
+const LEGACY_SPEND_LEDGER_KEY = 'spendLedger';
+
+// One record in the entity store
+export interface LibraryEntityRecord {
+    collection: LibraryCollection;
+    id: string;
+    order: number;
+    value: any;
+}
+
+export interface Migration {
+    version: number;
+    description: string;
+    upgrade?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+    // Brings a saved library (never a fresh one) up to this version, in place
+    upgradeLibrary?: (library: Record<string, any>) => void;
+}
+
+// Saved keys win; keys the saved section lacks come from the defaults
+const withDefaults = <T extends object>(defaults: T, saved: unknown): T => ({ ...defaults, ...(saved as Partial<T>) });
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Library blob and spend ledger in a key-value store',
+        upgrade: db => {
+            db.createObjectStore(STORES.keyValue);
+        }
+    },
+    {
+        version: 2,
+        description: 'Response cache, index and payload kept apart so listing stays cheap',
+        upgrade: db => {
+            db.createObjectStore(STORES.cacheMeta, { keyPath: 'key' });
+            db.createObjectStore(STORES.cacheData);
+        }
+    },
+    {
+        version: 3,
+        description: 'Studio gallery, newest first via the timestamp index',
+        upgrade: db => {
+            const designs = db.createObjectStore(STORES.designs, { keyPath: 'id' });
+            designs.createIndex('timestamp', 'timestamp');
+        }
+    },
+    {
+        version: 4,
+        description: 'Named brainstorm sessions',
+        upgrade: db => {
+            db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        }
+    },
+    {
+        version: 5,
+        description: 'Split the library blob into entity / settings stores, move the spend ledger into logs',
+        upgrade: (db, transaction) => {
+            const entities = db.createObjectStore(STORES.libraryEntities, { keyPath: ['collection', 'id'] });
+            entities.createIndex('collection', 'collection');
+            db.createObjectStore(STORES.librarySettings);
+            db.createObjectStore(STORES.assets, { keyPath: 'id' });
+            const logs = db.createObjectStore(STORES.logs, { keyPath: 'seq', autoIncrement: true });
+            logs.createIndex('type', 'type');
+            logs.createIndex('timestamp', 'timestamp');
+
+            const keyValue = transaction.objectStore(STORES.keyValue);
+
+            const libraryRequest = keyValue.get(LEGACY_LIBRARY_KEY);
+            libraryRequest.onsuccess = () => {
+                const saved = libraryRequest.result;
+                if (!saved || typeof saved !== 'object') return;
+                writeLibraryRecords(entities, transaction.objectStore(STORES.librarySettings), saved);
+                keyValue.delete(LEGACY_LIBRARY_KEY);
+            };
+
+            const ledgerRequest = keyValue.get(LEGACY_SPEND_LEDGER_KEY);
+            ledgerRequest.onsuccess = () => {
+                const ledger = ledgerRequest.result;
+                if (Array.isArray(ledger)) ledger.forEach(record => logs.add({ ...record, type: 'spend' }));
+                keyValue.delete(LEGACY_SPEND_LEDGER_KEY);
+            };
+        },
+        // Sections added since the first release, which older app versions patched in at load time
+        upgradeLibrary: library => {
+            for (const collection of ['materials', 'processes', 'styles', 'mainDiamondColors', 'secondaryDiamondColors'] as const) {
+                if (!library[collection]) library[collection] = DEFAULT_LIBRARY[collection];
+            }
+            library.prompts = withDefaults(DEFAULT_PROMPTS, library.prompts);
+            library.models = withDefaults(DEFAULT_MODEL_REGISTRY, library.models);
+            if (!library.pricing) library.pricing = DEFAULT_PRICING;
+            library.budget = withDefaults(DEFAULT_BUDGET, library.budget);
+            library.cache = withDefaults(DEFAULT_CACHE_SETTINGS, library.cache);
+            // Free-text material models are linked to catalog devices
+            if (!library.devices) library.devices = DEFAULT_DEVICES;
+            library.materials = linkMaterialsToDevices(library.materials, library.devices);
+        }
+    },
+    {
+        version: 6,
+        description: 'Library snapshots for history and rollback',
+        upgrade: db => {
+            const snapshots = db.createObjectStore(STORES.snapshots, { keyPath: 'id' });
+            snapshots.createIndex('createdAt', 'createdAt');
+        }
+    },
+    {
+        version: 7,
+        description: 'Index assets by creation time, so pruning can spare fresh uploads from other tabs',
+        upgrade: (_db, transaction) => {
+            transaction.objectStore(STORES.assets).createIndex('createdAt', 'createdAt');
+        }
+    },
+    {
+        version: 8,
+        description: 'Outbox of local changes for team sync',
+        upgrade: db => {
+            db.createObjectStore(STORES.syncOutbox, { keyPath: 'key' });
+        }
+    },
+    {
+        version: 9,
+        description: 'Brainstorm settings section in the library',
+        upgradeLibrary: library => {
+            library.brainstorm = withDefaults(DEFAULT_BRAINSTORM_SETTINGS, library.brainstorm);
+        }
+    },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Write a Library-shaped object into the entity and settings stores.
+ * Shared by the v5 migration and regular saves; `changed` limits the write to those sections.
+ */
+export const writeLibraryRecords = (entities: IDBObjectStore, settings: IDBObjectStore, library: Record<string, any>, changed?: Set<string>) => {
+    const written: LibraryCollection[] = [];
+    for (const collection of LIBRARY_COLLECTIONS) {
+        const items = library[collection];
+        if (!Array.isArray(items)) continue;
+        written.push(collection);
+        if (changed && !changed.has(collection)) continue;
+        entities.delete(IDBKeyRange.bound([collection], [collection, []]));
+        items.forEach((item, order) => {
+            if (item && item.id !== undefined) entities.put({ collection, id: String(item.id), order, value: item });
+        });
+    }
+    for (const [key, value] of Object.entries(library)) {
+        if ((LIBRARY_COLLECTIONS as readonly string[]).includes(key)) continue;
+        if (changed && !changed.has(key)) continue;
+        if (value === undefined) settings.delete(key);
+        else settings.put(value, key);
+    }
+    settings.put(written, COLLECTIONS_SETTING_KEY);
+};
+
+/**
+ * Reassemble a Library-shaped object from the settings and entity stores,
+ * bookkeeping keys included. Collections never written are left out.
+ */
+export const assembleLibrary = (keys: IDBValidKey[], values: any[], records: LibraryEntityRecord[]): Record<string, any> => {
+    const library: Record<string, any> = {};
+    keys.forEach((key, i) => { library[String(key)] = values[i]; });
+    const collections: LibraryCollection[] = library[COLLECTIONS_SETTING_KEY] || [];
+    const sorted = [...records].sort((a, b) => a.order - b.order);
+    collections.forEach(collection => {
+        library[collection] = sorted.filter(r => r.collection === collection).map(r => r.value);
+    });
+    return library;
+};
+
+// Requests run in the order they are made. Schema steps may still write from their own
+// callbacks (v5 moves the legacy blob), so the library is read from a later callback.
+const upgradeSavedLibrary = (transaction: IDBTransaction, steps: Migration[]) => {
+    const entities = transaction.objectStore(STORES.libraryEntities);
+    const settings = transaction.objectStore(STORES.librarySettings);
+    settings.count().onsuccess = () => {
+        const keysRequest = settings.getAllKeys();
+        const valuesRequest = settings.getAll();
+        const recordsRequest = entities.getAll();
+        recordsRequest.onsuccess = () => {
+            const saved = assembleLibrary(keysRequest.result, valuesRequest.result, recordsRequest.result);
+            // Nothing saved yet: a fresh install starts from the current defaults
+            if (!saved[COLLECTIONS_SETTING_KEY]) return;
+            delete saved[COLLECTIONS_SETTING_KEY];
+            delete saved[REVISIONS_SETTING_KEY];
+
+            const library = { ...saved };
+            steps.forEach(step => step.upgradeLibrary!(library));
+            const changed = new Set(Object.keys(library).filter(key => library[key] !== saved[key]));
+            if (changed.size > 0) writeLibraryRecords(entities, settings, library, changed);
+        };
+    };
+};
+
+/** `newVersion` is only passed by tests that recreate an older schema. */
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion = DB_VERSION) => {
+    const pending = MIGRATIONS.filter(m => m.version > oldVersion && m.version <= newVersion);
+    for (const migration of pending) {
+        console.log(`[CaseCraft] DB migration v${migration.version}: ${migration.description}`);
+        migration.upgrade?.(db, transaction);
+    }
+    const libraryUpgrades = pending.filter(m => m.upgradeLibrary);
+    if (libraryUpgrades.length > 0) upgradeSavedLibrary(transaction, libraryUpgrades);
+};
@@ -0,0 +1,181 @@
+import { GeneratedDesign, StoredDesign } from "../types";
+import { countDesigns, deleteDesign, deleteUnstarredDesignsBefore, getDesign, listDesignIds, listDesignPage, putDesigns } from "./db";
+import { broadcastChange, subscribeTabSync } from "./tabSync";
+
+/**
+ * Studio gallery persistence.
+ * Images are stored as Blobs and shown through object URLs; gallery pages carry
+ * no reference images (call `hydrateDesign` before reading them).
+ */
+
+export const GALLERY_PAGE_SIZE = 24;
+
+const dataUrlToBlob = async (url: string): Promise<Blob> => {
+    const match = url.match(/^data:(.+?);base64,(.+)$/);
+    if (!match) return (await fetch(url)).blob();
+    return base64ToBlob(match[2], match[1]);
+};
+
+const base64ToBlob = (data: string, mimeType: string): Blob =>
+    new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: mimeType });
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+const toStoredDesign = async (design: GeneratedDesign): Promise<StoredDesign> => {
+    const { imageUrl, generationMetadata: meta, ...rest } = design;
+    return {
+        ...rest,
+        image: await dataUrlToBlob(imageUrl),
+        generationMetadata: meta && {
+            ...meta,
+            referenceImages: meta.referenceImages.map(img => ({ label: img.label, image: base64ToBlob(img.data, img.mimeType) }))
+        }
+    };
+};
+
+// Lightweight gallery entry: object URL image, reference images left out
+const toGalleryDesign = (record: StoredDesign): GeneratedDesign => {
+    const { image, generationMetadata: meta, ...rest } = record;
+    return {
+        ...rest,
+        imageUrl: URL.createObjectURL(image),
+        generationMetadata: meta && { ...meta, referenceImages: [] }
+    };
+};
+
+/**
+ * Persist freshly generated designs and return their gallery entries.
+ */
+export const saveDesigns = async (designs: GeneratedDesign[]): Promise<GeneratedDesign[]> => {
+    const records = await Promise.all(designs.map(toStoredDesign));
+    await putDesigns(records);
+    broadcastChange({ type: 'designs' });
+    return records.map(toGalleryDesign);
+};
+
+export const loadDesignPage = async (page: number, pageSize = GALLERY_PAGE_SIZE): Promise<{ designs: GeneratedDesign[], total: number }> => {
+    const [records, total] = await Promise.all([listDesignPage(page * pageSize, pageSize), countDesigns()]);
+    return { designs: records.map(toGalleryDesign), total };
+};
+
+/**
+ * Load a gallery entry's reference images back as base64 (needed for preview and variants).
+ * Designs that were never persisted are returned unchanged.
+ */
+export const hydrateDesign = async (design: GeneratedDesign): Promise<GeneratedDesign> => {
+    const record = await getDesign(design.id);
+    if (!record?.generationMetadata || !design.generationMetadata) return design;
+    const referenceImages = await Promise.all(record.generationMetadata.referenceImages.map(async img => ({
+        label: img.label,
+        mimeType: img.image.type,
+        data: await blobToBase64(img.image)
+    })));
+    return { ...design, generationMetadata: { ...design.generationMetadata, referenceImages } };
+};
+
+// Free the object URL of a gallery entry that is no longer displayed
+export const releaseDesign = (design: GeneratedDesign) => {
+    if (design.imageUrl.startsWith('blob:')) URL.revokeObjectURL(design.imageUrl);
+};
+
+export const removeDesign = async (design: GeneratedDesign) => {
+    await deleteDesign(design.id);
+    broadcastChange({ type: 'designs' });
+    releaseDesign(design);
+};
+
+export const setDesignStarred = async (design: GeneratedDesign, starred: boolean) => {
+    const record = await getDesign(design.id);
+    if (!record) return;
+    await putDesigns([{ ...record, starred }]);
+    broadcastChange({ type: 'designs' });
+};
+
+// Cleanup runs outside the gallery (Settings); tell open galleries in this tab and others to reload
+const listeners = new Set<() => void>();
+
+export const subscribeGallery = (listener: () => void) => {
+    listeners.add(listener);
+    const unsubscribe = subscribeTabSync(message => { if (message.type === 'designs') listener(); });
+    return () => {
+        listeners.delete(listener);
+        unsubscribe();
+    };
+};
+
+const notifyGalleryChanged = () => {
+    listeners.forEach(fn => fn());
+    broadcastChange({ type: 'designs' });
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Delete unstarred designs older than `days`; returns how many were removed
+export const pruneDesigns = async (days: number): Promise<number> => {
+    const removed = await deleteUnstarredDesignsBefore(Date.now() - days * DAY_MS);
+    if (removed > 0) notifyGalleryChanged();
+    return removed;
+};
+
+const hasTransparency = (context: CanvasRenderingContext2D, width: number, height: number) => {
+    const { data } = context.getImageData(0, 0, width, height);
+    for (let i = 3; i < data.length; i += 4) if (data[i] < 255) return true;
+    return false;
+};
+
+// Re-encode lossless images as high quality JPEG; kept only when actually smaller.
+// Images with transparent pixels are left alone: JPEG would turn them black.
+const compactImage = async (blob: Blob): Promise<Blob> => {
+    if (blob.type === 'image/jpeg' || blob.type === 'image/svg+xml') return blob;
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d');
+    if (!context) return blob;
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    if (hasTransparency(context, canvas.width, canvas.height)) return blob;
+    const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    return jpeg && jpeg.size < blob.size ? jpeg : blob;
+};
+
+/**
+ * Recompress stored design images (and their reference images) one design at a time.
+ * A design whose images cannot be decoded is skipped, not fatal to the run.
+ * Returns how many designs shrank, how many were skipped and the bytes saved.
+ */
+export const compactDesignImages = async (onProgress?: (done: number, total: number) => void): Promise<{ compacted: number, skipped: number, savedBytes: number }> => {
+    const ids = await listDesignIds();
+    let compacted = 0, skipped = 0, savedBytes = 0;
+    for (let i = 0; i < ids.length; i++) {
+        onProgress?.(i, ids.length);
+        const record = await getDesign(ids[i]);
+        if (!record) continue;
+        try {
+            const image = await compactImage(record.image);
+            const meta = record.generationMetadata;
+            const referenceImages = meta
+                ? await Promise.all(meta.referenceImages.map(async ref => ({ ...ref, image: await compactImage(ref.image) })))
+                : [];
+            const before = record.image.size + (meta?.referenceImages.reduce((sum, r) => sum + r.image.size, 0) || 0);
+            const after = image.size + referenceImages.reduce((sum, r) => sum + r.image.size, 0);
+            if (after >= before) continue;
+            await putDesigns([{ ...record, image, generationMetadata: meta && { ...meta, referenceImages } }]);
+            compacted++;
+            savedBytes += before - after;
+        } catch (e) {
+            console.warn(`Skipping design ${record.id} during compaction:`, e);
+            skipped++;
+        }
+    }
+    onProgress?.(ids.length, ids.length);
+    if (compacted > 0) notifyGalleryChanged();
+    return { compacted, skipped, savedBytes };
+};
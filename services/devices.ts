@@ -0,0 +1,68 @@
+import { CameraModulePosition, CameraModuleShape, DeviceCutout, DeviceModel, MaterialOption } from "../types";
+
+// Aspect ratios accepted by the image generation API
+export const SUPPORTED_ASPECT_RATIOS = ['9:16', '2:3', '3:4', '4:5', '1:1'];
+export const DEFAULT_ASPECT_RATIO = '9:16';
+
+export const CAMERA_SHAPE_LABELS: Record<CameraModuleShape, string> = {
+    square: '方形模组',
+    rectangle: '矩形模组',
+    bar: '横向贯穿式长条模组',
+    circle: '圆形模组',
+    pill: '竖向胶囊模组',
+    separate: '独立镜头 (无整体模组)',
+};
+
+export const CAMERA_POSITION_LABELS: Record<CameraModulePosition, string> = {
+    'top-left': '背部左上角',
+    'top-center': '背部上方居中',
+    'top-right': '背部右上角',
+    'top-full-width': '横跨背部上方',
+};
+
+export const CUTOUT_KIND_LABELS: Record<DeviceCutout['kind'], string> = {
+    button: '按键',
+    port: '接口',
+    speaker: '扬声器',
+    mic: '麦克风',
+    other: '其他',
+};
+
+export const CUTOUT_SIDE_LABELS: Record<DeviceCutout['side'], string> = {
+    left: '左侧',
+    right: '右侧',
+    top: '顶部',
+    bottom: '底部',
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\-_]/g, '');
+
+/**
+ * Find the device a material targets: by id, else by matching the legacy
+ * free-text `model` against device names and aliases.
+ */
+export const resolveDevice = (devices: DeviceModel[], material: Pick<MaterialOption, 'deviceId' | 'model'>): DeviceModel | undefined => {
+    if (material.deviceId) {
+        const byId = devices.find(d => d.id === material.deviceId);
+        if (byId) return byId;
+    }
+    const target = normalize(material.model || '');
+    if (!target) return undefined;
+    return devices.find(d => [d.name, ...d.aliases].some(name => normalize(name) === target));
+};
+
+// Link legacy materials to catalog devices (materials that already have a device are kept)
+export const linkMaterialsToDevices = (materials: MaterialOption[], devices: DeviceModel[]): MaterialOption[] =>
+    materials.map(m => {
+        if (m.deviceId && devices.some(d => d.id === m.deviceId)) return m;
+        const device = resolveDevice(devices, { model: m.model });
+        return device ? { ...m, deviceId: device.id, model: device.name } : m;
+    });
+
+// Human readable geometry, exposed to prompt templates as {{deviceGeometry}}
+export const describeDeviceGeometry = (device: DeviceModel): string => {
+    const camera = `摄像头为${CAMERA_SHAPE_LABELS[device.cameraShape]}，位于${CAMERA_POSITION_LABELS[device.cameraPosition]}`;
+    if (device.cutouts.length === 0) return `${camera}。`;
+    const cutouts = device.cutouts.map(c => `${CUTOUT_SIDE_LABELS[c.side]}${c.label}`).join('、');
+    return `${camera}；开孔：${cutouts}。`;
+};
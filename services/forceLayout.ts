@@ -0,0 +1,224 @@
+/**
+ * Force-directed layout for the brainstorm canvas. Plain data in, positions out,
+ * so the same step runs on the UI thread or in forceLayout.worker.ts.
+ *
+ * Repulsion uses a Barnes–Hut quadtree: a cell that is small relative to its
+ * distance acts as one body at its centre of mass, so a step costs O(n log n)
+ * instead of O(n²). Repulsion is short-ranged, so cells wholly out of reach are
+ * skipped without being opened.
+ */
+
+// Physics Tuning - WIDE & STABLE
+export const PHYSICS = {
+    FRICTION: 0.50,          // Keep high friction to prevent jitter
+    REPULSION: 1000,         // Increased Repulsion (was 500) to push nodes apart
+    LINK_STRENGTH: 0.008,    // Lower strength (was 0.015) to allow nodes to float further apart
+    LINK_DISTANCE: 260,      // Increased Distance (was 160) for better separation
+    CENTER_GRAVITY: 0.0001,  // Very weak pull
+    STOP_THRESHOLD: 2.0      // High threshold
+};
+
+// Opening angle: cells with size / distance below this are approximated
+const THETA = 0.8;
+// Coincident nodes would split forever; below this depth they share a leaf
+const MAX_TREE_DEPTH = 24;
+
+export interface SimNode {
+    id: string;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    radius: number;
+    isDragging?: boolean; // Held by the pointer: exerts force but is not moved
+    isPinned?: boolean;   // Fixed by the user, same effect
+}
+
+export interface SimLink {
+    source: string; // Node ID
+    target: string; // Node ID
+}
+
+export const indexNodes = <T extends SimNode>(nodes: T[]) => new Map(nodes.map(n => [n.id, n]));
+
+const isFixed = (n: SimNode) => n.isDragging || n.isPinned;
+
+// --- Quadtree ---
+
+interface QuadCell {
+    x: number;      // Top-left corner
+    y: number;
+    size: number;   // Cells are square
+    count: number;
+    sumX: number;   // For the centre of mass
+    sumY: number;
+    sumRadius: number;
+    bodies?: SimNode[];            // Leaf
+    children?: (QuadCell | null)[]; // Internal: NW, NE, SW, SE
+}
+
+const createCell = (x: number, y: number, size: number): QuadCell => ({ x, y, size, count: 0, sumX: 0, sumY: 0, sumRadius: 0, bodies: [] });
+
+const childIndex = (cell: QuadCell, node: SimNode) => {
+    const half = cell.size / 2;
+    return (node.x >= cell.x + half ? 1 : 0) + (node.y >= cell.y + half ? 2 : 0);
+};
+
+const insert = (cell: QuadCell, node: SimNode, depth: number) => {
+    cell.count += 1;
+    cell.sumX += node.x;
+    cell.sumY += node.y;
+    cell.sumRadius += node.radius;
+
+    if (cell.bodies) {
+        if (cell.bodies.length === 0 || depth >= MAX_TREE_DEPTH) {
+            cell.bodies.push(node);
+            return;
+        }
+        // Occupied leaf: split and push the existing bodies down
+        const existing = cell.bodies;
+        cell.bodies = undefined;
+        cell.children = [null, null, null, null];
+        existing.forEach(body => insertChild(cell, body, depth));
+    }
+    insertChild(cell, node, depth);
+};
+
+const insertChild = (cell: QuadCell, node: SimNode, depth: number) => {
+    const i = childIndex(cell, node);
+    const children = cell.children!;
+    if (!children[i]) {
+        const half = cell.size / 2;
+        children[i] = createCell(cell.x + (i & 1 ? half : 0), cell.y + (i & 2 ? half : 0), half);
+    }
+    insert(children[i]!, node, depth + 1);
+};
+
+const buildQuadTree = (nodes: SimNode[]) => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    nodes.forEach(n => {
+        minX = Math.min(minX, n.x);
+        minY = Math.min(minY, n.y);
+        maxX = Math.max(maxX, n.x);
+        maxY = Math.max(maxY, n.y);
+    });
+    const root = createCell(minX, minY, Math.max(maxX - minX, maxY - minY, 1) * 1.0001);
+    nodes.forEach(n => insert(root, n, 0));
+    return root;
+};
+
+// --- Forces ---
+
+// Same falloff and cutoff as the original pairwise pass; `weight` > 1 for an approximated cell
+const repel = (a: SimNode, bx: number, by: number, bRadius: number, weight: number) => {
+    const dx = bx - a.x;
+    const dy = by - a.y;
+    const distSq = dx * dx + dy * dy || 0.1;
+    const dist = Math.sqrt(distSq);
+
+    // Dynamic repulsion radius based on actual node sizes
+    const minDist = a.radius + bRadius + 30;
+    if (dist >= minDist * 2.5) return;
+
+    const force = (PHYSICS.REPULSION * 50) / (distSq + 100) * weight;
+    a.vx -= (dx / dist) * force;
+    a.vy -= (dy / dist) * force;
+};
+
+const applyRepulsion = (nodes: SimNode[]) => {
+    if (nodes.length < 2) return;
+    const root = buildQuadTree(nodes);
+    const maxRadius = nodes.reduce((max, n) => Math.max(max, n.radius), 0);
+
+    const visit = (a: SimNode, cell: QuadCell, reachSq: number) => {
+        // Distance from `a` to the nearest point of the cell; 0 when `a` is inside
+        const nx = Math.max(cell.x, Math.min(a.x, cell.x + cell.size)) - a.x;
+        const ny = Math.max(cell.y, Math.min(a.y, cell.y + cell.size)) - a.y;
+        const gapSq = nx * nx + ny * ny;
+        if (gapSq >= reachSq) return;
+
+        if (cell.bodies) {
+            for (const b of cell.bodies) if (b !== a) repel(a, b.x, b.y, b.radius, 1);
+            return;
+        }
+        const mx = cell.sumX / cell.count;
+        const my = cell.sumY / cell.count;
+        const distSq = (mx - a.x) ** 2 + (my - a.y) ** 2;
+        if (gapSq > 0 && cell.size * cell.size < THETA * THETA * distSq) {
+            repel(a, mx, my, cell.sumRadius / cell.count, cell.count);
+            return;
+        }
+        for (const child of cell.children!) if (child) visit(a, child, reachSq);
+    };
+
+    nodes.forEach(a => {
+        if (isFixed(a)) return;
+        const reach = (a.radius + maxRadius + 30) * 2.5;
+        visit(a, root, reach * reach);
+    });
+};
+
+const applySprings = (links: SimLink[], index: ReadonlyMap<string, SimNode>) => {
+    links.forEach(link => {
+        const source = index.get(link.source);
+        const target = index.get(link.target);
+        if (!source || !target) return;
+        const dx = target.x - source.x;
+        const dy = target.y - source.y;
+        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+
+        // Adaptive link distance based on radii
+        const targetDist = PHYSICS.LINK_DISTANCE + (source.radius + target.radius) * 0.5;
+
+        const force = (dist - targetDist) * PHYSICS.LINK_STRENGTH;
+        const fx = (dx / dist) * force;
+        const fy = (dy / dist) * force;
+
+        if (!isFixed(source)) { source.vx += fx; source.vy += fy; }
+        if (!isFixed(target)) { target.vx -= fx; target.vy -= fy; }
+    });
+};
+
+// Gravity, friction and integration; returns the total movement of this step
+const integrate = (nodes: SimNode[]) => {
+    let totalEnergy = 0;
+    nodes.forEach(n => {
+        if (isFixed(n)) return;
+        n.vx += (0 - n.x) * PHYSICS.CENTER_GRAVITY;
+        n.vy += (0 - n.y) * PHYSICS.CENTER_GRAVITY;
+        n.vx *= PHYSICS.FRICTION;
+        n.vy *= PHYSICS.FRICTION;
+
+        // CRITICAL: Aggressive Velocity Clamping to stop jitter
+        // If velocity is small, force to zero immediately
+        if (Math.abs(n.vx) < 0.2) n.vx = 0;
+        if (Math.abs(n.vy) < 0.2) n.vy = 0;
+
+        n.x += n.vx;
+        n.y += n.vy;
+        totalEnergy += Math.abs(n.vx) + Math.abs(n.vy);
+    });
+    return totalEnergy;
+};
+
+/** Advances the layout one frame in place. `index` must map the ids of `nodes`. */
+export const stepSimulation = (nodes: SimNode[], links: SimLink[], index: ReadonlyMap<string, SimNode>) => {
+    applyRepulsion(nodes);
+    applySprings(links, index);
+    return integrate(nodes);
+};
+
+export const isSettled = (energy: number) => energy < PHYSICS.STOP_THRESHOLD;
+
+// --- Worker messages (see forceLayout.worker.ts and layoutWorker.ts) ---
+
+export type LayoutCommand =
+    | { type: 'load', generation: number, nodes: SimNode[], links: SimLink[] }
+    | { type: 'pin', nodes: { id: string, x: number, y: number }[] }
+    | { type: 'wake' };
+
+export interface LayoutTick {
+    generation: number;
+    state: Float64Array; // x, y, vx, vy per node, in load order
+    settled: boolean;
+}
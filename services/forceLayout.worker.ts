@@ -0,0 +1,67 @@
+import { LayoutCommand, LayoutTick, SimLink, SimNode, indexNodes, isSettled, stepSimulation } from "./forceLayout";
+
+/**
+ * Runs the brainstorm layout off the UI thread for large maps. The page sends
+ * the world on every topology change and the dragged node while dragging;
+ * the worker steps until the layout settles and streams positions back.
+ */
+
+const scope = self as unknown as Worker;
+const FRAME_MS = 16;
+
+let generation = 0;
+let nodes: SimNode[] = [];
+let links: SimLink[] = [];
+let index = new Map<string, SimNode>();
+let pinned: SimNode[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const tick = () => {
+    timer = null;
+    const energy = stepSimulation(nodes, links, index);
+    // A held node keeps the layout awake, like on the main thread
+    const settled = isSettled(energy) && pinned.length === 0;
+
+    const state = new Float64Array(nodes.length * 4);
+    nodes.forEach((n, i) => {
+        state[i * 4] = n.x;
+        state[i * 4 + 1] = n.y;
+        state[i * 4 + 2] = n.vx;
+        state[i * 4 + 3] = n.vy;
+    });
+    const message: LayoutTick = { generation, state, settled };
+    scope.postMessage(message, [state.buffer]);
+
+    if (!settled) timer = setTimeout(tick, FRAME_MS);
+};
+
+const wake = () => {
+    if (!timer) timer = setTimeout(tick, FRAME_MS);
+};
+
+scope.onmessage = (e: MessageEvent<LayoutCommand>) => {
+    const command = e.data;
+    switch (command.type) {
+        case 'load':
+            generation = command.generation;
+            nodes = command.nodes;
+            links = command.links;
+            index = indexNodes(nodes);
+            pinned = [];
+            nodes.forEach(n => { n.isDragging = false; });
+            break;
+        case 'pin':
+            pinned.forEach(n => { n.isDragging = false; });
+            pinned = [];
+            command.nodes.forEach(({ id, x, y }) => {
+                const node = index.get(id);
+                if (!node) return;
+                Object.assign(node, { x, y, vx: 0, vy: 0, isDragging: true });
+                pinned.push(node);
+            });
+            break;
+        case 'wake':
+            break;
+    }
+    wake();
+};
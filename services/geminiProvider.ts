@@ -0,0 +1,129 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { UsageMetadata } from "../types";
+import { AIProvider, AssociationResponse } from "./aiProvider";
+import { AIError } from "./aiErrors";
+import { getGeminiConnection } from "./geminiProxy";
+
+// Always create a new instance to ensure the latest key / proxy settings are used
+const getAI = () => {
+    const { apiKey, baseUrl } = getGeminiConnection();
+    return new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+};
+
+// Token counts as reported by the API, for billing
+const usageOf = (response: GenerateContentResponse): Partial<UsageMetadata> => ({
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    candidatesTokens: response.usageMetadata?.candidatesTokenCount,
+    totalTokens: response.usageMetadata?.totalTokenCount
+});
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Blocked prompts / candidates come back as a normal response, not an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new AIError('safety', `Prompt blocked: ${blockReason}`);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new AIError('safety', `Candidate blocked: ${finishReason}`);
+    }
+};
+
+const parseJSON = <T,>(text: string): T => {
+    try {
+        return JSON.parse(text) as T;
+    } catch (e) {
+        throw new AIError('parse', `Invalid JSON from model: ${text.slice(0, 200)}`, { cause: e });
+    }
+};
+
+/**
+ * Live Gemini backend (Google GenAI SDK)
+ */
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    requiresApiKey: true,
+
+    async associate({ model, prompt }) {
+        // Configure response schema for Object return
+        const response = await getAI().models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        up: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        side: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        down: { type: Type.ARRAY, items: { type: Type.STRING } }
+                    },
+                    required: ["up", "side", "down"]
+                }
+            }
+        });
+        assertNotBlocked(response);
+        const text = response.text;
+        if (!text) return { value: { up: [], side: [], down: [] }, usage: usageOf(response) };
+        const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+        return { value: parseJSON<AssociationResponse>(cleanText), usage: usageOf(response) };
+    },
+
+    async analyzeImage({ model, prompt, image }) {
+        const response = await getAI().models.generateContent({
+            model,
+            contents: {
+                parts: [
+                    { inlineData: image },
+                    { text: prompt }
+                ]
+            }
+        });
+        assertNotBlocked(response);
+        return { value: response.text?.trim() || "艺术设计", usage: usageOf(response) };
+    },
+
+    async rewritePrompts({ model, systemInstruction, originalPrompt, count }) {
+        const textInput = `Original Prompt: "${originalPrompt}"\n\nTask: Generate ${count} variants based on the system instructions.`;
+        const response = await getAI().models.generateContent({
+            model,
+            contents: [{ role: "user", parts: [{ text: textInput }] }],
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING }
+                }
+            }
+        });
+        assertNotBlocked(response);
+        const text = response.text;
+        // Parse errors surface as AIError('parse') so callers can fall back
+        return { value: text ? parseJSON<string[]>(text) : [], usage: usageOf(response) };
+    },
+
+    async generateImage({ model, parts, aspectRatio, imageSize }) {
+        const response = await getAI().models.generateContent({
+            model,
+            contents: { parts },
+            config: {
+                imageConfig: { aspectRatio, imageSize }
+            }
+        });
+
+        assertNotBlocked(response);
+        if (response.candidates && response.candidates[0].content?.parts) {
+            for (const part of response.candidates[0].content.parts) {
+                if (part.inlineData && part.inlineData.data) {
+                    return {
+                        image: { mimeType: part.inlineData.mimeType || "image/png", data: part.inlineData.data },
+                        usage: usageOf(response)
+                    };
+                }
+            }
+        }
+        return null;
+    }
+};
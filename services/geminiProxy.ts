@@ -0,0 +1,62 @@
+import { GeminiProxyConfig } from "../types";
+import { AIError } from "./aiErrors";
+import { loadProxyConfigFromDB, saveProxyConfigToDB } from "./db";
+
+/**
+ * Where Gemini calls go. Production builds carry no API key: requests are sent
+ * to the proxy (server/gemini-proxy.mjs), which adds the key server-side and
+ * enforces per-user quotas. Only `vite` dev mode inlines GEMINI_API_KEY, as a
+ * fallback when no proxy is configured.
+ */
+
+// Build-time defaults (see vite.config.ts)
+const DEFAULT_PROXY_URL = process.env.GEMINI_PROXY_URL || '';
+const DEV_API_KEY = process.env.API_KEY || '';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com';
+
+let config: GeminiProxyConfig = { url: '' };
+
+export interface GeminiConnection {
+    apiKey: string;    // Real key (dev) or the user's proxy token
+    baseUrl?: string;  // Set when going through the proxy
+}
+
+export interface ProxyUsage {
+    user: string;
+    day: string;
+    requests: number;
+    images: number;
+    limits: { requests?: number, images?: number };
+}
+
+export const getProxyConfig = () => config;
+export const getProxyUrl = () => (config.url || DEFAULT_PROXY_URL).replace(/\/+$/, '');
+
+export const initGeminiProxy = async () => {
+    config = { url: '', ...await loadProxyConfigFromDB() };
+};
+
+export const configureGeminiProxy = async (next: GeminiProxyConfig) => {
+    config = next;
+    await saveProxyConfigToDB(next);
+};
+
+export const getGeminiConnection = (): GeminiConnection => {
+    const proxyUrl = getProxyUrl();
+    // The SDK insists on a key; the proxy reads it as the user token and swaps in the real one
+    if (proxyUrl) return { apiKey: config.token || 'anonymous', baseUrl: proxyUrl };
+    if (DEV_API_KEY) return { apiKey: DEV_API_KEY };
+    throw new AIError('auth', '未配置 Gemini 代理服务：请在 设置 → API 诊断 中填写代理地址 (生产构建不包含 API Key)');
+};
+
+// Same path layout as the Gemini REST API, so the SDK and diagnostics work against either
+export const geminiRestUrl = (path: string) => `${getGeminiConnection().baseUrl || GEMINI_API_BASE}${path}`;
+
+// Today's usage and limits for the current token, as counted by the proxy
+export const fetchProxyUsage = async (): Promise<ProxyUsage> => {
+    const { apiKey } = getGeminiConnection();
+    const response = await fetch(`${getProxyUrl()}/api/usage`, { headers: { 'x-goog-api-key': apiKey } });
+    if (!response.ok) throw new AIError(response.status === 401 ? 'auth' : 'unknown', `代理服务返回 ${response.status}`, { status: response.status });
+    return response.json();
+};
@@ -1,11 +1,14 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AppSelection, Library, MindMapNode, SystemPrompts, GenerationMetadata, UsageMetadata, CostInfo, GeneratedDesign } from "../types";
-
-// Always create a new instance to ensure the latest API key is used
-const getAI = () => {
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
+import { AppSelection, Library, MindMapNode, SystemPrompts, GenerationMetadata, UsageMetadata, GeneratedDesign, ModelChainEntry, ModelRegistry, ModelOperation, PricingTable } from "../types";
+import { getProvider, AssociationDimension, AssociationResponse, ContentPart, TextResult } from "./aiProvider";
+import { calculateEstCost, estimateImageUsage, estimateTextUsage } from "./pricing";
+import { recordSpend } from "./budget";
+import { AIError, isFallbackKind, isRetryableKind, toAIError } from "./aiErrors";
+import { CacheMode, hashText, isImageCacheEnabled, withResponseCache } from "./responseCache";
+import { renderTemplate } from "./promptTemplate";
+import { DEFAULT_ASPECT_RATIO, describeDeviceGeometry, resolveDevice } from "./devices";
+import { geminiRestUrl, getGeminiConnection } from "./geminiProxy";
+import { ASSOCIATION_LABELS, ContextStep } from "./brainstormContext";
 
 /**
  * Resize and Standardize Base64 image
@@ -133,67 +136,71 @@ async function urlToData(url: string): Promise<{ mimeType: string, data: string
 
 /**
  * Helper for fallback execution
+ * Walks the operation's chain in order: transient failures get `retries` extra attempts
+ * on the same model (unless `retryEachModel` is off), then the next model is tried
+ * if the failure looks model/quota related.
  */
-async function withFallback<T>(primaryFn: () => Promise<T>, fallbackFn: () => Promise<T>, operationName: string): Promise<T> {
-    try {
-        return await primaryFn();
-    } catch (error: any) {
-        const errorMessage = (error.message || "").toLowerCase();
-        
-        const isPermissionError = error.status === 403 || errorMessage.includes("403") || errorMessage.includes("permission");
-        const isResourceExhausted = error.status === 429 || errorMessage.includes("429");
-        const isServerError = error.status === 500 || errorMessage.includes("500") || errorMessage.includes("rpc");
-        const isOverloaded = error.status === 503 || errorMessage.includes("503") || errorMessage.includes("overloaded") || errorMessage.includes("unavailable");
-        
-        // Handle Geo-blocking / Location errors (400 FAILED_PRECONDITION)
-        const isLocationError = error.status === 400 && (errorMessage.includes("location") || errorMessage.includes("precondition") || errorMessage.includes("region"));
-
-        if (isPermissionError || isResourceExhausted || isServerError || isOverloaded || isLocationError) {
-            console.warn(`[CaseCraft] Primary failed for ${operationName} (${error.status || 'unknown error'}). Switching to fallback.`);
-            return await fallbackFn();
+async function withFallback<T>(chain: ModelChainEntry[], execute: (model: string) => Promise<T>, operationName: string, retryEachModel = true): Promise<T> {
+    if (chain.length === 0) throw new AIError('badRequest', `No model configured for ${operationName}`);
+
+    let lastError: AIError | undefined;
+    for (let i = 0; i < chain.length; i++) {
+        const entry = chain[i];
+        const retries = retryEachModel ? entry.retries : 0;
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            // Add a small delay before retry / fallback to let the system recover or avoid rate limits
+            if ((i > 0 || attempt > 0) && entry.delayMs > 0) {
+                await new Promise(r => setTimeout(r, entry.delayMs));
+            }
+            try {
+                return await execute(entry.model);
+            } catch (error) {
+                lastError = toAIError(error);
+                console.warn(`[CaseCraft] ${operationName} failed on ${entry.model} (attempt ${attempt + 1}/${retries + 1}): [${lastError.kind}] ${lastError.status || lastError.message}`);
+                // Auth / region errors and blocked or malformed requests fail the same way on every retry
+                if (!isRetryableKind(lastError.kind)) break;
+            }
+        }
+        if (!lastError || !isFallbackKind(lastError.kind)) throw lastError;
+        if (i < chain.length - 1) {
+            console.warn(`[CaseCraft] Switching ${operationName} to fallback model ${chain[i + 1].model}.`);
         }
-        throw error;
     }
+    throw lastError;
 }
 
+// Image calls run as job queue tasks, which retry them with backoff (services/jobQueue.ts).
+// Retrying each model here as well would multiply the paid calls per job.
+const IMAGE_CALLS_RETRY_EACH_MODEL = false;
+
 /**
- * Calculate estimated cost based on Gemini 3 Pro Preview Pricing
+ * Bill a text call from the usage the backend reported, estimated where it reported none.
+ * Runs inside the fallback chain, so every call that reached a model is recorded once.
  */
-const calculateEstCost = (usage: UsageMetadata, modelName: string): CostInfo => {
-    // Pricing (Gemini 3 Pro Image Preview)
-    // Input: $2.00 / 1M tokens
-    // Output: $120.00 / 1M tokens (Approx $0.134 per image)
-    const INPUT_PRICE_PER_MILLION = 2.00;
-    const OUTPUT_PRICE_PER_MILLION = 120.00;
-    const EXCHANGE_RATE = 7.25; // USD to CNY
-
-    const inputCostUSD = (usage.promptTokens / 1_000_000) * INPUT_PRICE_PER_MILLION;
-    const outputCostUSD = (usage.candidatesTokens / 1_000_000) * OUTPUT_PRICE_PER_MILLION;
-    const totalUSD = inputCostUSD + outputCostUSD;
-
-    return {
-        inputCostUSD,
-        outputCostUSD,
-        totalUSD,
-        totalCNY: totalUSD * EXCHANGE_RATE
-    };
+const recordTextSpend = <T>(result: TextResult<T>, model: string, operation: ModelOperation, pricing: PricingTable, promptLength: number, imageCount = 0): T => {
+    const estimate = estimateTextUsage(promptLength, JSON.stringify(result.value).length, imageCount);
+    const promptTokens = result.usage?.promptTokens || estimate.promptTokens;
+    const candidatesTokens = result.usage?.candidatesTokens || estimate.candidatesTokens;
+    const usage: UsageMetadata = { promptTokens, candidatesTokens, totalTokens: result.usage?.totalTokens || promptTokens + candidatesTokens };
+    recordSpend(calculateEstCost(usage, model, pricing), model, operation);
+    return result.value;
 };
-
-// Interface for the structured response
-interface AssociationResponse {
-    up: string[];
-    side: string[];
-    down: string[];
-}
+// Keeps "expand more" prompts bounded on large maps; the canvas still filters against every node
+const MAX_EXCLUDED_TERMS = 80;
 
 /**
  * Generates structured 3-way visual associations for a given word.
+ * `contextPath` runs from the root (or the nearest ancestors) down to `node`, see getContextPath.
  * Returns { up: [], side: [], down: [] }
  */
 export const expandBrainstormNode = async (
   node: MindMapNode,
-  contextPath: string[],
-  prompts: SystemPrompts
+  contextPath: ContextStep[],
+  prompts: SystemPrompts,
+  models: ModelRegistry,
+  pricing: PricingTable,
+  cacheMode: CacheMode = 'use',
+  options: { exclude?: string[], only?: AssociationDimension } = {}
 ): Promise<AssociationResponse> => {
   const taskInstruction = prompts.brainstormRoot;
   const basePrompt = prompts.brainstormBase || "You are an AI visual design assistant.";
@@ -214,70 +221,76 @@ export const expandBrainstormNode = async (
          Output Requirement: MUST be in ENGLISH.
          Logic Mode: Slogans, Phrases, Vibes, Short Idioms, Cultural References (Not just objects).`;
 
-  const prompt = `${basePrompt}\n${languageContext}\n\nTarget Word: "${node.text}"\n\nTask Instructions:\n${taskInstruction}`;
-
-  // Configure response schema for Object return
-  const requestConfig = {
-    responseMimeType: "application/json",
-    responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-            up: { type: Type.ARRAY, items: { type: Type.STRING } },
-            side: { type: Type.ARRAY, items: { type: Type.STRING } },
-            down: { type: Type.ARRAY, items: { type: Type.STRING } }
-        },
-        required: ["up", "side", "down"]
-    }
-  };
+  // Ancestors disambiguate the word: "月球" under "中秋节" is not "月球" under "太空探索"
+  const ancestors = contextPath.slice(0, -1);
+  const relation = node.associationType && node.associationType !== 'root' ? ASSOCIATION_LABELS[node.associationType] : null;
+  const pathContext = ancestors.length === 0 ? '' : isChinese
+      ? `\n\n[脑暴路径] ${contextPath.map(step => `"${step.text}"`).join(' → ')}
+         "${node.text}" 是 "${ancestors[ancestors.length - 1].text}" 的${relation ? relation.zh : '联想'}。联想结果必须贴合整条路径的主题，不要重复路径中已有的词。`
+      : `\n\n[Brainstorm Path] ${contextPath.map(step => `"${step.text}"`).join(' → ')}
+         "${node.text}" is ${relation ? `a ${relation.en}` : 'an'} association of "${ancestors[ancestors.length - 1].text}". Keep every result relevant to the theme of the whole path and do not repeat words already on it.`;
+
+  // "Expand more" / regenerate one dimension: ask for words the map does not have yet
+  const exclude = (options.exclude || []).slice(0, MAX_EXCLUDED_TERMS);
+  const constraints = [
+      options.only && `Only fill the "${options.only}" array with fresh items; return empty arrays for the other two.`,
+      exclude.length > 0 && `Do NOT return any of these words or their variants, they are already on the map: ${exclude.map(t => `"${t}"`).join(', ')}.`
+  ].filter(Boolean);
+  const constraintBlock = constraints.length > 0 ? `\n\n[ADDITIONAL CONSTRAINTS]\n${constraints.join('\n')}` : '';
+
+  const prompt = `${basePrompt}\n${languageContext}${pathContext}\n\nTarget Word: "${node.text}"\n\nTask Instructions:\n${taskInstruction}${constraintBlock}`;
 
   const execute = async (model: string): Promise<AssociationResponse> => {
-      const response = await getAI().models.generateContent({
-          model, contents: prompt, config: requestConfig
-      });
-      const text = response.text;
-      if (!text) return { up: [], side: [], down: [] };
-      const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      return JSON.parse(cleanText) as AssociationResponse;
+      const result = recordTextSpend(await getProvider().associate({ model, prompt, word: node.text, exclude, only: options.only }), model, 'associate', pricing, prompt.length);
+      if (!options.only) return result;
+      return { up: [], side: [], down: [], [options.only]: result[options.only] || [] };
   };
 
   try {
-    // Default to flash for brainstorming, fallback to Pro if Flash is overloaded
-    return await withFallback(
-        () => execute("gemini-2.5-flash"),
-        async () => {
-             // Add a small delay before fallback to let the system recover or avoid rate limits
-             await new Promise(r => setTimeout(r, 1000));
-             return execute("gemini-3-pro-preview");
+    const { value } = await withResponseCache(
+        {
+            operation: 'associate',
+            label: node.text,
+            models: models.associate.map(e => e.model),
+            keyParts: { provider: getProvider().id, prompt },
+            mode: cacheMode,
+            cacheable: r => (r.up?.length || 0) + (r.side?.length || 0) + (r.down?.length || 0) > 0
         },
-        "Generate Associations"
+        () => withFallback(models.associate, execute, "Generate Associations")
     );
+    return value;
   } catch (error) {
     console.error("Brainstorm expansion failed:", error);
-    return { up: [], side: [], down: [] };
+    throw toAIError(error);
   }
 };
 
+// Reference images enter cache keys by content hash, not by raw base64
+const hashReferenceImages = (images: { data: string }[]) => Promise.all(images.map(img => hashText(img.data)));
+
 /**
  * Generates a phone case image.
- * STRICTLY uses gemini-3-pro-image-preview.
+ * Uses the `imageGenerate` chain of the library's model registry.
+ * `cache.sample` separates repeated renders of the same concept within a batch.
  */
 export const generatePhoneCaseDesign = async (
   selection: AppSelection,
   library: Library,
   concept: string,
   fullContextPath: string,
-  imageSize: string = "1K"
+  imageSize: string = "1K",
+  cache: { mode?: CacheMode, sample?: number } = {}
 ): Promise<{ imageUrl: string | null; metadata: GenerationMetadata } | null> => {
 
   const material = library.materials.find(m => m.id === selection.materialId);
   const process = library.processes.find(p => p.id === selection.processId);
   const style = library.styles.find(s => s.id === selection.styleId);
 
-  if (!material || !process) throw new Error("Material and Process are required.");
+  if (!material || !process) throw new AIError('badRequest', "Material and Process are required.");
 
   let promptText = "";
   const metadataImages: { label: string, mimeType: string, data: string }[] = [];
-  const parts: any[] = [];
+  const parts: ContentPart[] = [];
   
   const attachImagePart = async (urlOrBase64: string, label: string) => {
       let base64Data = "";
@@ -308,141 +321,129 @@ export const generatePhoneCaseDesign = async (
       }
   };
 
-  // --- LOGIC FOR DIAMOND PROCESS VS STANDARD PROCESS ---
-
-  if (process.category === 'diamond') {
-      // Image 1: Base Material (Always attach first)
-      if (material.previewUrl) await attachImagePart(material.previewUrl, "底材参考 (Base Material)");
+  // --- REFERENCE IMAGES: DIAMOND PROCESS VS STANDARD PROCESS ---
 
-      // Base Prompt
-      promptText = `在图1的手机壳上使用满钻贴钻工艺，手机壳的侧面不贴水钻。在手机壳上加入“${concept}”图案，图形没有线条，“${concept}”图案完全由水钻组成。`;
+  const mainDiamondColor = library.mainDiamondColors?.find(c => c.id === selection.mainDiamondColorId);
+  const secondaryColors = library.secondaryDiamondColors
+    ?.filter(c => selection.secondaryDiamondColorIds?.includes(c.id))
+    .map(c => c.name) || [];
+  let mainColorAttached = false;
 
-      // 1. Handle Main Diamond Color (Optional)
-      const mainDiamondColor = library.mainDiamondColors?.find(c => c.id === selection.mainDiamondColorId);
-      
-      // Check if secondary colors are selected
-      const secondaryColors = library.secondaryDiamondColors
-        ?.filter(c => selection.secondaryDiamondColorIds?.includes(c.id))
-        .map(c => c.name) || [];
-      const hasSecondary = secondaryColors.length > 0;
+  // Image 1: Base Material (Always attach first)
+  if (material.previewUrl) await attachImagePart(material.previewUrl, "底材参考 (Base Material)");
 
+  if (process.category === 'diamond') {
+      // Image 2: Main Diamond Color (Optional), only referenced by the template when attached
       if (mainDiamondColor && mainDiamondColor.previewUrl) {
-          // If selected, attach image and add specific prompt
           await attachImagePart(mainDiamondColor.previewUrl, `水钻主色 (Main Diamond - ${mainDiamondColor.name})`);
-          
-          if (hasSecondary) {
-               // Normal logic: Main color matches base, secondary colors match pattern
-               promptText += ` 请参考刚传入的“水钻主色”图片作为手机壳的整体背景底色。`;
-          } else {
-               // Special logic: User wants free pattern colors if secondary is not set
-               promptText += ` 请参考刚传入的“水钻主色”图片作为手机壳的**背景底色**。⚠️重要：此颜色仅作为背景（Negative Space），**绝对不要**影响“${concept}”图案本身的配色。由于未指定图案颜色，请你自由发挥，为“${concept}”图案设计鲜明、丰富且美观的颜色，使其与背景形成强烈对比。`;
-          }
+          mainColorAttached = true;
       }
-
-      // 2. Handle Secondary Diamond Colors (Optional)
-      if (hasSecondary) {
-          const secondaryColorsStr = secondaryColors.map(c => `“${c}”`).join('、');
-          promptText += ` 图案水钻的颜色主要由${secondaryColorsStr}组成。`;
-      } 
-      // Else: already handled in main color logic (allow free creativity)
-
-      // 3. Handle iPhone 17 Pro specific logic
-      if (material.model.toLowerCase().includes('17 pro') || material.model.toLowerCase().includes('17p')) {
-          promptText += `。保留图1的“横向贯穿式”设计后置摄像头模组，摄像头不局限于背部左上角，而是一条横跨手机背部上方的矩形凸起区域`;
-      }
-
   } else {
-      // --- STANDARD PROCESS LOGIC ---
-      
-      // Image 1: Base Material
-      if (material.previewUrl) await attachImagePart(material.previewUrl, "底材参考 (Base Material)");
       // Image 2: Process Texture
       if (process.previewUrl) await attachImagePart(process.previewUrl, "工艺参考 (Process Texture)");
-
-      const processDesc = process.description.replace(/{{concept}}/g, concept);
-      const stylePrompt = (style?.promptModifier || "").replace(/{{concept}}/g, concept);
-      
-      promptText = library.prompts.designGeneration || "";
-      promptText = promptText
-        .replace(/{{model}}/g, material.model)
-        .replace(/{{concept}}/g, concept)
-        .replace(/{{context}}/g, fullContextPath)
-        .replace(/{{materialType}}/g, material.type)
-        .replace(/{{materialColor}}/g, material.color)
-        .replace(/{{processName}}/g, process.name)
-        .replace(/{{processDesc}}/g, processDesc)
-        .replace(/{{styleName}}/g, style?.name || "Standard Style")
-        .replace(/{{stylePrompt}}/g, stylePrompt)
-        .replace(/{{customPrompt}}/g, selection.customSystemPrompt ? `Extra Instructions: ${selection.customSystemPrompt}` : "");
   }
 
+  // --- PROMPT: per-category template from SystemPrompts ---
+
+  const device = resolveDevice(library.devices || [], material);
+  const deviceName = device?.name || material.model;
+  const aspectRatio = device?.aspectRatio || DEFAULT_ASPECT_RATIO;
+  const processDesc = renderTemplate(process.description, { concept, model: deviceName, materialColor: material.color });
+  const stylePrompt = renderTemplate(style?.promptModifier || "", { concept });
+  const template = process.category === 'diamond' ? library.prompts.diamondGeneration : library.prompts.designGeneration;
+
+  promptText = renderTemplate(template || "", {
+    model: deviceName,
+    concept,
+    context: fullContextPath,
+    materialName: material.name,
+    materialType: material.type,
+    materialColor: material.color,
+    processName: process.name,
+    processDesc,
+    styleName: style?.name || "Standard Style",
+    stylePrompt,
+    mainDiamondColor: mainColorAttached ? mainDiamondColor?.name : undefined,
+    secondaryDiamondColors: secondaryColors,
+    deviceGeometry: device ? describeDeviceGeometry(device) : "",
+    deviceNotes: device?.promptNotes || "",
+    hasCameraBar: device?.cameraShape === 'bar',
+    customPrompt: selection.customSystemPrompt ? `Extra Instructions: ${selection.customSystemPrompt}` : "",
+    imageSize
+  });
+
   // Push prompt text at the end
   parts.push({ text: promptText });
 
 
-  // gemini-3-pro-image-preview is required for high quality image generation
-  const proModelName = "gemini-3-pro-image-preview";
-
-  const executePro = async (params: { prompt: string, parts: any[] }): Promise<{ imageUrl: string, usage: UsageMetadata } | null> => {
-      const config: any = {
-        imageConfig: {
-            aspectRatio: "9:16",
-            imageSize: imageSize // Passed from parameter
-        }
-      };
-
-      console.log(`[CaseCraft] Calling ${proModelName} with size ${imageSize}...`);
-      const ai = getAI(); // Get fresh instance with current key
-      const response = await ai.models.generateContent({
-        model: proModelName,
-        contents: { parts: params.parts },
-        config
+  const executePro = async (model: string, params: { prompt: string, parts: ContentPart[] }): Promise<{ imageUrl: string, usage: UsageMetadata, model: string } | null> => {
+      console.log(`[CaseCraft] Calling ${model} with size ${imageSize}...`);
+      const result = await getProvider().generateImage({
+        model,
+        parts: params.parts,
+        aspectRatio,
+        imageSize: imageSize, // Passed from parameter
+        concept
       });
+      if (!result) return null;
 
       // Extract Usage Metadata (or fallback estimates)
       // Preview models might have inconsistent usage metadata return, so we implement fallback
+      const estimate = estimateImageUsage(params.prompt.length, metadataImages.length, imageSize);
       const usageMeta: UsageMetadata = {
-          promptTokens: response.usageMetadata?.promptTokenCount || (params.prompt.length / 4) + (metadataImages.length * 560), // Estimate
-          candidatesTokens: response.usageMetadata?.candidatesTokenCount || (imageSize === "4K" ? 2000 : 1120), // Estimate based on size
-          totalTokens: response.usageMetadata?.totalTokenCount || 0
+          promptTokens: result.usage?.promptTokens || estimate.promptTokens,
+          candidatesTokens: result.usage?.candidatesTokens || estimate.candidatesTokens, // Estimate based on size
+          totalTokens: result.usage?.totalTokens || 0
       };
       if (usageMeta.totalTokens === 0) usageMeta.totalTokens = usageMeta.promptTokens + usageMeta.candidatesTokens;
 
-      if (response.candidates && response.candidates[0].content.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            return {
-                imageUrl: `data:image/png;base64,${part.inlineData.data}`,
-                usage: usageMeta
-            };
-          }
-        }
-      }
-      return null;
+      return {
+          imageUrl: `data:${result.image.mimeType};base64,${result.image.data}`,
+          usage: usageMeta,
+          model
+      };
   };
 
   try {
-      // Retry logic only (no model fallback for pro image generation)
-      let result;
-      try {
-          result = await executePro({ prompt: promptText, parts });
-      } catch (e: any) {
-          console.warn(`[CaseCraft] First attempt at ${proModelName} failed (${e.message}), retrying in 3s...`);
-          await new Promise(r => setTimeout(r, 3000));
-          result = await executePro({ prompt: promptText, parts });
-      }
+      const { value: result, hit } = await withResponseCache(
+          {
+              operation: 'imageGenerate',
+              label: concept,
+              models: library.models.imageGenerate.map(e => e.model),
+              keyParts: {
+                  provider: getProvider().id,
+                  prompt: promptText,
+                  referenceImages: await hashReferenceImages(metadataImages),
+                  imageSize,
+                  aspectRatio,
+                  sample: cache.sample || 0
+              },
+              mode: cache.mode,
+              store: isImageCacheEnabled()
+          },
+          () => withFallback(
+              library.models.imageGenerate,
+              model => executePro(model, { prompt: promptText, parts }),
+              "Generate Image",
+              IMAGE_CALLS_RETRY_EACH_MODEL
+          )
+      );
 
       if (result && result.imageUrl) {
-        const costInfo = calculateEstCost(result.usage, proModelName);
+        const costInfo = calculateEstCost(result.usage, result.model, library.pricing, imageSize);
+        if (!hit) recordSpend(costInfo, result.model, 'imageGenerate');
         
         return {
             imageUrl: result.imageUrl,
             metadata: {
                 prompt: promptText,
                 referenceImages: metadataImages,
-                model: proModelName,
+                model: result.model,
                 usage: result.usage,
-                cost: costInfo
+                cost: costInfo,
+                imageSize,
+                aspectRatio,
+                cacheHit: hit || undefined
             }
         };
       }
@@ -450,171 +451,196 @@ export const generatePhoneCaseDesign = async (
 
   } catch (error) {
     console.error("Image generation failed:", error);
-    throw error;
+    throw toAIError(error);
   }
 };
 
 /**
- * Generates variants of an existing design.
- * 1. Uses a Text Agent to rewrite prompts based on the original.
- * 2. Uses Image Model to render variants.
+ * Variant step 1: a Text Agent rewrites the original prompt into `count` new prompts.
  */
-export const generateDesignVariants = async (
+export const generateVariantPrompts = async (
   originalDesign: GeneratedDesign,
   count: number,
-  prompts: SystemPrompts
-): Promise<GeneratedDesign[]> => {
+  library: Library,
+  cacheMode: CacheMode = 'use'
+): Promise<string[]> => {
+    const { prompts, models } = library;
     const originalMeta = originalDesign.generationMetadata;
-    if (!originalMeta) throw new Error("Missing metadata for variant generation");
+    if (!originalMeta) throw new AIError('badRequest', "Missing metadata for variant generation");
 
-    // Step 1: Generate New Prompts using Text Agent
-    const agentPrompt = prompts.variantDesigner
-        .replace(/{{concept}}/g, originalDesign.concept)
-        .replace(/{{count}}/g, count.toString());
+    const agentPrompt = renderTemplate(prompts.variantDesigner, { concept: originalDesign.concept, count });
 
-    const textInput = `Original Prompt: "${originalMeta.prompt}"\n\nTask: Generate ${count} variants based on the system instructions.`;
-    
     console.log("[CaseCraft] Generating variant prompts...");
-    const ai = getAI();
-    const promptResponse = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: [{ role: "user", parts: [{ text: textInput }] }],
-        config: {
-            systemInstruction: agentPrompt,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
-        }
-    });
-
     let newPrompts: string[] = [];
     try {
-        const text = promptResponse.text;
-        if (text) {
-             newPrompts = JSON.parse(text);
-        }
+        const { value } = await withResponseCache(
+            {
+                operation: 'variantRewrite',
+                label: originalDesign.concept,
+                models: models.variantRewrite.map(e => e.model),
+                keyParts: { provider: getProvider().id, systemInstruction: agentPrompt, originalPrompt: originalMeta.prompt, count },
+                mode: cacheMode,
+                cacheable: list => list.length > 0
+            },
+            () => withFallback(
+                models.variantRewrite,
+                async model => recordTextSpend(
+                    await getProvider().rewritePrompts({
+                        model,
+                        systemInstruction: agentPrompt,
+                        originalPrompt: originalMeta.prompt,
+                        count
+                    }),
+                    model, 'variantRewrite', library.pricing, agentPrompt.length + originalMeta.prompt.length
+                ),
+                "Rewrite Variant Prompts"
+            )
+        );
+        newPrompts = value;
     } catch (e) {
+        const aiError = toAIError(e);
+        if (aiError.kind !== 'parse') throw aiError;
         console.error("Failed to parse variant prompts", e);
         // Fallback: Just use original prompt
         newPrompts = Array(count).fill(originalMeta.prompt + " (Variant)");
     }
+    return newPrompts.slice(0, count);
+};
+
+/**
+ * Variant step 2: renders one rewritten prompt with the original reference images.
+ * Returns null when the model produced no image.
+ */
+export const generateVariantDesign = async (
+  originalDesign: GeneratedDesign,
+  newPrompt: string,
+  idx: number,
+  library: Library,
+  cacheMode: CacheMode = 'use'
+): Promise<GeneratedDesign | null> => {
+    const originalMeta = originalDesign.generationMetadata;
+    if (!originalMeta) throw new AIError('badRequest', "Missing metadata for variant generation");
 
-    // Step 2: Generate Images for each prompt
-    const proModelName = "gemini-3-pro-image-preview";
     const imageSize = originalMeta.imageSize || "1K";
-    const generatedVariants: GeneratedDesign[] = [];
+    const aspectRatio = originalMeta.aspectRatio || DEFAULT_ASPECT_RATIO;
 
     // Reconstruct parts: Images first, then new prompt text
-    const baseParts: any[] = [];
+    const parts: ContentPart[] = [];
     // Reuse reference images from original metadata
     if (originalMeta.referenceImages) {
         for (const img of originalMeta.referenceImages) {
-             baseParts.push({ inlineData: { mimeType: img.mimeType, data: img.data } });
+             parts.push({ inlineData: { mimeType: img.mimeType, data: img.data } });
         }
     }
+    parts.push({ text: newPrompt });
+
+    console.log(`[CaseCraft] Generating variant image ${idx + 1}...`);
+    const { value: generated, hit } = await withResponseCache(
+        {
+            operation: 'imageGenerate',
+            label: `${originalDesign.concept} (Var ${idx + 1})`,
+            models: library.models.imageGenerate.map(e => e.model),
+            keyParts: {
+                provider: getProvider().id,
+                prompt: newPrompt,
+                referenceImages: await hashReferenceImages(originalMeta.referenceImages || []),
+                imageSize,
+                aspectRatio
+            },
+            mode: cacheMode,
+            store: isImageCacheEnabled()
+        },
+        () => withFallback(
+            library.models.imageGenerate,
+            async model => {
+                const image = await getProvider().generateImage({
+                    model,
+                    parts,
+                    aspectRatio,
+                    imageSize: imageSize,
+                    concept: originalDesign.concept
+                });
+                return image ? { result: image, model } : null;
+            },
+            "Generate Variant Image",
+            IMAGE_CALLS_RETRY_EACH_MODEL
+        )
+    );
+    if (!generated) return null;
+    const { result, model: modelUsed } = generated;
+
+    // Metadata for the new variant
+    const usageMeta: UsageMetadata = {
+        promptTokens: result.usage?.promptTokens || 0,
+        candidatesTokens: result.usage?.candidatesTokens || 0,
+        totalTokens: result.usage?.totalTokens || 0
+    };
+    const costInfo = calculateEstCost(usageMeta, modelUsed, library.pricing, imageSize);
+    if (!hit) recordSpend(costInfo, modelUsed, 'imageGenerate');
 
-    const tasks = newPrompts.slice(0, count).map(async (newPrompt, idx) => {
-        const parts = [...baseParts, { text: newPrompt }];
-        
-        try {
-            console.log(`[CaseCraft] Generating variant image ${idx + 1}/${count}...`);
-            const response = await ai.models.generateContent({
-                model: proModelName,
-                contents: { parts },
-                config: {
-                    imageConfig: {
-                        aspectRatio: "9:16",
-                        imageSize: imageSize
-                    }
-                }
-            });
-
-            // Extract Result
-            if (response.candidates && response.candidates[0].content.parts) {
-                for (const part of response.candidates[0].content.parts) {
-                    if (part.inlineData && part.inlineData.data) {
-                        
-                        // Metadata for the new variant
-                        const usageMeta: UsageMetadata = {
-                            promptTokens: response.usageMetadata?.promptTokenCount || 0,
-                            candidatesTokens: response.usageMetadata?.candidatesTokenCount || 0,
-                            totalTokens: response.usageMetadata?.totalTokenCount || 0
-                        };
-                        const costInfo = calculateEstCost(usageMeta, proModelName);
-
-                        const variantDesign: GeneratedDesign = {
-                            id: `${originalDesign.id}-var-${idx}-${Date.now()}`,
-                            imageUrl: `data:image/png;base64,${part.inlineData.data}`,
-                            concept: `${originalDesign.concept} (Var ${idx + 1})`,
-                            configSummary: originalDesign.configSummary, // Inherit config name
-                            timestamp: Date.now(),
-                            generationMetadata: {
-                                prompt: newPrompt,
-                                referenceImages: originalMeta.referenceImages, // Inherit refs
-                                model: proModelName,
-                                usage: usageMeta,
-                                cost: costInfo,
-                                imageSize: imageSize
-                            }
-                        };
-                        return variantDesign;
-                    }
-                }
-            }
-        } catch (e) {
-            console.error(`Variant ${idx} generation failed`, e);
+    return {
+        id: `${originalDesign.id}-var-${idx}-${Date.now()}`,
+        imageUrl: `data:${result.image.mimeType};base64,${result.image.data}`,
+        concept: `${originalDesign.concept} (Var ${idx + 1})`,
+        configSummary: originalDesign.configSummary, // Inherit config name
+        timestamp: Date.now(),
+        generationMetadata: {
+            prompt: newPrompt,
+            referenceImages: originalMeta.referenceImages, // Inherit refs
+            model: modelUsed,
+            usage: usageMeta,
+            cost: costInfo,
+            imageSize: imageSize,
+            aspectRatio,
+            cacheHit: hit || undefined
         }
-        return null;
-    });
-
-    const results = await Promise.all(tasks);
-    return results.filter(r => r !== null) as GeneratedDesign[];
+    };
 };
 
-export const analyzeStartImage = async (imageBase64: string, prompts: SystemPrompts): Promise<string> => {
+export const analyzeStartImage = async (imageBase64: string, prompts: SystemPrompts, models: ModelRegistry, pricing: PricingTable, cacheMode: CacheMode = 'use'): Promise<string> => {
     const base64Data = imageBase64.split(',')[1] || imageBase64;
     // Normalize analysis image to JPEG to be safe
     const { data: resizedData, mimeType } = await resizeImageBase64(base64Data, "image/png", 800);
     
-    const execute = async (model: string) => {
-        const response = await getAI().models.generateContent({
+    const execute = async (model: string) => recordTextSpend(
+        await getProvider().analyzeImage({
             model,
-            contents: {
-                parts: [
-                    { inlineData: { mimeType, data: resizedData } },
-                    { text: prompts.imageAnalysis }
-                ]
-            }
-        });
-        return response.text?.trim() || "艺术设计";
-    };
+            prompt: prompts.imageAnalysis,
+            image: { mimeType, data: resizedData }
+        }),
+        model, 'analyze', pricing, prompts.imageAnalysis.length, 1
+    );
     try {
-        return await withFallback(
-            () => execute("gemini-2.5-flash"),
-            async () => {
-                await new Promise(r => setTimeout(r, 1000));
-                return execute("gemini-3-pro-preview");
+        const { value } = await withResponseCache(
+            {
+                operation: 'analyze',
+                label: '参考图分析',
+                models: models.analyze.map(e => e.model),
+                keyParts: { provider: getProvider().id, prompt: prompts.imageAnalysis, image: await hashText(base64Data) },
+                mode: cacheMode
             },
-            "Analyze Image"
+            () => withFallback(models.analyze, execute, "Analyze Image")
         );
+        return value;
     } catch (e) {
-        return "创意设计";
+        console.error("Image analysis failed:", e);
+        throw toAIError(e);
     }
 }
 
 /**
- * Diagnostics: List available models for the current API Key
+ * Diagnostics: List available models for the current API Key (or proxy)
  * Note: This uses the REST API directly for diagnostics as the SDK 
  * focuses on generation. This helps verify key permissions.
  */
 export const listGeminiModels = async (): Promise<any[]> => {
     try {
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${process.env.API_KEY}`, {
+        // Key goes in a header, never the query string (URLs end up in logs and history)
+        const response = await fetch(geminiRestUrl('/v1beta/models'), {
             method: 'GET',
             headers: {
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                'x-goog-api-key': getGeminiConnection().apiKey
             }
         });
         
@@ -633,13 +659,13 @@ export const listGeminiModels = async (): Promise<any[]> => {
                 const text = await response.text();
                 if (text) errorMsg += `: ${text}`;
             }
-            throw new Error(errorMsg);
+            throw toAIError({ status: response.status, message: errorMsg });
         }
         
         const data = await response.json();
         return data.models || [];
     } catch (e: any) {
         console.error("Failed to list models", e);
-        throw e;
+        throw toAIError(e);
     }
 };
@@ -0,0 +1,172 @@
+import { GenerationJob } from "../types";
+import { AIError, describeAIError, isRetryableKind, toAIError } from "./aiErrors";
+
+/**
+ * Concurrency-limited queue for image generation jobs.
+ * Transient failures (quota, overload, network) are retried with exponential
+ * backoff up to `maxAttempts`; safety blocks and bad requests fail immediately.
+ * A cancelled running job keeps its slot until the underlying call settles.
+ * Its result is still delivered (and the job marked `lateResult`): by then
+ * the image has been generated and billed, so dropping it would waste the spend.
+ */
+
+export interface JobSpec<T> {
+    kind: GenerationJob['kind'];
+    label: string;
+    run: () => Promise<T | null>;
+    onSuccess: (result: T) => void;
+    // Called whenever the job is queued; the returned release runs once it has nothing left to run
+    reserve?: () => () => void;
+}
+
+export interface JobQueueOptions {
+    concurrency: number;
+    maxAttempts: number;
+    backoffMs: number; // Base delay, doubled on each further attempt
+}
+
+interface JobEntry {
+    job: GenerationJob;
+    spec: JobSpec<any>;
+    timer?: ReturnType<typeof setTimeout>;
+    inFlight: boolean;
+    release?: () => void;
+}
+
+export const createJobQueue = (options: JobQueueOptions) => {
+    let { concurrency } = options;
+    const entries: JobEntry[] = [];
+    const listeners = new Set<() => void>();
+    let seq = 0;
+
+    const notify = () => listeners.forEach(fn => fn());
+
+    const update = (entry: JobEntry, patch: Partial<GenerationJob>) => {
+        entry.job = { ...entry.job, ...patch };
+    };
+
+    const release = (entry: JobEntry) => {
+        entry.release?.();
+        entry.release = undefined;
+    };
+
+    // Slots are held by any call still in flight, including cancelled ones
+    const activeCount = () => entries.filter(e => e.inFlight).length;
+
+    const pump = () => {
+        for (const entry of entries) {
+            if (activeCount() >= concurrency) break;
+            if (entry.job.status === 'queued' && !entry.timer && !entry.inFlight) {
+                start(entry);
+            }
+        }
+        notify();
+    };
+
+    const start = (entry: JobEntry) => {
+        entry.inFlight = true;
+        update(entry, { status: 'running', attempts: entry.job.attempts + 1, startedAt: Date.now(), nextRetryAt: undefined });
+
+        entry.spec.run()
+            .then(result => {
+                if (result === null || result === undefined) throw new AIError('unknown', "模型未返回图片");
+                const late = entry.job.status === 'cancelled';
+                update(entry, { status: 'succeeded', finishedAt: Date.now(), lateResult: late || undefined });
+                entry.spec.onSuccess(result);
+            })
+            .catch(e => {
+                console.error(`[JobQueue] ${entry.job.label} attempt ${entry.job.attempts} failed`, e);
+                if (entry.job.status !== 'running') return;
+                const error = toAIError(e);
+                const message = describeAIError(error);
+                if (isRetryableKind(error.kind) && entry.job.attempts < entry.job.maxAttempts) {
+                    const wait = options.backoffMs * Math.pow(2, entry.job.attempts - 1);
+                    update(entry, { status: 'queued', error: message, errorKind: error.kind, nextRetryAt: Date.now() + wait });
+                    entry.timer = setTimeout(() => {
+                        entry.timer = undefined;
+                        pump();
+                    }, wait);
+                } else {
+                    update(entry, { status: 'failed', error: message, errorKind: error.kind, finishedAt: Date.now() });
+                }
+            })
+            .finally(() => {
+                entry.inFlight = false;
+                // Waiting out a backoff still counts as queued
+                if (entry.job.status !== 'queued') release(entry);
+                pump();
+            });
+    };
+
+    const cancelEntry = (entry: JobEntry) => {
+        if (entry.job.status !== 'queued' && entry.job.status !== 'running') return;
+        if (entry.timer) {
+            clearTimeout(entry.timer);
+            entry.timer = undefined;
+        }
+        update(entry, { status: 'cancelled', finishedAt: Date.now(), nextRetryAt: undefined });
+        // A call still in flight may yet be billed, so its reservation lasts until it settles
+        if (!entry.inFlight) release(entry);
+    };
+
+    return {
+        enqueue<T>(spec: JobSpec<T>): string {
+            const id = `job-${Date.now()}-${seq++}`;
+            entries.push({
+                spec,
+                inFlight: false,
+                release: spec.reserve?.(),
+                job: { id, kind: spec.kind, label: spec.label, status: 'queued', attempts: 0, maxAttempts: options.maxAttempts, createdAt: Date.now() }
+            });
+            pump();
+            return id;
+        },
+
+        // Manual retry of a failed / cancelled job starts a fresh attempt budget
+        retry(id: string) {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) return;
+            update(entry, { status: 'queued', attempts: 0, error: undefined, errorKind: undefined, finishedAt: undefined, lateResult: undefined });
+            if (!entry.release) entry.release = entry.spec.reserve?.();
+            pump();
+        },
+
+        cancel(id: string) {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry) return;
+            cancelEntry(entry);
+            pump();
+        },
+
+        cancelAll() {
+            entries.forEach(cancelEntry);
+            pump();
+        },
+
+        clearFinished() {
+            for (let i = entries.length - 1; i >= 0; i--) {
+                const { status } = entries[i].job;
+                if ((status === 'succeeded' || status === 'failed' || status === 'cancelled') && !entries[i].inFlight) {
+                    entries.splice(i, 1);
+                }
+            }
+            notify();
+        },
+
+        setConcurrency(n: number) {
+            concurrency = Math.max(1, n);
+            pump();
+        },
+
+        subscribe(listener: () => void) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        getJobs(): GenerationJob[] {
+            return entries.map(e => e.job);
+        }
+    };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,82 @@
+import { LayoutCommand, LayoutTick, SimLink, SimNode } from "./forceLayout";
+
+/**
+ * Page-side handle on forceLayout.worker.ts. Ticks are written straight into the
+ * node objects passed to `load`, except pinned (held) nodes, whose
+ * positions belong to the pointer.
+ */
+
+// Below this many nodes a main-thread step is cheaper than the round trip
+export const WORKER_NODE_THRESHOLD = 300;
+
+export interface LayoutWorker {
+    load: (nodes: SimNode[], links: SimLink[]) => void;
+    pin: (nodes: SimNode[]) => void;
+    wake: () => void;
+    dispose: () => void;
+}
+
+// Null when workers are unavailable; the caller then steps on the main thread
+export const createLayoutWorker = (onSettled: () => void, onError: () => void): LayoutWorker | null => {
+    if (typeof Worker === 'undefined') return null;
+    let worker: Worker;
+    try {
+        worker = new Worker(new URL('./forceLayout.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+        console.warn("Layout worker unavailable, using the main thread:", e);
+        return null;
+    }
+
+    let generation = 0;
+    let loaded: SimNode[] = [];
+    let pinnedIds = new Set<string>();
+    let running = false;
+
+    const send = (command: LayoutCommand) => {
+        running = true;
+        worker.postMessage(command);
+    };
+
+    worker.onmessage = (e: MessageEvent<LayoutTick>) => {
+        const { state, settled } = e.data;
+        if (e.data.generation !== generation) return; // Tick for a world we have since replaced
+        loaded.forEach((n, i) => {
+            if (pinnedIds.has(n.id)) return;
+            n.x = state[i * 4];
+            n.y = state[i * 4 + 1];
+            n.vx = state[i * 4 + 2];
+            n.vy = state[i * 4 + 3];
+        });
+        running = !settled;
+        if (settled) onSettled();
+    };
+
+    worker.onerror = (e) => {
+        console.error("Layout worker failed:", e.message);
+        running = false;
+        onError();
+    };
+
+    return {
+        load: (nodes, links) => {
+            generation += 1;
+            loaded = nodes;
+            pinnedIds = new Set(); // The worker unpins on load; the caller pins again on its next frame
+            send({
+                type: 'load',
+                generation,
+                nodes: nodes.map(({ id, x, y, vx, vy, radius, isPinned }) => ({ id, x, y, vx, vy, radius, isPinned })),
+                links: links.map(({ source, target }) => ({ source, target }))
+            });
+        },
+        pin: (nodes) => {
+            if (nodes.length === 0 && pinnedIds.size === 0) return;
+            pinnedIds = new Set(nodes.map(n => n.id));
+            send({ type: 'pin', nodes: nodes.map(({ id, x, y }) => ({ id, x, y })) });
+        },
+        wake: () => {
+            if (!running) send({ type: 'wake' });
+        },
+        dispose: () => worker.terminate()
+    };
+};
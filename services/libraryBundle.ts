@@ -0,0 +1,275 @@
+import { Library } from "../types";
+import { getAsset } from "./db";
+import { LIBRARY_COLLECTIONS, LibraryCollection } from "./dbMigrations";
+import { storeAssetBlob } from "./assetStore";
+import { assignSection } from "./librarySections";
+import { stableStringify } from "./responseCache";
+import { ZipEntry, createZip, readZip } from "./zip";
+
+/**
+ * Portable library bundles: a zip holding `manifest.json` plus one file per asset.
+ * Import merges by id; conflicting items are resolved per item.
+ */
+
+export type BundleSection = LibraryCollection | 'prompts' | 'models' | 'pricing' | 'brainstorm';
+
+export const BUNDLE_SECTIONS: { key: BundleSection, label: string }[] = [
+    { key: 'devices', label: '机型库' },
+    { key: 'materials', label: '手机壳底材' },
+    { key: 'processes', label: '工艺配置' },
+    { key: 'styles', label: '风格库' },
+    { key: 'mainDiamondColors', label: '水钻主色' },
+    { key: 'secondaryDiamondColors', label: '水钻副色' },
+    { key: 'prompts', label: '提示词配置' },
+    { key: 'models', label: '模型配置' },
+    { key: 'pricing', label: '计费配置' },
+    { key: 'brainstorm', label: '脑暴设置' },
+];
+
+const BUNDLE_FORMAT = 'casecraft-library';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface BundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: number;
+    sections: BundleSection[];
+    library: Partial<Library>;
+    assets: Record<string, string>; // assetId -> path inside the zip
+}
+
+export interface LibraryBundle {
+    manifest: BundleManifest;
+    assets: Map<string, Blob>;
+}
+
+export class LibraryBundleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LibraryBundleError';
+    }
+}
+
+const isCollection = (section: BundleSection): section is LibraryCollection =>
+    (LIBRARY_COLLECTIONS as readonly string[]).includes(section);
+
+type BundleItem = { id: string, name?: string, previewUrl?: string, assetId?: string, deviceId?: string };
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+/**
+ * Export the chosen sections. Asset-backed images travel as files; object URLs are dropped.
+ */
+export const exportLibraryBundle = async (library: Library, sections: BundleSection[]): Promise<Blob> => {
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: Date.now(),
+        sections,
+        library: {},
+        assets: {}
+    };
+    const files: ZipEntry[] = [];
+
+    for (const section of sections) {
+        if (!isCollection(section)) {
+            assignSection(manifest.library, section, library[section]);
+            continue;
+        }
+        const items = library[section] as BundleItem[];
+        assignSection(manifest.library, section, items.map(item => item.assetId ? { ...item, previewUrl: '' } : item) as Library[typeof section]);
+        for (const item of items) {
+            if (!item.assetId || manifest.assets[item.assetId]) continue;
+            const asset = await getAsset(item.assetId);
+            if (!asset) continue;
+            const path = `assets/${item.assetId}.${EXTENSIONS[asset.blob.type] || 'bin'}`;
+            manifest.assets[item.assetId] = path;
+            files.push({ path, data: new Uint8Array(await asset.blob.arrayBuffer()) });
+        }
+    }
+
+    const manifestFile = { path: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) };
+    return createZip([manifestFile, ...files]);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Everything import touches is checked here, so a hand-edited manifest fails with a message instead of mid-merge
+const validateManifest = (manifest: unknown): BundleManifest => {
+    if (!isRecord(manifest) || manifest.format !== BUNDLE_FORMAT) throw new LibraryBundleError('不是 CaseCraft 配置包');
+    if (typeof manifest.version !== 'number') throw new LibraryBundleError('manifest.json 缺少版本号');
+    if (manifest.version > BUNDLE_VERSION) throw new LibraryBundleError(`配置包版本 v${manifest.version} 过新，请先升级应用`);
+    if (!isRecord(manifest.library)) throw new LibraryBundleError('manifest.json 缺少 library 对象');
+    if (!Array.isArray(manifest.sections)) throw new LibraryBundleError('manifest.json 缺少 sections 列表');
+    if (manifest.assets !== undefined && (!isRecord(manifest.assets) || Object.values(manifest.assets).some(path => typeof path !== 'string'))) {
+        throw new LibraryBundleError('manifest.json 中的 assets 格式无效');
+    }
+
+    for (const section of manifest.sections) {
+        if (!BUNDLE_SECTIONS.some(s => s.key === section)) throw new LibraryBundleError(`未知的配置分区 "${String(section)}"`);
+        const value = manifest.library[section as BundleSection];
+        if (value === undefined) continue;
+        if (!isCollection(section as BundleSection)) {
+            if (!isRecord(value)) throw new LibraryBundleError(`分区 ${section} 应为对象`);
+            continue;
+        }
+        if (!Array.isArray(value)) throw new LibraryBundleError(`分区 ${section} 应为数组`);
+        if (value.some(item => !isRecord(item) || typeof item.id !== 'string' || !item.id)) {
+            throw new LibraryBundleError(`分区 ${section} 中有缺少 id 的条目`);
+        }
+    }
+    return manifest as unknown as BundleManifest;
+};
+
+export const readLibraryBundle = async (file: Blob): Promise<LibraryBundle> => {
+    let files: Map<string, Uint8Array>;
+    try {
+        files = await readZip(file);
+    } catch (e) {
+        throw new LibraryBundleError(e instanceof Error ? e.message : String(e));
+    }
+    const raw = files.get(MANIFEST_PATH);
+    if (!raw) throw new LibraryBundleError('压缩包中缺少 manifest.json');
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(new TextDecoder().decode(raw));
+    } catch {
+        throw new LibraryBundleError('manifest.json 不是有效的 JSON');
+    }
+    const manifest = validateManifest(parsed);
+
+    const assets = new Map<string, Blob>();
+    for (const [assetId, path] of Object.entries(manifest.assets || {})) {
+        const data = files.get(path);
+        const ext = path.split('.').pop() || '';
+        const type = Object.keys(EXTENSIONS).find(mime => EXTENSIONS[mime] === ext) || '';
+        if (data) assets.set(assetId, new Blob([data], { type }));
+    }
+    return { manifest, assets };
+};
+
+// --- Import planning ---
+
+export type ConflictResolution = 'overwrite' | 'skip' | 'keepBoth';
+
+export interface ImportItemPlan {
+    key: string; // `${section}:${id}`, used to look up the chosen resolution
+    section: BundleSection;
+    id: string;
+    name: string;
+    status: 'new' | 'identical' | 'conflict';
+}
+
+export interface ImportSummary {
+    added: number;
+    overwritten: number;
+    duplicated: number;
+    skipped: number;
+}
+
+// Object URLs and asset ids are local details, compare the rest
+const comparable = (value: any) =>
+    stableStringify(value && typeof value === 'object' && 'previewUrl' in value && value.assetId ? { ...value, previewUrl: '' } : value);
+
+export const planImport = (library: Library, bundle: LibraryBundle): ImportItemPlan[] => {
+    const plan: ImportItemPlan[] = [];
+    for (const section of bundle.manifest.sections) {
+        const incoming = bundle.manifest.library[section];
+        if (incoming === undefined) continue;
+        const label = BUNDLE_SECTIONS.find(s => s.key === section)?.label || section;
+
+        if (!isCollection(section)) {
+            const status = comparable(library[section]) === comparable(incoming) ? 'identical' : 'conflict';
+            plan.push({ key: `${section}:${section}`, section, id: section, name: label, status });
+            continue;
+        }
+        for (const item of incoming as BundleItem[]) {
+            const existing = (library[section] as BundleItem[]).find(i => i.id === item.id);
+            const status = !existing ? 'new' : comparable(existing) === comparable(item) ? 'identical' : 'conflict';
+            plan.push({ key: `${section}:${item.id}`, section, id: item.id, name: item.name || item.id, status });
+        }
+    }
+    return plan;
+};
+
+/**
+ * Merge a bundle into the library. Conflicts use `resolutions[item.key]`, falling back
+ * to `fallback`; settings sections cannot be kept twice, so `keepBoth` skips them.
+ */
+export const applyImport = async (
+    library: Library,
+    bundle: LibraryBundle,
+    plan: ImportItemPlan[],
+    resolutions: Record<string, ConflictResolution>,
+    fallback: ConflictResolution
+): Promise<{ library: Library, summary: ImportSummary }> => {
+    const summary: ImportSummary = { added: 0, overwritten: 0, duplicated: 0, skipped: 0 };
+    const next: Library = { ...library };
+
+    // Assets are re-hashed locally, ids normally stay the same
+    const assetMap = new Map<string, { assetId: string, url: string }>();
+    for (const [assetId, blob] of bundle.assets) assetMap.set(assetId, await storeAssetBlob(blob));
+
+    // Devices first, so materials can follow devices that were imported under a new id
+    const deviceIdMap = new Map<string, string>();
+    const suffix = Date.now().toString(36);
+    const ordered = [...bundle.manifest.sections].sort((a, b) => (a === 'devices' ? -1 : 0) - (b === 'devices' ? -1 : 0));
+
+    for (const section of ordered) {
+        const incoming = bundle.manifest.library[section];
+        if (incoming === undefined) continue;
+
+        if (!isCollection(section)) {
+            const item = plan.find(p => p.key === `${section}:${section}`);
+            const resolution = resolutions[`${section}:${section}`] || fallback;
+            if (item?.status !== 'conflict' || resolution !== 'overwrite') {
+                if (item?.status === 'conflict') summary.skipped++;
+                continue;
+            }
+            if (section === 'pricing') {
+                // Keep the version counter monotonic, as a local save would
+                next.pricing = { ...incoming as Library['pricing'], version: library.pricing.version + 1, updatedAt: Date.now() };
+            } else {
+                assignSection(next, section, { ...library[section], ...incoming as object } as Library[typeof section]);
+            }
+            summary.overwritten++;
+            continue;
+        }
+
+        let items = [...(library[section] as BundleItem[])];
+        for (const raw of incoming as BundleItem[]) {
+            const asset = raw.assetId ? assetMap.get(raw.assetId) : undefined;
+            let item: BundleItem = asset ? { ...raw, assetId: asset.assetId, previewUrl: asset.url } : { ...raw };
+            if (section === 'materials' && item.deviceId && deviceIdMap.has(item.deviceId)) {
+                item = { ...item, deviceId: deviceIdMap.get(item.deviceId) };
+            }
+
+            const entry = plan.find(p => p.key === `${section}:${raw.id}`);
+            if (entry?.status === 'identical') continue;
+            if (entry?.status !== 'conflict') {
+                items.push(item);
+                summary.added++;
+                continue;
+            }
+
+            const resolution = resolutions[entry.key] || fallback;
+            if (resolution === 'overwrite') {
+                items = items.map(i => i.id === item.id ? item : i);
+                summary.overwritten++;
+            } else if (resolution === 'keepBoth') {
+                const id = `${item.id}-import-${suffix}`;
+                if (section === 'devices') deviceIdMap.set(item.id, id);
+                items.push({ ...item, id, name: `${item.name || item.id} (导入)` });
+                summary.duplicated++;
+            } else {
+                summary.skipped++;
+            }
+        }
+        assignSection(next, section, items as Library[typeof section]);
+    }
+
+    return { library: next, summary };
+};
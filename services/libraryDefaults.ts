@@ -0,0 +1,206 @@
+import { BrainstormSettings, CacheSettings, DeviceModel, DiamondColor, Library, ModelRegistry, PricingTable, SpendBudget, SystemPrompts } from "../types";
+
+/**
+ * The library a fresh install starts with. Saved libraries never fall back to
+ * these at load time: a section added after release gets a step in
+ * dbMigrations.ts that writes its default into existing databases.
+ */
+
+export const DEFAULT_PROMPTS: SystemPrompts = {
+    imageAnalysis: "分析这张图片，用中文提供一个简短的词语（1-3个词）来概括其核心视觉主题或对象。这将作为头脑风暴的种子词。",
+    // Updated prompt: Strongly enforces language-specific logic paths.
+    brainstormRoot: `你是一个设计灵感联想引擎。请根据用户输入的核心词，输出JSON对象 { "up": [], "side": [], "down": [] }。
+
+**1. 语言与逻辑一致性规则 (CRITICAL)**:
+- **当输入是中文时**: 输出必须是**中文**。逻辑模式 = **具象视觉名词** (Visual Nouns)。
+- **当输入是英文时**: 输出必须是**英文**。逻辑模式 = **口号、梗、氛围感、态度** (Slogans, Phrases, Vibes). **DO NOT output simple nouns.**
+
+**2. 联想维度**:
+
+*   **Up (上级)** [3-4个]:
+    *   CN: 归属类别、宏观风格 (e.g. "水果", "赛博朋克").
+    *   EN: Core Concept, Broad Theme (e.g. "Rebellion", "Healthy Life").
+
+*   **Side (同级)** [6-9个]:
+    *   CN: 强相关意象、相似物、CP组合 (e.g. "胡萝卜", "月球").
+    *   EN: Synonyms, Related Slang, Contextual Phrases (e.g. "Bunny Hop", "Carrot Lover", "Easter").
+
+*   **Down (下级/变体)** [3-5个]:
+    *   **CN 逻辑 (Visual Nouns)**: 特定形态、视觉变体、文化符号。
+        - ❌ 禁止: 肢体部位 (尾巴, 耳朵, 爪子).
+        - ✅ 示例: 苹果 -> [苹果切面, 青苹果, 毒苹果, 糖葫芦].
+        
+    *   **EN 逻辑 (Slogans & Vibes)**: **Specific Phrases, Attitudes, Text Graphic Ideas, Cultural Memes.**
+        - ❌ Ban: Simple nouns (e.g., "Apple", "Stem").
+        - ✅ Examples:
+            - "Rabbit" -> ["Don't Touch My Ears", "Hop Fast", "Bad Bunny", "Fluffy Logic"]
+            - "Coffee" -> ["Monday Mood", "Caffeine Loading", "Espresso Yourself"]
+
+**Strict JSON Output only.**`,
+    
+    brainstormBase: `You are an AI visual design assistant. Output strict JSON object with keys: up, side, down. Follow language-specific constraints.`,
+    designGeneration: `电商白底手机壳背面产品图，在图1的手机壳上使用图2的工艺{{processName}}，保持手机壳镂空的孔位完全和图1一致 ，加入{{concept}}，{{processDesc}}。风格是{{styleName}} ({{stylePrompt}}){{#if deviceNotes}}。{{deviceNotes}}{{/if}}`,
+    // Diamond processes: colors come from the diamond pickers instead of a process texture image
+    diamondGeneration: `在图1的手机壳上使用满钻贴钻工艺，手机壳的侧面不贴水钻。在手机壳上加入“{{concept}}”图案，图形没有线条，“{{concept}}”图案完全由水钻组成。
+{{#if mainDiamondColor}}{{#if secondaryDiamondColors}}请参考刚传入的“水钻主色”图片作为手机壳的整体背景底色。{{else}}请参考刚传入的“水钻主色”图片作为手机壳的**背景底色**。⚠️重要：此颜色仅作为背景（Negative Space），**绝对不要**影响“{{concept}}”图案本身的配色。由于未指定图案颜色，请你自由发挥，为“{{concept}}”图案设计鲜明、丰富且美观的颜色，使其与背景形成强烈对比。{{/if}}{{/if}}
+{{#if secondaryDiamondColors}}图案水钻的颜色主要由{{secondaryDiamondColors | quote | join: "、"}}组成。{{/if}}
+{{#if deviceNotes}}{{deviceNotes}}{{/if}}`,
+    variantDesigner: `你是一位高级手机壳设计师。你的任务是基于原有的“设计提示词”，针对核心概念 {{concept}} 设计 {{count}} 个全新的变体方案。
+
+**严格约束 (Constraints):**
+1.  **保留背景与工艺**: 必须保留原提示词中关于“手机壳材质”、“背景颜色”、“底色”和“工艺类型 (如满钻、浮雕、镭雕)”的描述。不要改变这些物理属性。
+2.  **重构图案**: 彻底重新设计关于 {{concept}} 的视觉表现。
+    *   **布局变化**: 尝试不同的构图（如：单个大图居中、满版重复排列、对角线构图、边框式构图）。
+    *   **颜色变化**: 为图案（非背景）尝试全新的配色方案，确保与背景形成美观的对比。
+    *   **风格微调**: 在保持原工艺前提下，尝试不同的艺术风格（如：更抽象、更写实、像素化、线条化）。
+
+**Output Format:**
+返回一个 JSON 字符串数组 (Array of Strings)，包含 {{count}} 个完整的、可直接用于绘画的 Prompt。不要包含 JSON 以外的任何解释性文字。`
+};
+
+// Ordered model fallback chains per operation (editable in Settings)
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+    associate: [
+        { model: 'gemini-2.5-flash', retries: 0, delayMs: 0 },
+        { model: 'gemini-3-pro-preview', retries: 0, delayMs: 1000 }
+    ],
+    analyze: [
+        { model: 'gemini-2.5-flash', retries: 0, delayMs: 0 },
+        { model: 'gemini-3-pro-preview', retries: 0, delayMs: 1000 }
+    ],
+    variantRewrite: [
+        { model: 'gemini-2.5-flash', retries: 0, delayMs: 0 }
+    ],
+    imageGenerate: [
+        { model: 'gemini-3-pro-image-preview', retries: 1, delayMs: 3000 }
+    ]
+};
+
+// Published Gemini API prices (USD). Image models bill output per generated image.
+export const DEFAULT_PRICING: PricingTable = {
+    version: 1,
+    updatedAt: 0,
+    currency: 'CNY',
+    exchangeRate: 7.25,
+    models: [
+        { model: 'gemini-2.5-flash', inputPerMillion: 0.30, outputPerMillion: 2.50 },
+        { model: 'gemini-3-pro-preview', inputPerMillion: 2.00, outputPerMillion: 12.00 },
+        { model: 'gemini-2.5-flash-image', inputPerMillion: 0.30, outputPerMillion: 30.00, imagePrices: { '1K': 0.039 } },
+        { model: 'gemini-3-pro-image-preview', inputPerMillion: 2.00, outputPerMillion: 120.00, imagePrices: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } }
+    ]
+};
+
+// No limits until a lead configures them in Settings
+export const DEFAULT_BUDGET: SpendBudget = {
+    currency: 'CNY',
+    session: 0,
+    daily: 0,
+    weekly: 0,
+    mode: 'warn'
+};
+
+// Brainstorm / analysis / rewrite responses are cached; images only when opted in
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+    enabled: true,
+    cacheImages: false,
+    maxSizeMB: 200
+};
+
+// Expansion prompts carry the path from the root; deep trees keep only the nearest ancestors
+export const DEFAULT_BRAINSTORM_SETTINGS: BrainstormSettings = {
+    contextDepth: 4
+};
+
+// Phone models a case can target; promptNotes carry device-specific wording into generation prompts
+export const DEFAULT_DEVICES: DeviceModel[] = [
+    {
+        id: 'dev_iphone15pro',
+        name: 'iPhone 15 Pro',
+        aliases: ['15 Pro', '15p'],
+        aspectRatio: '9:16',
+        cameraShape: 'square',
+        cameraPosition: 'top-left',
+        cutouts: [
+            { kind: 'button', side: 'left', label: '操作按钮' },
+            { kind: 'button', side: 'left', label: '音量键' },
+            { kind: 'button', side: 'right', label: '电源键' },
+            { kind: 'port', side: 'bottom', label: 'USB-C' },
+        ],
+        promptNotes: ''
+    },
+    {
+        id: 'dev_iphone16pro',
+        name: 'iPhone 16 Pro',
+        aliases: ['16 Pro', '16p'],
+        aspectRatio: '9:16',
+        cameraShape: 'square',
+        cameraPosition: 'top-left',
+        cutouts: [
+            { kind: 'button', side: 'left', label: '操作按钮' },
+            { kind: 'button', side: 'left', label: '音量键' },
+            { kind: 'button', side: 'right', label: '电源键' },
+            { kind: 'button', side: 'right', label: '相机控制' },
+            { kind: 'port', side: 'bottom', label: 'USB-C' },
+        ],
+        promptNotes: ''
+    },
+    {
+        id: 'dev_iphone17pro',
+        name: 'iPhone 17 Pro',
+        aliases: ['17 Pro', '17p'],
+        aspectRatio: '9:16',
+        cameraShape: 'bar',
+        cameraPosition: 'top-full-width',
+        cutouts: [
+            { kind: 'button', side: 'left', label: '操作按钮' },
+            { kind: 'button', side: 'left', label: '音量键' },
+            { kind: 'button', side: 'right', label: '电源键' },
+            { kind: 'button', side: 'right', label: '相机控制' },
+            { kind: 'port', side: 'bottom', label: 'USB-C' },
+        ],
+        promptNotes: '保留图1的“横向贯穿式”设计后置摄像头模组，摄像头不局限于背部左上角，而是一条横跨手机背部上方的矩形凸起区域。'
+    },
+];
+
+// Mock assets for diamond colors
+export const DEFAULT_MAIN_DIAMOND_COLORS: DiamondColor[] = [
+    { id: 'dc_white', name: '白钻 (White)', previewUrl: 'assets/p4.png' },
+    { id: 'dc_pink', name: '粉钻 (Pink)', previewUrl: 'assets/m3.png' },
+    { id: 'dc_black', name: '黑钻 (Black)', previewUrl: 'assets/m2.png' },
+];
+
+export const DEFAULT_SECONDARY_DIAMOND_COLORS: DiamondColor[] = [
+    { id: 'dc_blue', name: '浅蓝 (Sapphire)', previewUrl: 'assets/p3.png' },
+    { id: 'dc_champagne', name: '金黄水晶 (Lt.Topaz)', previewUrl: 'assets/p2.png' },
+    { id: 'dc_red', name: '大红 (Siam)', previewUrl: 'assets/s2.png' },
+    { id: 'dc_yellow', name: '金黄 (Topaz)', previewUrl: 'assets/s4.png' },
+];
+
+export const DEFAULT_LIBRARY: Library = {
+  devices: DEFAULT_DEVICES,
+  materials: [
+      { id: 'm1', name: '透明防摔壳', type: 'shockproof', color: 'Transparent', model: 'iPhone 15 Pro', deviceId: 'dev_iphone15pro', previewUrl: 'assets/m1.png' },
+      { id: 'm2', name: '黑色磨砂硅胶', type: 'silicone', color: 'Black Matte', model: 'iPhone 15 Pro', deviceId: 'dev_iphone15pro', previewUrl: 'assets/m2.png' },
+      { id: 'm3', name: '粉色', type: 'plastic', color: 'pink', model: 'iPhone 17 Pro', deviceId: 'dev_iphone17pro', previewUrl: 'assets/img_PhoneCase/粉色17p.png' },
+  ],
+  processes: [
+      { id: 'p1', name: '高清彩印', description: '高精度数码打印，{{concept}}色彩还原度高', previewUrl: 'assets/p1.png', category: 'standard' },
+      { id: 'p2', name: '3D浮雕', description: '表面有明显的凹凸质感，{{concept}}呈现立体浮雕效果，触感丰富', previewUrl: 'assets/p2.png', category: 'standard' },
+      { id: 'p3', name: '激光镭雕', description: '金属或特殊涂层的蚀刻效果，{{concept}}呈现银灰色纹理', previewUrl: 'assets/p3.png', category: 'standard' },
+      { id: 'p4', name: '满钻工艺', description: '手机壳背面贴满水钻，图形没有线条，{{concept}}图案完全由水钻组成。手机壳的侧面和摄像头模组内部不贴水钻', previewUrl: 'assets/img_Process/001.png', category: 'diamond' },
+  ],
+  styles: [
+      { id: 's1', name: '极简现代', promptModifier: 'minimalist, clean lines, apple aesthetic, bauhaus', previewUrl: 'assets/s1.png' },
+      { id: 's2', name: '赛博朋克', promptModifier: 'cyberpunk, neon lights, futuristic, high tech, mechanical parts', previewUrl: 'assets/s2.png' },
+      { id: 's3', name: '油画质感', promptModifier: 'impasto oil painting style, expressive brushstrokes, van gogh style', previewUrl: 'assets/s3.png' },
+      { id: 's4', name: '可爱插画', promptModifier: 'cute vector illustration, pastel colors, soft edges, doodle style', previewUrl: 'assets/s4.png' },
+  ],
+  mainDiamondColors: DEFAULT_MAIN_DIAMOND_COLORS,
+  secondaryDiamondColors: DEFAULT_SECONDARY_DIAMOND_COLORS,
+  prompts: DEFAULT_PROMPTS,
+  models: DEFAULT_MODEL_REGISTRY,
+  pricing: DEFAULT_PRICING,
+  budget: DEFAULT_BUDGET,
+  cache: DEFAULT_CACHE_SETTINGS,
+  brainstorm: DEFAULT_BRAINSTORM_SETTINGS
+};
@@ -0,0 +1,13 @@
+import { Library } from "../types";
+
+/**
+ * Library sections addressed by name. Writing through a union of keys needs a
+ * generic, so section-by-section copies go through `assignSection`; a misspelt
+ * section name is then a compile error instead of a silent `any`.
+ */
+
+export const assignSection = <K extends keyof Library>(target: Partial<Library>, key: K, value: Library[K]) => {
+    target[key] = value;
+};
+
+export const librarySections = (library: Partial<Record<keyof Library, unknown>>) => Object.keys(library) as (keyof Library)[];
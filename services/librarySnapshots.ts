@@ -0,0 +1,213 @@
+import { Library, LibrarySnapshot, SystemPrompts } from "../types";
+import { deleteLibrarySnapshots, listLibrarySnapshots, putLibrarySnapshot } from "./db";
+import { LIBRARY_COLLECTIONS, LibraryCollection } from "./dbMigrations";
+import { hydrateLibraryAssets, stripLibraryAssets } from "./assetStore";
+import { stableStringify } from "./responseCache";
+import { assignSection } from "./librarySections";
+
+/**
+ * Library history. Every save records an automatic snapshot (bursts of edits to the
+ * same section within a short window fold into one); named checkpoints are kept
+ * until deleted. Snapshots hold the persisted form, so images are asset ids.
+ */
+
+export const AUTO_SNAPSHOT_LIMIT = 200;
+const COALESCE_WINDOW_MS = 2 * 60 * 1000;
+
+export type SnapshotSection = keyof Library;
+
+export const SNAPSHOT_SECTION_LABELS: Record<SnapshotSection, string> = {
+    devices: '机型库',
+    materials: '手机壳底材',
+    processes: '工艺配置',
+    styles: '风格库',
+    mainDiamondColors: '水钻主色',
+    secondaryDiamondColors: '水钻副色',
+    prompts: '提示词',
+    models: '模型配置',
+    pricing: '计费配置',
+    budget: '预算控制',
+    cache: '响应缓存',
+    brainstorm: '脑暴设置',
+    aiProvider: 'AI 服务',
+};
+
+const PROMPT_LABELS: Record<string, string> = {
+    imageAnalysis: 'Image Analysis',
+    brainstormRoot: 'Root Expansion',
+    brainstormBase: 'Brainstorm Base',
+    designGeneration: 'Design Generation',
+    diamondGeneration: 'Diamond Generation',
+    variantDesigner: 'Variant Designer',
+};
+
+const newSnapshotId = () => `snap-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(fn => fn());
+
+export const subscribeSnapshots = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Newest first
+export const listSnapshots = async (): Promise<LibrarySnapshot[]> =>
+    (await listLibrarySnapshots()).reverse();
+
+// Saves fire in quick succession; keep snapshot writes in order
+let queue: Promise<void> = Promise.resolve();
+
+const sameSections = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(key => b.includes(key));
+
+/**
+ * Record the library after a save. `library` is the persisted form.
+ * Without `changed` (initial load) only a baseline is taken, and only if history is empty.
+ */
+export const recordLibrarySnapshot = (library: Library, changed?: Set<string>): Promise<void> => {
+    queue = queue.then(async () => {
+        const snapshots = await listLibrarySnapshots();
+        if (!changed) {
+            if (snapshots.length === 0) {
+                await putLibrarySnapshot({ id: newSnapshotId(), kind: 'auto', name: '初始状态', createdAt: Date.now(), changed: [], library });
+            }
+            return;
+        }
+
+        const sections = [...changed];
+        const latest = snapshots[snapshots.length - 1];
+        if (latest && latest.kind === 'auto' && latest.changed.length > 0
+            && Date.now() - latest.createdAt < COALESCE_WINDOW_MS && sameSections(latest.changed, sections)) {
+            // e.g. typing in a budget field, keep one entry for the burst
+            await putLibrarySnapshot({ ...latest, createdAt: Date.now(), library });
+            return;
+        }
+
+        await putLibrarySnapshot({ id: newSnapshotId(), kind: 'auto', createdAt: Date.now(), changed: sections, library });
+        const autos = snapshots.filter(s => s.kind === 'auto');
+        const excess = autos.length + 1 - AUTO_SNAPSHOT_LIMIT;
+        if (excess > 0) await deleteLibrarySnapshots(autos.slice(0, excess).map(s => s.id));
+    }).then(notify, e => console.error("Library snapshot failed:", e));
+    return queue;
+};
+
+export const createCheckpoint = async (library: Library, name: string): Promise<LibrarySnapshot> => {
+    const snapshot: LibrarySnapshot = {
+        id: newSnapshotId(),
+        kind: 'manual',
+        name,
+        createdAt: Date.now(),
+        changed: [],
+        library: stripLibraryAssets(library)
+    };
+    await putLibrarySnapshot(snapshot);
+    notify();
+    return snapshot;
+};
+
+export const deleteSnapshot = async (id: string) => {
+    await deleteLibrarySnapshots([id]);
+    notify();
+};
+
+// Asset ids any snapshot still points at, so pruning keeps images rollback may need
+export const snapshotAssetIds = async (): Promise<Set<string>> => {
+    const ids = new Set<string>();
+    for (const snapshot of await listLibrarySnapshots()) {
+        for (const collection of LIBRARY_COLLECTIONS) {
+            (snapshot.library[collection] as { assetId?: string }[] | undefined)?.forEach(item => { if (item.assetId) ids.add(item.assetId); });
+        }
+    }
+    return ids;
+};
+
+// --- Diff & rollback ---
+
+export interface LibraryChange {
+    key: string; // `${section}:${id}`
+    section: SnapshotSection;
+    id: string;   // Item id, prompt key, or the section name for settings sections
+    name: string;
+    change: 'added' | 'removed' | 'modified'; // Relative to the snapshot
+}
+
+const isCollection = (section: string): section is LibraryCollection =>
+    (LIBRARY_COLLECTIONS as readonly string[]).includes(section);
+
+/**
+ * Changes made since `snapshot`: `added` items exist only in `current`,
+ * `removed` ones only in the snapshot.
+ */
+export const diffLibrary = (snapshot: Library, current: Library): LibraryChange[] => {
+    const now = stripLibraryAssets(current);
+    const changes: LibraryChange[] = [];
+    const sections = Object.keys(SNAPSHOT_SECTION_LABELS) as SnapshotSection[];
+
+    for (const section of sections) {
+        if (isCollection(section)) {
+            const before = (snapshot[section] || []) as { id: string, name?: string }[];
+            const after = (now[section] || []) as { id: string, name?: string }[];
+            for (const item of after) {
+                const old = before.find(i => i.id === item.id);
+                const change = !old ? 'added' : stableStringify(old) !== stableStringify(item) ? 'modified' : null;
+                if (change) changes.push({ key: `${section}:${item.id}`, section, id: item.id, name: item.name || item.id, change });
+            }
+            for (const item of before) {
+                if (!after.some(i => i.id === item.id)) {
+                    changes.push({ key: `${section}:${item.id}`, section, id: item.id, name: item.name || item.id, change: 'removed' });
+                }
+            }
+        } else if (section === 'prompts') {
+            const before: Partial<SystemPrompts> = snapshot.prompts || {};
+            const after: Partial<SystemPrompts> = now.prompts;
+            const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof SystemPrompts)[]);
+            for (const key of keys) {
+                if ((before[key] || '') === (after[key] || '')) continue;
+                const change = !before[key] ? 'added' : !after[key] ? 'removed' : 'modified';
+                changes.push({ key: `prompts:${key}`, section, id: key, name: PROMPT_LABELS[key] || key, change });
+            }
+        } else if (stableStringify(snapshot[section] ?? null) !== stableStringify(now[section] ?? null)) {
+            changes.push({ key: `${section}:${section}`, section, id: section, name: SNAPSHOT_SECTION_LABELS[section], change: 'modified' });
+        }
+    }
+    return changes;
+};
+
+// Pricing versions only move forward, so designs priced before and after a rollback stay distinguishable
+const bumpPricing = (library: Library, current: Library): Library =>
+    library.pricing === current.pricing ? library : { ...library, pricing: { ...library.pricing, version: current.pricing.version + 1, updatedAt: Date.now() } };
+
+export const restoreSnapshot = async (snapshot: LibrarySnapshot, current: Library): Promise<Library> =>
+    hydrateLibraryAssets(bumpPricing({ ...snapshot.library }, current));
+
+// Put a single item (or prompt / settings section) back the way the snapshot had it
+export const restoreChange = async (snapshot: LibrarySnapshot, current: Library, change: LibraryChange): Promise<Library> => {
+    const { section, id } = change;
+    const next: Library = { ...current };
+
+    if (isCollection(section)) {
+        const before = snapshot.library[section] as { id: string }[];
+        const old = before.find(i => i.id === id);
+        let items = current[section] as { id: string }[];
+        if (!old) {
+            items = items.filter(i => i.id !== id);
+        } else if (items.some(i => i.id === id)) {
+            // Modified: revert in place
+            items = items.map(i => i.id === id ? old : i);
+        } else {
+            // Removed: back where the snapshot had it
+            items = [...items];
+            items.splice(Math.min(before.indexOf(old), items.length), 0, old);
+        }
+        assignSection(next, section, items as Library[typeof section]);
+    } else if (section === 'prompts') {
+        const key = id as keyof SystemPrompts;
+        const prompts: Partial<SystemPrompts> = { ...current.prompts, [key]: snapshot.library.prompts[key] };
+        if (prompts[key] === undefined) delete prompts[key];
+        next.prompts = prompts as SystemPrompts;
+    } else {
+        assignSection(next, section, snapshot.library[section]);
+    }
+    return hydrateLibraryAssets(bumpPricing(next, current));
+};
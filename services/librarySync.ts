@@ -0,0 +1,141 @@
+import { Library } from "../types";
+import { LibraryRevisions, LibrarySaveResult, StoredLibrary, loadLibraryFromDB, saveLibraryToDB } from "./db";
+import { LIBRARY_COLLECTIONS } from "./dbMigrations";
+import { assignSection, librarySections } from "./librarySections";
+import { SNAPSHOT_SECTION_LABELS } from "./librarySnapshots";
+import { stableStringify } from "./responseCache";
+import { broadcastChange } from "./tabSync";
+
+/**
+ * Keeps this tab's library consistent with other tabs. Saves carry the section
+ * revisions this tab last saw; a save rejected as stale, or a change announced by
+ * another tab, is pulled in with a three-way merge against the last common version.
+ */
+
+// Per section: the revision and persisted value this tab last wrote or loaded
+let revisions: LibraryRevisions = {};
+let base: Partial<Library> = {};
+
+// Saves and pulls run one at a time so revisions never interleave
+let queue: Promise<unknown> = Promise.resolve();
+const enqueue = <T>(work: () => Promise<T>): Promise<T> => {
+    const run = queue.then(work);
+    queue = run.catch(() => undefined);
+    return run;
+};
+
+export const initLibrarySync = (stored: StoredLibrary | null) => {
+    revisions = { ...stored?.revisions };
+    base = { ...stored?.library };
+};
+
+/**
+ * Save the persisted form of the library. Sections another tab changed meanwhile
+ * come back as `conflicts` and are left untouched; pull them with `pullLibrary`.
+ */
+export const persistLibrary = (library: Library, changed?: Set<keyof Library>): Promise<LibrarySaveResult> =>
+    enqueue(async () => {
+        const result = await saveLibraryToDB(library, changed, revisions);
+        const written = librarySections(result.written);
+        written.forEach(section => {
+            revisions[section] = result.written[section];
+            assignSection(base, section, library[section]);
+        });
+        if (written.length > 0) broadcastChange({ type: 'library', sections: written });
+        return result;
+    });
+
+// --- Three-way merge ---
+
+type Prefer = 'mine' | 'theirs';
+
+const same = (a: unknown, b: unknown) => stableStringify(a ?? null) === stableStringify(b ?? null);
+
+const pick = (b: unknown, mine: unknown, theirs: unknown, prefer: Prefer, conflicts: string[], name: string) => {
+    if (same(mine, b)) return theirs;
+    if (same(theirs, b) || same(mine, theirs)) return mine;
+    conflicts.push(name);
+    return prefer === 'mine' ? mine : theirs;
+};
+
+type Item = { id: string, name?: string };
+
+const mergeCollection = (b: Item[], mine: Item[], theirs: Item[], prefer: Prefer, conflicts: string[], label: string): Item[] => {
+    const find = (list: Item[], id: string) => list.find(i => i.id === id);
+    // Their order first, then items only this tab has
+    const ids = [...theirs.map(i => i.id), ...mine.filter(i => !find(theirs, i.id)).map(i => i.id)];
+    const merged: Item[] = [];
+    for (const id of new Set(ids)) {
+        const m = find(mine, id), t = find(theirs, id);
+        const value = pick(find(b, id), m, t, prefer, conflicts, `${label} · ${(m || t)?.name || id}`) as Item | undefined;
+        if (value) merged.push(value);
+    }
+    return merged;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const mergeSection = (section: keyof Library, b: unknown, mine: unknown, theirs: unknown, prefer: Prefer, conflicts: string[]) => {
+    const label = SNAPSHOT_SECTION_LABELS[section] || section;
+    if ((LIBRARY_COLLECTIONS as readonly string[]).includes(section)) {
+        return mergeCollection((b || []) as Item[], (mine || []) as Item[], (theirs || []) as Item[], prefer, conflicts, label);
+    }
+    // Settings objects merge per key; pricing is versioned as a whole
+    if (section !== 'pricing' && isPlainObject(mine) && isPlainObject(theirs)) {
+        const old = isPlainObject(b) ? b : {};
+        const merged: Record<string, unknown> = {};
+        for (const key of new Set([...Object.keys(theirs), ...Object.keys(mine)])) {
+            const value = pick(old[key], mine[key], theirs[key], prefer, conflicts, `${label} · ${key}`);
+            if (value !== undefined) merged[key] = value;
+        }
+        return merged;
+    }
+    const value = pick(b, mine, theirs, prefer, conflicts, label);
+    if (section === 'pricing' && value === mine && !same(mine, theirs)) {
+        // Both tabs may have produced the same version number; keep it increasing
+        const versions = [mine, theirs].map(p => (p as Library['pricing'] | undefined)?.version || 0);
+        return { ...(mine as Library['pricing']), version: Math.max(...versions) + 1 };
+    }
+    return value;
+};
+
+export interface LibraryPullResult {
+    updates: Partial<Library>; // Merged sections to put into state (persisted form)
+    rewrite: (keyof Library)[]; // Sections whose merge kept local edits and must be saved again
+}
+
+/**
+ * Bring sections written by another tab into `library` (the persisted form of this
+ * tab's state). When both sides changed the same item, `keepMine` is asked once
+ * with the affected names.
+ */
+export const pullLibrary = (library: Library, sections: (keyof Library)[], keepMine: (conflicts: string[]) => boolean): Promise<LibraryPullResult> =>
+    enqueue(async () => {
+        const result: LibraryPullResult = { updates: {}, rewrite: [] };
+        const stored = await loadLibraryFromDB();
+        if (!stored) return result;
+
+        const stale = sections.filter(s => (stored.revisions[s] || 0) > (revisions[s] || 0) && stored.library[s] !== undefined);
+        const merge = (prefer: Prefer, conflicts: string[]) => stale.map(section => mergeSection(
+            section,
+            section in base ? base[section] : library[section],
+            library[section],
+            stored.library[section],
+            prefer,
+            conflicts
+        ));
+
+        const conflicts: string[] = [];
+        let merged = merge('theirs', conflicts);
+        if (conflicts.length > 0 && keepMine(conflicts)) merged = merge('mine', []);
+
+        stale.forEach((section, i) => {
+            const theirs = stored.library[section]!;
+            revisions[section] = stored.revisions[section];
+            assignSection(base, section, theirs);
+            assignSection(result.updates, section, merged[i] as Library[typeof section]);
+            if (!same(merged[i], theirs)) result.rewrite.push(section);
+        });
+        return result;
+    });
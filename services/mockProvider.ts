@@ -0,0 +1,171 @@
+import { AIProvider, AssociationDimension, AssociationResponse } from "./aiProvider";
+
+/**
+ * Offline provider for demos and local development.
+ * Every result is derived from a hash of the input, so the same request
+ * always yields the same associations / placeholder image.
+ */
+
+// Small stable string hash (FNV-1a)
+const hashString = (input: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Deterministically pick `count` distinct items from a pool
+const pick = <T,>(pool: T[], count: number, seed: number): T[] => {
+    const result: T[] = [];
+    for (let i = 0; result.length < Math.min(count, pool.length); i++) {
+        const item = pool[(seed + i * 7) % pool.length];
+        if (!result.includes(item)) result.push(item);
+    }
+    return result;
+};
+
+// Simulated network latency so loading states stay visible
+const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const CANNED_ASSOCIATIONS: Record<string, AssociationResponse> = {
+    '兔子': {
+        up: ['动物', '萌宠', '中秋'],
+        side: ['胡萝卜', '月球', '三叶草', '蒲公英', '草地', '玉兔'],
+        down: ['垂耳兔', '兔子剪影', '像素兔', '兔年窗花']
+    },
+    '中秋节': {
+        up: ['传统节日', '团圆', '东方美学'],
+        side: ['月饼', '月亮', '桂花', '灯笼', '玉兔', '嫦娥'],
+        down: ['满月剪影', '莲蓉月饼', '兔子灯', '桂花枝']
+    },
+    'rabbit': {
+        up: ['Cuteness', 'Spring Vibes', 'Lucky Charm'],
+        side: ['Bunny Hop', 'Carrot Lover', 'Easter', 'Moon Rabbit', 'Down the Rabbit Hole', 'Fluffy Tail'],
+        down: ["Don't Touch My Ears", 'Hop Fast', 'Bad Bunny', 'Fluffy Logic']
+    },
+    'coffee': {
+        up: ['Daily Ritual', 'Hustle Culture', 'Cozy Life'],
+        side: ['Latte Art', 'Bean There', 'Morning Brew', 'Cafe Hopping', 'Espresso Shot', 'Cold Brew Club'],
+        down: ['Monday Mood', 'Caffeine Loading', 'Espresso Yourself', 'But First, Coffee']
+    }
+};
+
+const GENERIC_CN = {
+    up: ['自然', '节日', '动物', '美食', '复古风', '国潮', '童趣', '极简几何'],
+    side: ['星星', '月亮', '花朵', '云朵', '爱心', '彩虹', '樱花', '波点', '贝壳', '气球'],
+    down: ['剪影', '像素风', '线描', '图腾', '贴纸', '水彩', '窗花', '刺绣']
+};
+
+const GENERIC_EN = {
+    up: ['Good Vibes', 'Self Love', 'Wanderlust', 'Main Character Energy', 'Retro Future', 'Soft Life'],
+    side: ['Stay Wild', 'Chill Mode', 'Dream Big', 'No Bad Days', 'Lucky Me', 'Weekend Mood', 'Sunny Side', 'Plot Twist'],
+    down: ['Club', 'Forever', 'Season', 'Mode On', 'Era', 'Lover']
+};
+
+// `salt` varies the picks for repeated "expand more" requests on the same word
+const buildGenericAssociations = (word: string, salt = 0): AssociationResponse => {
+    const seed = hashString(word) + salt;
+    if (/[\u4e00-\u9fa5]/.test(word)) {
+        return {
+            up: pick(GENERIC_CN.up, 3, seed),
+            side: pick(GENERIC_CN.side, 6, seed >>> 3),
+            down: pick(GENERIC_CN.down, 4, seed >>> 5).map(suffix => `${word}${suffix}`)
+        };
+    }
+    return {
+        up: pick(GENERIC_EN.up, 3, seed),
+        side: pick(GENERIC_EN.side, 6, seed >>> 3),
+        down: pick(GENERIC_EN.down, 4, seed >>> 5).map(suffix => `${word} ${suffix}`)
+    };
+};
+
+const ANALYSIS_RESULTS = ['星空', '猫咪', '花朵', '海浪', '水果', '城市夜景'];
+
+const VARIANT_LAYOUTS = [
+    '构图：单个大图居中。',
+    '构图：满版重复排列。',
+    '构图：对角线构图。',
+    '构图：边框式构图。',
+    '配色：全新的高对比配色。',
+    '风格：更抽象的线条化表现。'
+];
+
+const CASE_COLORS = ['#fde68a', '#fbcfe8', '#bfdbfe', '#c7d2fe', '#bbf7d0', '#fecaca', '#e9d5ff'];
+const ACCENT_COLORS = ['#4f46e5', '#db2777', '#0891b2', '#ea580c', '#16a34a', '#7c3aed'];
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// UTF-8 safe base64 (btoa only handles Latin-1)
+const toBase64 = (text: string): string => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+/**
+ * Renders a flat phone-case mockup as SVG: case body, camera module and concept label.
+ */
+const renderPlaceholderCase = (label: string, aspectRatio: string, seed: number): string => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const width = 540;
+    const height = w && h ? Math.round(width * (h / w)) : 960;
+    const caseColor = CASE_COLORS[seed % CASE_COLORS.length];
+    const accent = ACCENT_COLORS[(seed >>> 4) % ACCENT_COLORS.length];
+    const text = escapeXml(label.length > 14 ? `${label.slice(0, 14)}…` : label);
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="100%" height="100%" fill="#ffffff"/>
+<rect x="60" y="40" width="${width - 120}" height="${height - 80}" rx="64" fill="${caseColor}" stroke="#d1d5db" stroke-width="4"/>
+<rect x="96" y="76" width="170" height="170" rx="40" fill="#111827" opacity="0.85"/>
+<circle cx="140" cy="120" r="26" fill="#374151"/><circle cx="222" cy="120" r="26" fill="#374151"/><circle cx="140" cy="202" r="26" fill="#374151"/>
+<circle cx="${width / 2}" cy="${height / 2}" r="120" fill="${accent}" opacity="0.9"/>
+<text x="${width / 2}" y="${height / 2 + 12}" font-size="34" font-family="sans-serif" font-weight="bold" fill="#ffffff" text-anchor="middle">${text}</text>
+<text x="${width / 2}" y="${height - 90}" font-size="20" font-family="sans-serif" fill="#6b7280" text-anchor="middle">MOCK PREVIEW</text>
+</svg>`;
+};
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    label: '离线模拟 (Mock)',
+    requiresApiKey: false,
+
+    async associate({ word, exclude = [], only }) {
+        await delay(400);
+        const canned = CANNED_ASSOCIATIONS[word.trim().toLowerCase()];
+        if (exclude.length === 0 && !only) return { value: canned || buildGenericAssociations(word.trim()) };
+        // "Expand more": fall back to the generic pools once canned words are used up
+        const generic = buildGenericAssociations(word.trim(), exclude.length);
+        const pool = (dimension: AssociationDimension) => {
+            if (only && only !== dimension) return [];
+            const candidates = [...(canned?.[dimension] || []), ...generic[dimension]];
+            return candidates.filter((text, i) => !exclude.includes(text) && candidates.indexOf(text) === i).slice(0, 4);
+        };
+        return { value: { up: pool('up'), side: pool('side'), down: pool('down') } };
+    },
+
+    async analyzeImage({ image }) {
+        await delay(400);
+        return { value: ANALYSIS_RESULTS[hashString(image.data.slice(0, 2048)) % ANALYSIS_RESULTS.length] };
+    },
+
+    async rewritePrompts({ originalPrompt, count }) {
+        await delay(400);
+        const seed = hashString(originalPrompt);
+        return {
+            value: Array.from({ length: count }, (_, i) =>
+                `${originalPrompt} ${VARIANT_LAYOUTS[(seed + i) % VARIANT_LAYOUTS.length]}`
+            )
+        };
+    },
+
+    async generateImage({ parts, aspectRatio, concept }) {
+        await delay(800);
+        const promptText = parts.map(p => ('text' in p ? p.text : '')).join('');
+        const svg = renderPlaceholderCase(concept || 'CaseCraft', aspectRatio, hashString(promptText));
+        return { image: { mimeType: "image/svg+xml", data: toBase64(svg) } };
+    }
+};
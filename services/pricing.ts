@@ -0,0 +1,81 @@
+import { CostInfo, ModelPricing, PricingTable, UsageMetadata } from "../types";
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    CNY: '¥',
+    USD: '$',
+    EUR: '€',
+    JPY: '¥',
+    HKD: 'HK$',
+    GBP: '£'
+};
+
+export const currencySymbol = (currency: string): string => CURRENCY_SYMBOLS[currency] || `${currency} `;
+
+export const formatMoney = (amount: number, currency: string, digits = 2): string =>
+    `${currencySymbol(currency)}${amount.toFixed(digits)}`;
+
+export const findModelPricing = (pricing: PricingTable, modelName: string): ModelPricing | undefined =>
+    pricing.models.find(m => m.model === modelName);
+
+/**
+ * Calculate estimated cost from the library's pricing table.
+ * When an `imageSize` is given and the model has a per-image price for it,
+ * output is billed per image instead of per output token.
+ */
+export const calculateEstCost = (usage: UsageMetadata, modelName: string, pricing: PricingTable, imageSize?: string): CostInfo => {
+    const rates = findModelPricing(pricing, modelName);
+    if (!rates) {
+        console.warn(`[CaseCraft] No pricing entry for ${modelName}, cost recorded as 0.`);
+    }
+
+    const inputCostUSD = rates ? (usage.promptTokens / 1_000_000) * rates.inputPerMillion : 0;
+    const imagePrice = imageSize ? rates?.imagePrices?.[imageSize] : undefined;
+    const outputCostUSD = imagePrice !== undefined
+        ? imagePrice
+        : rates ? (usage.candidatesTokens / 1_000_000) * rates.outputPerMillion : 0;
+    const totalUSD = inputCostUSD + outputCostUSD;
+
+    return {
+        inputCostUSD,
+        outputCostUSD,
+        totalUSD,
+        totalLocal: totalUSD * pricing.exchangeRate,
+        currency: pricing.currency,
+        exchangeRate: pricing.exchangeRate,
+        pricingVersion: pricing.version,
+        rates: rates ? { ...rates, imagePrices: rates.imagePrices && { ...rates.imagePrices } } : undefined
+    };
+};
+
+/**
+ * Token estimate for one image call, used when the backend reports no usage
+ * and for pre-flight budget checks.
+ */
+export const estimateImageUsage = (promptLength: number, referenceImageCount: number, imageSize: string): UsageMetadata => {
+    const promptTokens = (promptLength / 4) + (referenceImageCount * 560);
+    const candidatesTokens = imageSize === "4K" ? 2000 : 1120;
+    return { promptTokens, candidatesTokens, totalTokens: promptTokens + candidatesTokens };
+};
+
+/**
+ * Token estimate for a text call whose backend reports no usage
+ * (about 4 characters per token; attached images as for image calls).
+ */
+export const estimateTextUsage = (promptLength: number, outputLength: number, imageCount = 0): UsageMetadata => {
+    const promptTokens = (promptLength / 4) + (imageCount * 560);
+    const candidatesTokens = outputLength / 4;
+    return { promptTokens, candidatesTokens, totalTokens: promptTokens + candidatesTokens };
+};
+
+// Typical assembled prompt length, for estimates made before the prompt exists
+const ESTIMATE_PROMPT_LENGTH = 800;
+
+export const estimateImageCostUSD = (pricing: PricingTable, modelName: string, imageSize: string, referenceImageCount: number, promptLength = ESTIMATE_PROMPT_LENGTH): number =>
+    calculateEstCost(estimateImageUsage(promptLength, referenceImageCount, imageSize), modelName, pricing, imageSize).totalUSD;
+
+/**
+ * Express a recorded cost in the table's current currency.
+ * Costs billed in the same currency keep their historical amount.
+ */
+export const toLocalAmount = (cost: CostInfo, pricing: PricingTable): number =>
+    cost.currency === pricing.currency ? cost.totalLocal : cost.totalUSD * pricing.exchangeRate;
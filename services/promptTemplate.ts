@@ -0,0 +1,284 @@
+/**
+ * Minimal prompt template language, a superset of the old `{{concept}}` placeholders.
+ *
+ *   {{concept}}                          variable (dot paths allowed: {{this.name}})
+ *   {{styleName | default: "Standard"}}  filters: upper, lower, trim, quote, join, default, length
+ *   {{#if mainDiamondColor}}…{{else}}…{{/if}}   also {{#unless …}}
+ *   {{#each secondaryDiamondColors}}{{this}}{{#unless @last}}、{{/unless}}{{/each}}
+ *
+ * Loop scopes expose `this`, `@index`, `@first` and `@last`.
+ */
+
+export type TemplateKind = 'designGeneration' | 'diamondGeneration' | 'variantDesigner' | 'processDescription' | 'styleModifier';
+
+export interface TemplateVariable {
+    name: string;
+    description: string;
+}
+
+const CONCEPT_VAR: TemplateVariable = { name: 'concept', description: '当前概念词' };
+
+// Both process categories render from the same context
+const GENERATION_VARIABLES: TemplateVariable[] = [
+    CONCEPT_VAR,
+    { name: 'model', description: '手机型号' },
+    { name: 'context', description: '脑暴路径，如 中秋节 → 月亮 → 月球 (层数见 脑暴上下文层数)' },
+    { name: 'materialName', description: '底材名称' },
+    { name: 'materialType', description: '底材类型' },
+    { name: 'materialColor', description: '底材颜色' },
+    { name: 'processName', description: '工艺名称' },
+    { name: 'processDesc', description: '工艺描述 (已渲染)' },
+    { name: 'styleName', description: '风格名称' },
+    { name: 'stylePrompt', description: '风格修饰词 (已渲染)' },
+    { name: 'mainDiamondColor', description: '水钻主色名称 (仅满钻工艺且已附主色图时有值)' },
+    { name: 'secondaryDiamondColors', description: '水钻辅色名称列表' },
+    { name: 'deviceGeometry', description: '机型摄像头与开孔描述 (来自机型库)' },
+    { name: 'deviceNotes', description: '机型提示词备注 (来自机型库)' },
+    { name: 'hasCameraBar', description: '机型为横向贯穿式摄像头模组' },
+    { name: 'customPrompt', description: '额外指令 (含 "Extra Instructions:" 前缀)' },
+    { name: 'imageSize', description: '分辨率 1K / 2K / 4K' },
+];
+
+export const TEMPLATE_VARIABLES: Record<TemplateKind, TemplateVariable[]> = {
+    designGeneration: GENERATION_VARIABLES,
+    diamondGeneration: GENERATION_VARIABLES,
+    variantDesigner: [
+        CONCEPT_VAR,
+        { name: 'count', description: '变体数量' },
+    ],
+    processDescription: [
+        CONCEPT_VAR,
+        { name: 'model', description: '手机型号' },
+        { name: 'materialColor', description: '底材颜色' },
+    ],
+    styleModifier: [
+        CONCEPT_VAR,
+    ],
+};
+
+// Variables a template must reference, otherwise the concept never reaches the model
+const REQUIRED_VARIABLES: Record<TemplateKind, string[]> = {
+    designGeneration: ['concept'],
+    diamondGeneration: ['concept'],
+    variantDesigner: ['concept', 'count'],
+    processDescription: [],
+    styleModifier: [],
+};
+
+export class TemplateSyntaxError extends Error {
+    line: number;
+
+    constructor(message: string, line: number) {
+        super(`第 ${line} 行: ${message}`);
+        this.name = 'TemplateSyntaxError';
+        this.line = line;
+    }
+}
+
+interface Filter { name: string; arg?: string; }
+
+type TemplateNode =
+    | { type: 'text', value: string }
+    | { type: 'var', path: string, filters: Filter[], line: number }
+    | { type: 'if', path: string, negate: boolean, then: TemplateNode[], otherwise: TemplateNode[], line: number }
+    | { type: 'each', path: string, body: TemplateNode[], line: number };
+
+type FilterFn = (value: any, arg?: string) => any;
+
+const toText = (value: any): string => {
+    if (value === undefined || value === null || value === false) return '';
+    if (Array.isArray(value)) return value.map(toText).join('、');
+    return String(value);
+};
+
+const FILTERS: Record<string, FilterFn> = {
+    upper: v => toText(v).toUpperCase(),
+    lower: v => toText(v).toLowerCase(),
+    trim: v => toText(v).trim(),
+    quote: v => Array.isArray(v) ? v.map(item => `“${toText(item)}”`) : `“${toText(v)}”`,
+    join: (v, sep = '、') => Array.isArray(v) ? v.map(toText).join(sep) : toText(v),
+    default: (v, fallback = '') => isTruthy(v) ? v : fallback,
+    length: v => Array.isArray(v) || typeof v === 'string' ? v.length : 0,
+};
+
+const isTruthy = (value: any): boolean =>
+    Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+const TAG_PATTERN = /{{\s*([\s\S]*?)\s*}}/g;
+
+const lineAt = (source: string, index: number) => source.slice(0, index).split('\n').length;
+
+const parseFilters = (parts: string[], line: number): Filter[] =>
+    parts.map(raw => {
+        const match = raw.trim().match(/^([a-zA-Z]+)\s*(?::\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?$/);
+        if (!match) throw new TemplateSyntaxError(`无法解析过滤器 "${raw.trim()}"`, line);
+        return { name: match[1], arg: match[2] ?? match[3] ?? match[4] };
+    });
+
+const PATH_PATTERN = /^(@?[a-zA-Z_][\w]*)(\.[a-zA-Z_]\w*)*$/;
+
+const parsePath = (raw: string, line: number): string => {
+    const path = raw.trim();
+    if (!PATH_PATTERN.test(path)) throw new TemplateSyntaxError(`无效的变量名 "${path}"`, line);
+    return path;
+};
+
+export const parseTemplate = (source: string): TemplateNode[] => {
+    const root: TemplateNode[] = [];
+    // Open blocks; `target` is where new children go (then / else / body)
+    const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>, tag: string, target: TemplateNode[] }[] = [];
+    const current = () => stack.length ? stack[stack.length - 1].target : root;
+
+    let cursor = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > cursor) current().push({ type: 'text', value: source.slice(cursor, index) });
+        cursor = index + match[0].length;
+
+        const tag = match[1];
+        const line = lineAt(source, index);
+
+        const open = tag.match(/^#(if|unless|each)\s+(.+)$/);
+        if (open) {
+            const path = parsePath(open[2], line);
+            const node: Extract<TemplateNode, { type: 'if' | 'each' }> = open[1] === 'each'
+                ? { type: 'each', path, body: [], line }
+                : { type: 'if', path, negate: open[1] === 'unless', then: [], otherwise: [], line };
+            current().push(node);
+            stack.push({ node, tag: open[1], target: node.type === 'each' ? node.body : node.then });
+            continue;
+        }
+
+        if (tag === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.node.type !== 'if' || top.target === top.node.otherwise) {
+                throw new TemplateSyntaxError('{{else}} 没有对应的 {{#if}}', line);
+            }
+            top.target = top.node.otherwise;
+            continue;
+        }
+
+        const close = tag.match(/^\/(if|unless|each)$/);
+        if (close) {
+            const top = stack.pop();
+            if (!top) throw new TemplateSyntaxError(`多余的 {{/${close[1]}}}`, line);
+            if (top.tag !== close[1]) {
+                throw new TemplateSyntaxError(`{{#${top.tag}}} (第 ${top.node.line} 行) 被 {{/${close[1]}}} 关闭`, line);
+            }
+            continue;
+        }
+
+        if (tag.startsWith('#') || tag.startsWith('/')) {
+            throw new TemplateSyntaxError(`未知的块标签 "{{${tag}}}"`, line);
+        }
+
+        const [pathPart, ...filterParts] = tag.split('|');
+        current().push({ type: 'var', path: parsePath(pathPart, line), filters: parseFilters(filterParts, line), line });
+    }
+
+    if (cursor < source.length) current().push({ type: 'text', value: source.slice(cursor) });
+    if (stack.length) {
+        const top = stack[stack.length - 1];
+        throw new TemplateSyntaxError(`{{#${top.tag}}} 缺少 {{/${top.tag}}}`, top.node.line);
+    }
+    return root;
+};
+
+type Scope = Record<string, any>;
+
+const resolvePath = (scopes: Scope[], path: string): any => {
+    const [head, ...rest] = path.split('.');
+    const scope = [...scopes].reverse().find(s => head in s);
+    let value = scope ? scope[head] : undefined;
+    for (const key of rest) value = value?.[key];
+    return value;
+};
+
+const renderNodes = (nodes: TemplateNode[], scopes: Scope[]): string =>
+    nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.value;
+            case 'var': {
+                let value = resolvePath(scopes, node.path);
+                for (const filter of node.filters) {
+                    const fn = FILTERS[filter.name];
+                    if (fn) value = fn(value, filter.arg);
+                }
+                return toText(value);
+            }
+            case 'if': {
+                const truthy = isTruthy(resolvePath(scopes, node.path));
+                return renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes);
+            }
+            case 'each': {
+                const list = resolvePath(scopes, node.path);
+                if (!Array.isArray(list)) return '';
+                return list.map((item, i) => renderNodes(node.body, [
+                    ...scopes,
+                    { this: item, '@index': i, '@first': i === 0, '@last': i === list.length - 1 }
+                ])).join('');
+            }
+        }
+    }).join('');
+
+/**
+ * Render a template. Unknown variables render empty; syntax errors throw
+ * `TemplateSyntaxError` (templates are validated when saved in Settings).
+ */
+export const renderTemplate = (source: string, context: Record<string, any>): string =>
+    renderNodes(parseTemplate(source), [context]);
+
+const LOOP_VARIABLES = ['this', '@index', '@first', '@last'];
+
+// Collect every variable reference with its loop depth
+const collectReferences = (nodes: TemplateNode[], depth: number, out: { path: string, line: number, depth: number, filters: Filter[] }[]) => {
+    for (const node of nodes) {
+        if (node.type === 'var') out.push({ path: node.path, line: node.line, depth, filters: node.filters });
+        if (node.type === 'if') {
+            out.push({ path: node.path, line: node.line, depth, filters: [] });
+            collectReferences(node.then, depth, out);
+            collectReferences(node.otherwise, depth, out);
+        }
+        if (node.type === 'each') {
+            out.push({ path: node.path, line: node.line, depth, filters: [] });
+            collectReferences(node.body, depth + 1, out);
+        }
+    }
+    return out;
+};
+
+/**
+ * Check a template against the variables available for its kind.
+ * Returns human readable problems; an empty list means the template is valid.
+ */
+export const validateTemplate = (source: string, kind: TemplateKind): string[] => {
+    let nodes: TemplateNode[];
+    try {
+        nodes = parseTemplate(source);
+    } catch (e) {
+        return [e instanceof Error ? e.message : String(e)];
+    }
+
+    const known = TEMPLATE_VARIABLES[kind].map(v => v.name);
+    const issues: string[] = [];
+    const references = collectReferences(nodes, 0, []);
+
+    for (const ref of references) {
+        const head = ref.path.split('.')[0];
+        if (LOOP_VARIABLES.includes(head)) {
+            if (ref.depth === 0) issues.push(`第 ${ref.line} 行: {{${ref.path}}} 只能在 {{#each}} 中使用`);
+        } else if (!known.includes(head)) {
+            issues.push(`第 ${ref.line} 行: 未知变量 {{${ref.path}}}`);
+        }
+        for (const filter of ref.filters) {
+            if (!FILTERS[filter.name]) issues.push(`第 ${ref.line} 行: 未知过滤器 "${filter.name}"`);
+        }
+    }
+
+    const used = new Set(references.map(r => r.path.split('.')[0]));
+    for (const name of REQUIRED_VARIABLES[kind]) {
+        if (!used.has(name)) issues.push(`缺少必需变量 {{${name}}}`);
+    }
+    return issues;
+};
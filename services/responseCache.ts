@@ -0,0 +1,125 @@
+import { CacheEntryMeta, CacheSettings, ModelOperation } from "../types";
+import { clearCachedResponses, deleteCachedResponses, getCachedResponse, listCachedResponses, putCachedResponse } from "./db";
+
+/**
+ * Content-addressed cache for AI responses, persisted in IndexedDB.
+ * Keys hash everything that determines the output (provider, model chain,
+ * prompt, reference-image hashes, config), so any change is a miss.
+ */
+
+// 'use' reads and writes the cache, 'fresh' skips the read but stores the new result
+export type CacheMode = 'use' | 'fresh';
+
+let settings: CacheSettings = { enabled: true, cacheImages: false, maxSizeMB: 200 };
+
+export const configureResponseCache = (next: CacheSettings) => {
+    settings = next;
+};
+
+export const isImageCacheEnabled = () => settings.enabled && settings.cacheImages;
+
+export const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Stable JSON: object keys sorted so key order never changes the hash
+export const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return `{${Object.keys(obj).sort().filter(k => obj[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+export const buildCacheKey = (operation: ModelOperation, parts: Record<string, unknown>): Promise<string> =>
+    hashText(stableStringify({ operation, ...parts }));
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(fn => fn());
+
+export const subscribeCache = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export interface CachedCall<T> {
+    operation: ModelOperation;
+    label: string;
+    models: string[];
+    keyParts: Record<string, unknown>;
+    mode?: CacheMode;
+    store?: boolean; // false skips caching entirely (e.g. images not opted in)
+    cacheable?: (value: T) => boolean; // Reject empty / partial results
+}
+
+/**
+ * Serve `call` from the cache when possible, otherwise run `fetcher` and store the result.
+ * Empty results (null / undefined) are never cached.
+ */
+export const withResponseCache = async <T>(call: CachedCall<T>, fetcher: () => Promise<T>): Promise<{ value: T, hit: boolean }> => {
+    if (!settings.enabled || call.store === false) {
+        return { value: await fetcher(), hit: false };
+    }
+
+    const key = await buildCacheKey(call.operation, { models: call.models, ...call.keyParts });
+
+    if (call.mode !== 'fresh') {
+        const cached = await getCachedResponse(key);
+        if (cached) {
+            console.log(`[CaseCraft] Cache hit for ${call.operation} "${call.label}"`);
+            putCachedResponse({ ...cached.meta, hits: cached.meta.hits + 1, lastAccessedAt: Date.now() });
+            notify();
+            return { value: cached.value as T, hit: true };
+        }
+    }
+
+    const value = await fetcher();
+    if (value !== null && value !== undefined && (!call.cacheable || call.cacheable(value))) {
+        const now = Date.now();
+        await putCachedResponse({
+            key,
+            operation: call.operation,
+            label: call.label,
+            models: call.models,
+            sizeBytes: JSON.stringify(value).length,
+            hits: 0,
+            createdAt: now,
+            lastAccessedAt: now
+        }, value);
+        await enforceCacheLimit();
+        notify();
+    }
+    return { value, hit: false };
+};
+
+// Evict least recently used entries until the cache fits `maxSizeMB`
+export const enforceCacheLimit = async (maxSizeMB: number = settings.maxSizeMB) => {
+    const entries = await listCachedResponses();
+    let total = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+    const limit = maxSizeMB * 1024 * 1024;
+    if (total <= limit) return;
+
+    const evict: string[] = [];
+    for (const entry of [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+        if (total <= limit) break;
+        evict.push(entry.key);
+        total -= entry.sizeBytes;
+    }
+    console.log(`[CaseCraft] Evicting ${evict.length} cache entries`);
+    await deleteCachedResponses(evict);
+    notify();
+};
+
+export const listCacheEntries = (): Promise<CacheEntryMeta[]> => listCachedResponses();
+
+export const evictCacheEntries = async (keys: string[]) => {
+    await deleteCachedResponses(keys);
+    notify();
+};
+
+export const clearResponseCache = async () => {
+    await clearCachedResponses();
+    notify();
+};
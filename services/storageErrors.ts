@@ -0,0 +1,40 @@
+/**
+ * Failed IndexedDB writes, surfaced to the UI instead of only the console.
+ * The most common cause is the browser's storage quota being exhausted.
+ */
+
+export interface StorageSaveError {
+    message: string;
+    quotaExceeded: boolean;
+    timestamp: number;
+}
+
+let lastError: StorageSaveError | null = null;
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(fn => fn());
+
+export const subscribeSaveErrors = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getLastSaveError = () => lastError;
+
+export const dismissSaveError = () => {
+    lastError = null;
+    notify();
+};
+
+const isQuotaError = (e: unknown) =>
+    e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const reportSaveError = (e: unknown) => {
+    console.error("IndexedDB Save Error:", e);
+    lastError = {
+        message: e instanceof Error ? e.message : String(e),
+        quotaExceeded: isQuotaError(e),
+        timestamp: Date.now()
+    };
+    notify();
+};
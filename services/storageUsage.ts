@@ -0,0 +1,74 @@
+import { measureStore } from "./db";
+import { STORES } from "./dbMigrations";
+
+/**
+ * Storage overview for the Settings dashboard: browser quota plus a per-area
+ * breakdown of what CaseCraft keeps in IndexedDB.
+ */
+
+export type StorageArea = 'assets' | 'designs' | 'sessions' | 'cache' | 'library' | 'logs';
+
+export const STORAGE_AREA_LABELS: Record<StorageArea, string> = {
+    assets: '素材图片',
+    designs: '设计图库',
+    sessions: '脑暴会话',
+    cache: '响应缓存',
+    library: '配置与历史版本',
+    logs: '消费日志',
+};
+
+const AREA_STORES: Record<StorageArea, string[]> = {
+    assets: [STORES.assets],
+    designs: [STORES.designs],
+    sessions: [STORES.sessions],
+    cache: [STORES.cacheMeta, STORES.cacheData],
+    library: [STORES.libraryEntities, STORES.librarySettings, STORES.snapshots, STORES.keyValue],
+    logs: [STORES.logs],
+};
+
+export interface StorageOverview {
+    usage?: number;  // Bytes the browser counts against this origin (all storage, not only IndexedDB)
+    quota?: number;
+    persisted: boolean;
+    areas: { area: StorageArea, count: number, bytes: number }[];
+}
+
+// Rough structured-clone size: Blob bytes plus string lengths; good enough to rank areas
+export const estimateSize = (value: unknown): number => {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === 'string') return value.length;
+    if (typeof value === 'number' || typeof value === 'boolean') return 8;
+    if (value instanceof Blob) return value.size;
+    if (Array.isArray(value)) return value.reduce((sum: number, v) => sum + estimateSize(v), 0);
+    if (typeof value === 'object') {
+        return Object.entries(value as Record<string, unknown>).reduce((sum, [k, v]) => sum + k.length + estimateSize(v), 0);
+    }
+    return 0;
+};
+
+export const getStorageOverview = async (): Promise<StorageOverview> => {
+    const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+    const persisted = await navigator.storage?.persisted?.().catch(() => false) ?? false;
+
+    const areas: StorageOverview['areas'] = [];
+    for (const area of Object.keys(AREA_STORES) as StorageArea[]) {
+        const totals = { area, count: 0, bytes: 0 };
+        for (const store of AREA_STORES[area]) {
+            const measured = await measureStore(store, estimateSize);
+            totals.bytes += measured.bytes;
+            // Cache payloads mirror their index records; count entries once
+            if (store !== STORES.cacheData) totals.count += measured.count;
+        }
+        areas.push(totals);
+    }
+    return { usage: estimate?.usage, quota: estimate?.quota, persisted, areas };
+};
+
+/**
+ * Ask the browser not to evict our data under storage pressure.
+ * Browsers may grant it silently, prompt, or refuse (e.g. low site engagement).
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+};
@@ -0,0 +1,44 @@
+import { Library } from "../types";
+
+/**
+ * Cross-tab change notifications. Every tab writes to the same IndexedDB; after a
+ * write it announces what changed so other tabs can reload instead of later
+ * overwriting the change with their stale copy.
+ */
+
+export type TabSyncMessage =
+    | { type: 'library', sections: (keyof Library)[] }
+    | { type: 'session', id: string, revision: number, deleted?: boolean }
+    | { type: 'designs' };
+
+const CHANNEL_NAME = 'casecraft-sync';
+
+// Identifies this tab so it ignores its own messages
+export const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+type Listener = (message: TabSyncMessage) => void;
+const listeners = new Set<Listener>();
+
+// Not every environment has BroadcastChannel (older Safari); sync then simply stays off
+const channel: BroadcastChannel | null = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+if (channel) {
+    channel.onmessage = (event: MessageEvent<{ from: string, message: TabSyncMessage }>) => {
+        if (event.data?.from === TAB_ID) return;
+        listeners.forEach(fn => fn(event.data.message));
+    };
+}
+
+export const broadcastChange = (message: TabSyncMessage) => {
+    channel?.postMessage({ from: TAB_ID, message });
+};
+
+// For changes that did not originate in this tab's UI (e.g. pulled from the team server): tell this tab too
+export const announceChange = (message: TabSyncMessage) => {
+    listeners.forEach(fn => fn(message));
+    broadcastChange(message);
+};
+
+export const subscribeTabSync = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
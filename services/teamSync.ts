@@ -0,0 +1,394 @@
+import { BrainstormSession, StoredDesign, SyncEntityType, SyncOutboxEntry, TeamSyncConfig } from "../types";
+import {
+    LocalWrite, RemoteLibraryChange, applyRemoteDesign, applyRemoteLibraryChanges, applyRemoteSession,
+    getAsset, getBrainstormSession, getDesign, getLibraryEntity, listBrainstormSessions, listDesignIds, listOutbox,
+    loadLibraryFromDB, loadSyncConfigFromDB, loadSyncStateFromDB, observeLocalWrites, putAssetIfMissing,
+    queueOutbox, removeOutbox, saveSyncConfigToDB, saveSyncStateToDB
+} from "./db";
+import { LIBRARY_COLLECTIONS } from "./dbMigrations";
+import { reportSaveError } from "./storageErrors";
+import { announceChange } from "./tabSync";
+
+/**
+ * Optional sync with a self-hosted team server (reference implementation in
+ * server/sync-server.mjs). Local writes reported by db.ts land in a persistent
+ * outbox and are pushed when the server is reachable; remote changes are pulled
+ * by cursor. Conflicts are last-write-wins on per-entity version numbers.
+ */
+
+export const DEFAULT_TEAM_SYNC_CONFIG: TeamSyncConfig = {
+    enabled: false,
+    serverUrl: 'http://localhost:8787',
+    syncDesigns: true,
+    syncSessions: true
+};
+
+// Device-level settings (budget, cache, AI backend) stay local
+const SYNCED_SETTINGS = ['prompts', 'models', 'pricing', 'brainstorm'];
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const PUSH_DELAY_MS = 2000;
+const PUSH_BATCH_SIZE = 20;
+const PULL_PAGE_SIZE = 200;
+
+// As stored on the server
+export interface SyncRecord {
+    type: SyncEntityType;
+    id: string;
+    version: number;
+    updatedAt: number;
+    deleted?: boolean;
+    data?: any;      // Blobs replaced by { $blob: sha256, type }
+    order?: number;  // Position of a library entity within its collection
+}
+
+interface SyncState {
+    serverUrl: string;
+    cursor: number;                    // Last server sequence number pulled
+    versions: Record<string, number>;  // Per entity key, the version this device last saw
+}
+
+export interface TeamSyncStatus {
+    state: 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+    pending: number;
+    lastSyncedAt?: number;
+    message?: string;
+}
+
+export class TeamSyncError extends Error {
+    constructor(message: string, public status?: number) {
+        super(message);
+        this.name = 'TeamSyncError';
+    }
+}
+
+let config: TeamSyncConfig = DEFAULT_TEAM_SYNC_CONFIG;
+let status: TeamSyncStatus = { state: 'off', pending: 0 };
+let timer: ReturnType<typeof setTimeout> | null = null;
+let running: Promise<void> | null = null;
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(fn => fn());
+
+export const subscribeTeamSync = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getTeamSyncConfig = () => config;
+export const getTeamSyncStatus = () => status;
+
+const setStatus = (patch: Partial<TeamSyncStatus>) => {
+    status = { ...status, ...patch };
+    notify();
+};
+
+const entityKey = (type: SyncEntityType, id: string) => `${type}:${id}`;
+
+const isSynced = (type: SyncEntityType, id: string) => {
+    if (type === 'design') return config.syncDesigns;
+    if (type === 'session') return config.syncSessions;
+    const [collection, key] = id.split(/\/(.*)/s);
+    return collection === 'settings' ? SYNCED_SETTINGS.includes(key) : (LIBRARY_COLLECTIONS as readonly string[]).includes(collection);
+};
+
+// --- HTTP ---
+
+const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (config.token) headers.set('Authorization', `Bearer ${config.token}`);
+    const response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}${path}`, { ...init, headers });
+    if (!response.ok && response.status !== 404) {
+        throw new TeamSyncError(response.status === 401 ? '同步令牌无效' : `同步服务器返回 ${response.status}`, response.status);
+    }
+    return response;
+};
+
+const requestJSON = async <T>(path: string, body?: unknown): Promise<T> => {
+    const response = await request(path, body === undefined ? {} : {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    if (!response.ok) throw new TeamSyncError(`同步服务器返回 ${response.status}`, response.status);
+    return response.json();
+};
+
+export const testTeamSyncServer = async (candidate: TeamSyncConfig): Promise<{ records: number }> => {
+    const previous = config;
+    config = candidate;
+    try {
+        return await requestJSON<{ records: number }>('/api/health');
+    } finally {
+        config = previous;
+    }
+};
+
+// --- Blobs (content-addressed, shared with the asset store's SHA-256 ids) ---
+
+const sha256 = async (blob: Blob) => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const uploadBlob = async (hash: string, blob: Blob) => {
+    const head = await request(`/api/blobs/${hash}`, { method: 'HEAD' });
+    if (head.ok) return;
+    await request(`/api/blobs/${hash}`, { method: 'PUT', headers: { 'Content-Type': blob.type || 'application/octet-stream' }, body: blob });
+};
+
+const downloadBlob = async (hash: string, type: string): Promise<Blob> => {
+    const response = await request(`/api/blobs/${hash}`);
+    if (!response.ok) throw new TeamSyncError(`同步服务器缺少文件 ${hash.slice(0, 8)}`);
+    return new Blob([await response.arrayBuffer()], { type: type || response.headers.get('Content-Type') || '' });
+};
+
+const encodeBlobs = async (value: any): Promise<any> => {
+    if (value instanceof Blob) {
+        const hash = await sha256(value);
+        await uploadBlob(hash, value);
+        return { $blob: hash, type: value.type };
+    }
+    if (Array.isArray(value)) return Promise.all(value.map(encodeBlobs));
+    if (value && typeof value === 'object') {
+        const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await encodeBlobs(v)]));
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+const decodeBlobs = async (value: any): Promise<any> => {
+    if (value && typeof value === 'object' && typeof value.$blob === 'string') return downloadBlob(value.$blob, value.type || '');
+    if (Array.isArray(value)) return Promise.all(value.map(decodeBlobs));
+    if (value && typeof value === 'object') {
+        const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await decodeBlobs(v)]));
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+// --- Outbox ---
+
+const queueWrites = async (writes: LocalWrite[], queuedAt = Date.now()) => {
+    const entries: SyncOutboxEntry[] = writes
+        .filter(w => isSynced(w.type, w.id))
+        .map(w => ({ key: entityKey(w.type, w.id), type: w.type, id: w.id, deleted: w.deleted, queuedAt }));
+    if (entries.length === 0) return;
+    await queueOutbox(entries);
+    setStatus({ pending: (await listOutbox()).length });
+    scheduleSync(PUSH_DELAY_MS);
+};
+
+/**
+ * Queue everything stored locally, for the first sync with a server. Entries are
+ * dated 0, so wherever the server already has the entity its copy wins.
+ */
+const queueAllLocal = async () => {
+    const writes: LocalWrite[] = [];
+    const stored = await loadLibraryFromDB();
+    if (stored) {
+        for (const [section, value] of Object.entries(stored.library)) {
+            if (Array.isArray(value)) value.forEach(item => writes.push({ type: 'library', id: `${section}/${item.id}` }));
+            else writes.push({ type: 'library', id: `settings/${section}` });
+        }
+    }
+    (await listDesignIds()).forEach(id => writes.push({ type: 'design', id }));
+    (await listBrainstormSessions()).forEach(session => writes.push({ type: 'session', id: session.id }));
+    await queueWrites(writes, 0);
+};
+
+// --- Pull ---
+
+const loadState = async (): Promise<SyncState> => {
+    const saved = await loadSyncStateFromDB<SyncState>();
+    return saved && saved.serverUrl === config.serverUrl ? saved : { serverUrl: config.serverUrl, cursor: 0, versions: {} };
+};
+
+const toLocalValue = async (record: SyncRecord) => record.deleted ? null : decodeBlobs(record.data);
+
+// Library items point at assets by hash; fetch the ones this device lacks
+const ensureAsset = async (assetId?: string) => {
+    if (!assetId || await getAsset(assetId)) return;
+    const blob = await downloadBlob(assetId, '');
+    await putAssetIfMissing({ id: assetId, blob, size: blob.size, createdAt: Date.now() });
+};
+
+const applyRecords = async (records: SyncRecord[]) => {
+    const libraryChanges: RemoteLibraryChange[] = [];
+    let designsChanged = false;
+    for (const record of records) {
+        const value = await toLocalValue(record);
+        if (record.type === 'library') {
+            await ensureAsset(value?.assetId);
+            libraryChanges.push({ id: record.id, value: value ?? undefined, order: record.order });
+        } else if (record.type === 'design') {
+            await applyRemoteDesign(record.id, value as StoredDesign | null);
+            designsChanged = true;
+        } else if (record.type === 'session') {
+            const revision = await applyRemoteSession(record.id, value as BrainstormSession | null);
+            announceChange({ type: 'session', id: record.id, revision, deleted: !value });
+        }
+    }
+    const sections = await applyRemoteLibraryChanges(libraryChanges);
+    if (sections.length > 0) announceChange({ type: 'library', sections });
+    if (designsChanged) announceChange({ type: 'designs' });
+};
+
+const pull = async (state: SyncState) => {
+    for (;;) {
+        const page = await requestJSON<{ records: SyncRecord[], cursor: number, hasMore: boolean }>(`/api/changes?since=${state.cursor}&limit=${PULL_PAGE_SIZE}`);
+        const pending = new Map((await listOutbox()).map(entry => [entry.key, entry]));
+        const incoming: SyncRecord[] = [];
+
+        for (const record of page.records) {
+            const key = entityKey(record.type, record.id);
+            if (!isSynced(record.type, record.id) || (state.versions[key] || 0) >= record.version) continue;
+            const local = pending.get(key);
+            if (local && local.queuedAt >= record.updatedAt) {
+                // Our unpushed change is newer: build on their version so the push wins
+                state.versions[key] = record.version;
+                continue;
+            }
+            if (local) await removeOutbox([local]);
+            incoming.push(record);
+        }
+
+        await applyRecords(incoming);
+        incoming.forEach(record => { state.versions[entityKey(record.type, record.id)] = record.version; });
+        state.cursor = page.cursor;
+        await saveSyncStateToDB(state);
+        if (!page.hasMore) return;
+    }
+};
+
+// --- Push ---
+
+const readLocal = async (entry: SyncOutboxEntry): Promise<Pick<SyncRecord, 'data' | 'order'> | null> => {
+    if (entry.deleted) return null;
+    if (entry.type === 'library') {
+        const entity = await getLibraryEntity(entry.id);
+        if (!entity) return null;
+        if (entity.value?.assetId) {
+            const asset = await getAsset(entity.value.assetId);
+            if (asset) await uploadBlob(entity.value.assetId, asset.blob);
+        }
+        return { data: entity.value, order: entity.order };
+    }
+    if (entry.type === 'design') {
+        const design = await getDesign(entry.id);
+        return design && { data: await encodeBlobs(design) };
+    }
+    const session = await getBrainstormSession(entry.id);
+    if (!session) return null;
+    const { revision, ...shared } = session; // Revisions are per device
+    return { data: shared };
+};
+
+const push = async (state: SyncState) => {
+    const entries = (await listOutbox()).filter(entry => isSynced(entry.type, entry.id));
+    for (let i = 0; i < entries.length; i += PUSH_BATCH_SIZE) {
+        const batch = entries.slice(i, i + PUSH_BATCH_SIZE);
+        const records: SyncRecord[] = [];
+        for (const entry of batch) {
+            const local = await readLocal(entry);
+            records.push({
+                type: entry.type,
+                id: entry.id,
+                version: (state.versions[entry.key] || 0) + 1,
+                updatedAt: entry.queuedAt || Date.now(),
+                ...(local ? local : { deleted: true })
+            });
+        }
+
+        const { results } = await requestJSON<{ results: { accepted: boolean, current?: SyncRecord }[] }>('/api/push', { records });
+        const rejected: SyncRecord[] = [];
+        results.forEach((result, j) => {
+            const key = batch[j].key;
+            if (result.accepted) state.versions[key] = records[j].version;
+            else if (result.current) rejected.push(result.current);
+        });
+        // Server copy is newer: last write wins, take it
+        await applyRecords(rejected);
+        rejected.forEach(record => { state.versions[entityKey(record.type, record.id)] = record.version; });
+        await removeOutbox(batch);
+        await saveSyncStateToDB(state);
+        setStatus({ pending: Math.max(0, entries.length - i - batch.length) });
+    }
+};
+
+// --- Loop ---
+
+const scheduleSync = (delay = POLL_INTERVAL_MS) => {
+    if (timer) clearTimeout(timer);
+    timer = config.enabled ? setTimeout(() => { syncTeamNow(); }, delay) : null;
+};
+
+const runSync = async () => {
+    setStatus({ state: 'syncing', message: undefined });
+    try {
+        const state = await loadState();
+        await pull(state);
+        await push(state);
+        setStatus({ state: 'idle', lastSyncedAt: Date.now(), pending: (await listOutbox()).length });
+    } catch (e) {
+        // fetch rejects with a TypeError when the server cannot be reached
+        const offline = e instanceof TypeError;
+        setStatus({
+            state: offline ? 'offline' : 'error',
+            message: offline ? '无法连接同步服务器，修改已排队，恢复连接后自动上传' : e instanceof Error ? e.message : String(e),
+            pending: (await listOutbox()).length
+        });
+    }
+};
+
+/**
+ * Pull then push once. Only one tab syncs at a time (Web Locks); other tabs
+ * see the results through tab sync.
+ */
+export const syncTeamNow = async (): Promise<void> => {
+    if (!config.enabled) return;
+    if (running) return running;
+    // Web Locks are missing in older browsers; syncing from several tabs is then merely redundant
+    running = ('locks' in navigator
+        ? navigator.locks.request('casecraft-team-sync', { ifAvailable: true }, async lock => { if (lock) await runSync(); })
+        : runSync()
+    ).finally(() => {
+        running = null;
+        scheduleSync();
+    });
+    return running;
+};
+
+export const initTeamSync = async () => {
+    config = { ...DEFAULT_TEAM_SYNC_CONFIG, ...await loadSyncConfigFromDB() };
+    observeLocalWrites(writes => {
+        if (config.enabled) queueWrites(writes).catch(reportSaveError);
+    });
+    window.addEventListener('online', () => { syncTeamNow(); });
+    if (!config.enabled) return;
+    setStatus({ state: 'idle', pending: (await listOutbox()).length });
+    syncTeamNow();
+};
+
+/**
+ * Save new settings. Connecting to a different server (or enabling sync) starts
+ * over: everything is pulled, then local data the server lacks is uploaded.
+ */
+export const configureTeamSync = async (next: TeamSyncConfig) => {
+    const previous = config;
+    config = next;
+    await saveSyncConfigToDB(next);
+    if (!next.enabled) {
+        scheduleSync();
+        setStatus({ state: 'off', message: undefined });
+        return;
+    }
+    const restart = !previous.enabled || previous.serverUrl !== next.serverUrl
+        || (next.syncDesigns && !previous.syncDesigns) || (next.syncSessions && !previous.syncSessions);
+    if (restart) {
+        await saveSyncStateToDB<SyncState>({ serverUrl: next.serverUrl, cursor: 0, versions: {} });
+        await queueAllLocal();
+    }
+    setStatus({ state: 'idle' });
+    syncTeamNow();
+};
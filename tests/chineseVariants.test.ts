@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { toSimplified } from '../services/chineseVariants';
+import { dedupeAssociations, normalizeTerm } from '../services/brainstormTerms';
+
+describe('toSimplified', () => {
+    it('maps common traditional characters', () => {
+        expect(toSimplified('國蔔後聲劍鬧錦繡鐺')).toBe('国卜后声剑闹锦绣铛');
+    });
+
+    it('converts whole words', () => {
+        expect(toSimplified('胡蘿蔔')).toBe('胡萝卜');
+        expect(toSimplified('中國風')).toBe('中国风');
+        expect(toSimplified('錦繡山河')).toBe('锦绣山河');
+    });
+
+    it('leaves simplified and non-Chinese text alone', () => {
+        expect(toSimplified('胡萝卜 Moon Rabbit')).toBe('胡萝卜 Moon Rabbit');
+    });
+});
+
+describe('normalizeTerm', () => {
+    it('treats traditional and simplified spellings as one word', () => {
+        expect(normalizeTerm('中國風')).toBe(normalizeTerm('中国风'));
+        expect(normalizeTerm('胡蘿蔔')).toBe(normalizeTerm('胡萝卜'));
+    });
+
+    it('drops cross-script duplicates of existing words', () => {
+        const { result, dropped } = dedupeAssociations({ up: ['中國風'], side: ['胡蘿蔔', '寶劍'], down: [] }, ['中国风', '胡萝卜']);
+        expect(result).toEqual({ up: [], side: ['寶劍'], down: [] });
+        expect(dropped).toBe(2);
+    });
+});
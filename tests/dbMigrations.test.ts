@@ -0,0 +1,159 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { readFileSync } from 'fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Library } from '../types';
+import { initDB, loadLibraryFromDB, loadSpendLogs } from '../services/db';
+import { DB_VERSION, LIBRARY_COLLECTIONS, STORES, runMigrations } from '../services/dbMigrations';
+import { DEFAULT_LIBRARY } from '../services/libraryDefaults';
+
+/**
+ * Each fixture is a database as an older release left it (tests/fixtures/db-vN.json).
+ * Opening it with the current code must run every later step without losing a
+ * library entity, a settings section or a spend record.
+ */
+
+interface Fixture {
+    version: number;
+    description: string;
+    stores: Record<string, { key?: string, value: any }[]>;
+}
+
+const DB_NAME = 'CaseCraftDB';
+const FIXTURE_VERSIONS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const loadFixture = (version: number): Fixture =>
+    JSON.parse(readFileSync(new URL(`./fixtures/db-v${version}.json`, import.meta.url), 'utf8'));
+
+// Create the schema of `fixture.version` with the steps up to it, then fill in the records
+const seed = (fixture: Fixture) => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, fixture.version);
+    request.onupgradeneeded = (event) => runMigrations(request.result, request.transaction!, event.oldVersion, fixture.version);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(Object.keys(fixture.stores), 'readwrite');
+        Object.entries(fixture.stores).forEach(([name, rows]) => {
+            const store = transaction.objectStore(name);
+            rows.forEach(row => row.key === undefined ? store.put(row.value) : store.put(row.value, row.key));
+        });
+        transaction.oncomplete = () => { db.close(); resolve(); };
+        transaction.onerror = () => reject(transaction.error);
+    };
+});
+
+const readKeyValue = async (key: string) => {
+    const db = await initDB();
+    return new Promise<any>((resolve, reject) => {
+        const request = db.transaction([STORES.keyValue], 'readonly').objectStore(STORES.keyValue).get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// What the fixture holds, whichever layout its version used
+const expectedContents = (fixture: Fixture) => {
+    const keyValue = fixture.stores[STORES.keyValue] || [];
+    const blob = keyValue.find(row => row.key === 'userLibrary');
+    if (blob) {
+        const { value } = blob;
+        const collections = LIBRARY_COLLECTIONS.filter(c => Array.isArray(value[c]));
+        return {
+            entities: collections.flatMap(collection => value[collection].map((item: any) => ({ collection, item }))),
+            settings: Object.entries(value).filter(([key]) => !(collections as string[]).includes(key)),
+            spend: keyValue.find(row => row.key === 'spendLedger')?.value || [],
+            revisions: {}
+        };
+    }
+    const settings = fixture.stores[STORES.librarySettings].map(row => [row.key!, row.value] as [string, any]);
+    return {
+        entities: fixture.stores[STORES.libraryEntities].map(row => ({ collection: row.value.collection, item: row.value.value })),
+        settings: settings.filter(([key]) => !key.startsWith('__')),
+        spend: (fixture.stores[STORES.logs] || []).filter(row => row.value.type === 'spend').map(({ value: { type, ...record } }) => record),
+        revisions: settings.find(([key]) => key === '__revisions')?.[1] || {}
+    };
+};
+
+beforeEach(() => {
+    // A fresh, empty browser profile for every test
+    globalThis.indexedDB = new IDBFactory();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe.each(FIXTURE_VERSIONS)('database saved at v%i', (version) => {
+    const fixture = loadFixture(version);
+
+    it(`upgrades to v${DB_VERSION} without losing data`, async () => {
+        await seed(fixture);
+        const stored = await loadLibraryFromDB();
+        expect(stored).not.toBeNull();
+        const library = stored!.library as Library;
+        const expected = expectedContents(fixture);
+
+        expected.entities.forEach(({ collection, item }) => {
+            const found = (library[collection] as { id: string }[]).find(i => i.id === item.id);
+            expect(found, `${collection}/${item.id}`).toMatchObject(item);
+        });
+        expected.settings.forEach(([key, value]) => {
+            if (value && typeof value === 'object') expect(library[key as keyof Library], key).toMatchObject(value);
+            else expect(library[key as keyof Library], key).toEqual(value);
+        });
+        expect(stored!.revisions).toEqual(expected.revisions);
+
+        const spend = await loadSpendLogs();
+        expect(spend).toHaveLength(expected.spend.length);
+        expected.spend.forEach((record: any) => expect(spend).toContainEqual(record));
+    });
+
+    it('comes out in the current library shape', async () => {
+        await seed(fixture);
+        const library = (await loadLibraryFromDB())!.library as Library;
+
+        (Object.keys(DEFAULT_LIBRARY) as (keyof Library)[]).forEach(key => expect(library[key], key).toBeDefined());
+        expect(Object.keys(library.prompts)).toEqual(expect.arrayContaining(Object.keys(DEFAULT_LIBRARY.prompts)));
+        expect(Object.keys(library.models)).toEqual(expect.arrayContaining(Object.keys(DEFAULT_LIBRARY.models)));
+        // Materials saved with a free-text model are linked to the catalog device of that name
+        expect(library.materials.find(m => m.id === 'm1')?.deviceId).toBe('dev_iphone15pro');
+    });
+});
+
+describe('legacy key-value records', () => {
+    it('are removed once moved into the split stores', async () => {
+        await seed(loadFixture(4));
+        await loadLibraryFromDB();
+        expect(await readKeyValue('userLibrary')).toBeUndefined();
+        expect(await readKeyValue('spendLedger')).toBeUndefined();
+        expect(await readKeyValue('activeBrainstormSession')).toBe('session_1719500000000');
+    });
+});
+
+describe('first release library', () => {
+    it('gets the sections added since from the defaults', async () => {
+        await seed(loadFixture(1));
+        const library = (await loadLibraryFromDB())!.library as Library;
+
+        expect(library.models).toEqual(DEFAULT_LIBRARY.models);
+        expect(library.pricing).toEqual(DEFAULT_LIBRARY.pricing);
+        expect(library.budget).toEqual(DEFAULT_LIBRARY.budget);
+        expect(library.cache).toEqual(DEFAULT_LIBRARY.cache);
+        expect(library.devices).toEqual(DEFAULT_LIBRARY.devices);
+        expect(library.prompts.diamondGeneration).toBe(DEFAULT_LIBRARY.prompts.diamondGeneration);
+        expect(library.brainstorm).toEqual(DEFAULT_LIBRARY.brainstorm);
+    });
+});
+
+describe('library saved before brainstorm settings', () => {
+    it('gets the default brainstorm settings and keeps its own sections', async () => {
+        await seed(loadFixture(8));
+        const library = (await loadLibraryFromDB())!.library as Library;
+
+        expect(library.brainstorm).toEqual(DEFAULT_LIBRARY.brainstorm);
+        expect(library.budget).toEqual(loadFixture(8).stores.librarySettings.find(row => row.key === 'budget')!.value);
+    });
+});
+
+describe('fresh install', () => {
+    it('stores no library, so the app starts from the defaults', async () => {
+        expect(await loadLibraryFromDB()).toBeNull();
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createJobQueue } from '../services/jobQueue';
+
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+const settle = () => new Promise(r => setTimeout(r, 0));
+
+describe('job queue cancel', () => {
+    it('still delivers the result of a call that was already running', async () => {
+        const queue = createJobQueue({ concurrency: 1, maxAttempts: 1, backoffMs: 0 });
+        const call = deferred<string>();
+        const onSuccess = vi.fn();
+        const id = queue.enqueue({ kind: 'design', label: 'moon', run: () => call.promise, onSuccess });
+
+        queue.cancel(id);
+        expect(queue.getJobs()[0].status).toBe('cancelled');
+
+        call.resolve('image');
+        await settle();
+        expect(onSuccess).toHaveBeenCalledWith('image');
+        expect(queue.getJobs()[0]).toMatchObject({ status: 'succeeded', lateResult: true });
+    });
+
+    it('never starts a queued job that was cancelled', async () => {
+        const queue = createJobQueue({ concurrency: 1, maxAttempts: 1, backoffMs: 0 });
+        const first = deferred<string>();
+        const run = vi.fn(() => Promise.resolve('second'));
+        queue.enqueue({ kind: 'design', label: 'first', run: () => first.promise, onSuccess: () => {} });
+        queue.enqueue({ kind: 'design', label: 'second', run, onSuccess: () => {} });
+
+        queue.cancelAll();
+        first.resolve('first');
+        await settle();
+        expect(run).not.toHaveBeenCalled();
+        expect(queue.getJobs().map(j => j.status)).toEqual(['succeeded', 'cancelled']);
+    });
+});
+
+describe('job queue reservations', () => {
+    it('are held while queued or running and released once nothing is left to run', async () => {
+        const queue = createJobQueue({ concurrency: 1, maxAttempts: 1, backoffMs: 0 });
+        const held = new Set<string>();
+        const reserve = (label: string) => () => { held.add(label); return () => { held.delete(label); }; };
+        const running = deferred<string>();
+        const done = deferred<string>();
+        const cancelled = queue.enqueue({ kind: 'design', label: 'running', run: () => running.promise, onSuccess: () => {}, reserve: reserve('running') });
+        queue.enqueue({ kind: 'design', label: 'done', run: () => done.promise, onSuccess: () => {}, reserve: reserve('done') });
+        const waiting = queue.enqueue({ kind: 'design', label: 'waiting', run: () => Promise.resolve('x'), onSuccess: () => {}, reserve: reserve('waiting') });
+        expect(held).toEqual(new Set(['running', 'done', 'waiting']));
+
+        queue.cancel(waiting);
+        queue.cancel(cancelled);
+        // The running call may still be billed
+        expect(held).toEqual(new Set(['running', 'done']));
+
+        running.resolve('image');
+        await settle();
+        done.resolve('image');
+        await settle();
+        expect(held.size).toBe(0);
+    });
+});
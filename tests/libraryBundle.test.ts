@@ -0,0 +1,153 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DeviceModel, Library } from '../types';
+import { storeAssetBlob } from '../services/assetStore';
+import { LibraryBundle, LibraryBundleError, applyImport, exportLibraryBundle, planImport, readLibraryBundle } from '../services/libraryBundle';
+import { DEFAULT_LIBRARY } from '../services/libraryDefaults';
+import { createZip, readZip } from '../services/zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const device = (id: string, name: string): DeviceModel => ({
+    id, name, aliases: [], aspectRatio: '9:16', cameraShape: 'square', cameraPosition: 'top-left', cutouts: [], promptNotes: ''
+});
+
+const bundleOf = (manifest: object) => readLibraryBundle(createZip([{ path: 'manifest.json', data: encode(JSON.stringify(manifest)) }]));
+
+beforeEach(() => {
+    // A fresh, empty browser profile for every test
+    globalThis.indexedDB = new IDBFactory();
+});
+
+describe('zip', () => {
+    it('reads back what it writes', async () => {
+        const files = await readZip(createZip([
+            { path: 'manifest.json', data: encode('{"a":1}') },
+            { path: 'assets/图片.png', data: new Uint8Array([0, 1, 2, 255]) },
+        ]));
+        expect([...files.keys()]).toEqual(['manifest.json', 'assets/图片.png']);
+        expect(new TextDecoder().decode(files.get('manifest.json'))).toBe('{"a":1}');
+        expect([...files.get('assets/图片.png')!]).toEqual([0, 1, 2, 255]);
+    });
+});
+
+describe('library bundle round trip', () => {
+    it('exports sections and assets that read back unchanged', async () => {
+        const image = new Blob([new Uint8Array([137, 80, 78, 71, 1, 2, 3])], { type: 'image/png' });
+        const { assetId, url } = await storeAssetBlob(image);
+        const library: Library = {
+            ...DEFAULT_LIBRARY,
+            styles: [{ id: 's_custom', name: '国潮', promptModifier: 'chinese trendy', previewUrl: url, assetId }],
+        };
+
+        const bundle = await readLibraryBundle(await exportLibraryBundle(library, ['styles', 'prompts']));
+
+        expect(bundle.manifest.sections).toEqual(['styles', 'prompts']);
+        expect(bundle.manifest.library.styles).toEqual([{ id: 's_custom', name: '国潮', promptModifier: 'chinese trendy', previewUrl: '', assetId }]);
+        expect(bundle.manifest.library.prompts).toEqual(DEFAULT_LIBRARY.prompts);
+        expect(bundle.manifest.library.materials).toBeUndefined();
+        const blob = bundle.assets.get(assetId)!;
+        expect(blob.type).toBe('image/png');
+        expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array(await image.arrayBuffer()));
+
+        // Importing into the library it came from changes nothing
+        expect(planImport(library, bundle).map(item => item.status)).toEqual(['identical', 'identical']);
+    });
+});
+
+describe('bundle manifest validation', () => {
+    const valid = { format: 'casecraft-library', version: 1, exportedAt: 0, sections: ['styles'], library: { styles: [] }, assets: {} };
+
+    it('accepts a well-formed manifest', async () => {
+        await expect(bundleOf(valid)).resolves.toMatchObject({ manifest: valid });
+    });
+
+    it.each([
+        ['another format', { ...valid, format: 'other' }],
+        ['a newer version', { ...valid, version: 2 }],
+        ['no library object', { ...valid, library: [] }],
+        ['no sections list', { ...valid, sections: 'styles' }],
+        ['an unknown section', { ...valid, sections: ['styles', 'secrets'] }],
+        ['a collection that is not an array', { ...valid, library: { styles: { s1: {} } } }],
+        ['an item without an id', { ...valid, library: { styles: [{ name: 'x' }] } }],
+        ['a settings section that is not an object', { ...valid, sections: ['prompts'], library: { prompts: 'text' } }],
+        ['asset paths that are not strings', { ...valid, assets: { abc: 1 } }],
+    ])('rejects %s', async (_, manifest) => {
+        await expect(bundleOf(manifest)).rejects.toBeInstanceOf(LibraryBundleError);
+    });
+
+    it('rejects files that are not zips or lack a manifest', async () => {
+        await expect(readLibraryBundle(new Blob(['plain text']))).rejects.toBeInstanceOf(LibraryBundleError);
+        await expect(readLibraryBundle(createZip([{ path: 'other.json', data: encode('{}') }]))).rejects.toThrow('manifest.json');
+    });
+});
+
+describe('applyImport conflict resolution', () => {
+    const local: Library = {
+        ...DEFAULT_LIBRARY,
+        devices: [device('dev_a', 'Phone A')],
+        materials: [{ id: 'm1', name: '透明壳', type: 'plastic', color: 'Clear', model: 'Phone A', deviceId: 'dev_a' }],
+    };
+    const incoming: LibraryBundle = {
+        manifest: {
+            format: 'casecraft-library',
+            version: 1,
+            exportedAt: 0,
+            sections: ['materials', 'devices'],
+            library: {
+                devices: [{ ...device('dev_a', 'Phone A'), promptNotes: '摄像头居中' }],
+                materials: [
+                    { id: 'm1', name: '磨砂壳', type: 'plastic', color: 'Black', model: 'Phone A', deviceId: 'dev_a' },
+                    { id: 'm2', name: '新底材', type: 'silicone', color: 'Pink', model: 'Phone A', deviceId: 'dev_a' },
+                ],
+            },
+            assets: {},
+        },
+        assets: new Map(),
+    };
+    const plan = planImport(local, incoming);
+
+    it('plans new and conflicting items', () => {
+        expect(plan.map(({ key, status }) => ({ key, status }))).toEqual([
+            { key: 'materials:m1', status: 'conflict' },
+            { key: 'materials:m2', status: 'new' },
+            { key: 'devices:dev_a', status: 'conflict' },
+        ]);
+    });
+
+    it('overwrite replaces the local items in place', async () => {
+        const { library, summary } = await applyImport(local, incoming, plan, {}, 'overwrite');
+        expect(library.materials.map(m => [m.id, m.name])).toEqual([['m1', '磨砂壳'], ['m2', '新底材']]);
+        expect(library.devices).toEqual(incoming.manifest.library.devices);
+        expect(summary).toEqual({ added: 1, overwritten: 2, duplicated: 0, skipped: 0 });
+    });
+
+    it('keepBoth adds copies and points imported materials at the copied device', async () => {
+        const { library, summary } = await applyImport(local, incoming, plan, {}, 'keepBoth');
+        expect(library.devices).toHaveLength(2);
+        const copy = library.devices[1];
+        expect(copy.id).toMatch(/^dev_a-import-/);
+        expect(copy.name).toBe('Phone A (导入)');
+
+        expect(library.materials.map(m => m.id)).toEqual(['m1', expect.stringMatching(/^m1-import-/), 'm2']);
+        expect(library.materials[0]).toEqual(local.materials[0]);
+        expect(library.materials[1]).toMatchObject({ name: '磨砂壳 (导入)', deviceId: copy.id });
+        expect(library.materials[2].deviceId).toBe(copy.id);
+        expect(summary).toEqual({ added: 1, overwritten: 0, duplicated: 2, skipped: 0 });
+    });
+
+    it('skip keeps the local items and still adds new ones', async () => {
+        const { library, summary } = await applyImport(local, incoming, plan, {}, 'skip');
+        expect(library.devices).toEqual(local.devices);
+        expect(library.materials).toEqual([local.materials[0], incoming.manifest.library.materials![1]]);
+        expect(summary).toEqual({ added: 1, overwritten: 0, duplicated: 0, skipped: 2 });
+    });
+
+    it('per-item resolutions win over the fallback', async () => {
+        const { library, summary } = await applyImport(local, incoming, plan, { 'devices:dev_a': 'skip' }, 'overwrite');
+        expect(library.devices).toEqual(local.devices);
+        expect(library.materials[0].name).toBe('磨砂壳');
+        expect(summary).toEqual({ added: 1, overwritten: 1, duplicated: 0, skipped: 1 });
+    });
+});
@@ -0,0 +1,102 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Library, LibrarySnapshot } from '../types';
+import { storeAssetBlob } from '../services/assetStore';
+import { DEFAULT_LIBRARY } from '../services/libraryDefaults';
+import { LibraryChange, diffLibrary, restoreChange } from '../services/librarySnapshots';
+
+const snapshotOf = (library: Library): LibrarySnapshot => ({ id: 'snap-1', kind: 'manual', name: 'before', createdAt: 0, changed: [], library });
+
+const before: Library = {
+    ...DEFAULT_LIBRARY,
+    styles: [
+        { id: 's1', name: '极简现代', promptModifier: 'minimalist' },
+        { id: 's2', name: '赛博朋克', promptModifier: 'cyberpunk' },
+        { id: 's3', name: '油画质感', promptModifier: 'oil painting' },
+    ],
+};
+
+// s2 removed, s3 edited, s4 added; one prompt edited and one cleared; budget and pricing changed
+const after: Library = {
+    ...before,
+    styles: [
+        { id: 's1', name: '极简现代', promptModifier: 'minimalist' },
+        { id: 's3', name: '油画质感', promptModifier: 'impasto oil painting' },
+        { id: 's4', name: '国潮', promptModifier: 'chinese trendy' },
+    ],
+    prompts: { ...before.prompts, imageAnalysis: '用一个词概括图片主题。', brainstormBase: undefined },
+    budget: { ...before.budget, daily: 50 },
+    pricing: { ...before.pricing, version: 7, exchangeRate: 7.1 },
+};
+
+const change = (changes: LibraryChange[], key: string) => changes.find(c => c.key === key)!;
+
+beforeEach(() => {
+    // A fresh, empty browser profile for every test
+    globalThis.indexedDB = new IDBFactory();
+});
+
+describe('diffLibrary', () => {
+    it('lists item, prompt and settings changes relative to the snapshot', () => {
+        expect(diffLibrary(before, after).map(({ key, change }) => ({ key, change }))).toEqual([
+            { key: 'styles:s3', change: 'modified' },
+            { key: 'styles:s4', change: 'added' },
+            { key: 'styles:s2', change: 'removed' },
+            { key: 'prompts:imageAnalysis', change: 'modified' },
+            { key: 'prompts:brainstormBase', change: 'removed' },
+            { key: 'pricing:pricing', change: 'modified' },
+            { key: 'budget:budget', change: 'modified' },
+        ]);
+        expect(change(diffLibrary(before, after), 'styles:s4').name).toBe('国潮');
+    });
+
+    it('reports nothing for an unchanged library', () => {
+        expect(diffLibrary(before, { ...before })).toEqual([]);
+    });
+
+    it('ignores the runtime object URL of asset-backed images', async () => {
+        const { assetId, url } = await storeAssetBlob(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }));
+        const item = { id: 's5', name: '像素', promptModifier: 'pixel art', assetId };
+        const persisted: Library = { ...before, styles: [...before.styles, { ...item, previewUrl: '' }] };
+        const current: Library = { ...before, styles: [...before.styles, { ...item, previewUrl: url }] };
+        expect(diffLibrary(persisted, current)).toEqual([]);
+    });
+});
+
+describe('restoreChange', () => {
+    const snapshot = snapshotOf(before);
+    const changes = diffLibrary(before, after);
+
+    it('puts a removed item back at its old position', async () => {
+        const restored = await restoreChange(snapshot, after, change(changes, 'styles:s2'));
+        expect(restored.styles.map(s => s.id)).toEqual(['s1', 's2', 's3', 's4']);
+        expect(restored.styles[2].promptModifier).toBe('impasto oil painting');
+    });
+
+    it('drops an added item and reverts a modified one', async () => {
+        const withoutAdded = await restoreChange(snapshot, after, change(changes, 'styles:s4'));
+        expect(withoutAdded.styles.map(s => s.id)).toEqual(['s1', 's3']);
+
+        const reverted = await restoreChange(snapshot, after, change(changes, 'styles:s3'));
+        expect(reverted.styles).toEqual([after.styles[0], before.styles[2], after.styles[2]]);
+    });
+
+    it('restores single prompts without touching the others', async () => {
+        const restored = await restoreChange(snapshot, after, change(changes, 'prompts:brainstormBase'));
+        expect(restored.prompts.brainstormBase).toBe(before.prompts.brainstormBase);
+        expect(restored.prompts.imageAnalysis).toBe(after.prompts.imageAnalysis);
+
+        const cleared = await restoreChange(snapshotOf(after), before, change(diffLibrary(after, before), 'prompts:brainstormBase'));
+        expect('brainstormBase' in cleared.prompts).toBe(false);
+    });
+
+    it('restores settings sections and keeps the pricing version moving forward', async () => {
+        const budget = await restoreChange(snapshot, after, change(changes, 'budget:budget'));
+        expect(budget.budget).toEqual(before.budget);
+        expect(budget.pricing).toBe(after.pricing);
+
+        const pricing = await restoreChange(snapshot, after, change(changes, 'pricing:pricing'));
+        expect(pricing.pricing).toMatchObject({ exchangeRate: before.pricing.exchangeRate, version: after.pricing.version + 1 });
+    });
+});
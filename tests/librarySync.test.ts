@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Library } from '../types';
+import { loadLibraryFromDB, saveLibraryToDB } from '../services/db';
+import { DEFAULT_LIBRARY } from '../services/libraryDefaults';
+import { initLibrarySync, persistLibrary, pullLibrary } from '../services/librarySync';
+
+const initial: Library = {
+    ...DEFAULT_LIBRARY,
+    styles: [
+        { id: 's1', name: '极简现代', promptModifier: 'minimalist' },
+        { id: 's2', name: '赛博朋克', promptModifier: 'cyberpunk' },
+    ],
+};
+
+// Another tab saving from the revisions it loaded before this tab's latest state
+const saveFromOtherTab = async (library: Library, sections: (keyof Library)[]) => {
+    const stored = await loadLibraryFromDB();
+    return saveLibraryToDB(library, new Set(sections), stored!.revisions);
+};
+
+beforeEach(async () => {
+    // A fresh, empty browser profile for every test, with this tab's first save in it
+    globalThis.indexedDB = new IDBFactory();
+    initLibrarySync(null);
+    await persistLibrary(initial);
+});
+
+describe('library sync, same section', () => {
+    it('merges edits to different items and saves the merge again', async () => {
+        const mine: Library = { ...initial, styles: [{ ...initial.styles[0], name: '极简' }, initial.styles[1]] };
+        const theirs: Library = { ...initial, styles: [...initial.styles, { id: 's3', name: '国潮', promptModifier: 'chinese trendy' }] };
+        await saveFromOtherTab(theirs, ['styles']);
+
+        // Stale save is refused rather than overwriting the other tab
+        const rejected = await persistLibrary(mine, new Set(['styles']));
+        expect(rejected).toEqual({ written: {}, conflicts: ['styles'] });
+
+        const keepMine = vi.fn(() => true);
+        const { updates, rewrite } = await pullLibrary(mine, ['styles'], keepMine);
+        expect(keepMine).not.toHaveBeenCalled();
+        expect(updates.styles).toEqual([mine.styles[0], initial.styles[1], theirs.styles[2]]);
+        expect(rewrite).toEqual(['styles']);
+
+        const saved = await persistLibrary({ ...mine, ...updates }, new Set(rewrite));
+        expect(saved.conflicts).toEqual([]);
+        expect((await loadLibraryFromDB())!.library.styles).toEqual(updates.styles);
+    });
+
+    it('asks once when both tabs changed the same item', async () => {
+        const mine: Library = { ...initial, styles: [{ ...initial.styles[0], promptModifier: 'mine' }, initial.styles[1]] };
+        const theirs: Library = { ...initial, styles: [{ ...initial.styles[0], promptModifier: 'theirs' }, initial.styles[1]] };
+        await saveFromOtherTab(theirs, ['styles']);
+
+        const keepMine = vi.fn(() => false);
+        const { updates, rewrite } = await pullLibrary(mine, ['styles'], keepMine);
+        expect(keepMine).toHaveBeenCalledOnce();
+        expect(keepMine).toHaveBeenCalledWith(['风格库 · 极简现代']);
+        // Theirs kept: nothing left to save
+        expect(updates.styles![0].promptModifier).toBe('theirs');
+        expect(rewrite).toEqual([]);
+    });
+
+    it('keeps local edits of the same item when asked to', async () => {
+        const mine: Library = { ...initial, styles: [{ ...initial.styles[0], promptModifier: 'mine' }, initial.styles[1]] };
+        const theirs: Library = { ...initial, styles: [{ ...initial.styles[0], promptModifier: 'theirs' }] };
+        await saveFromOtherTab(theirs, ['styles']);
+
+        const { updates, rewrite } = await pullLibrary(mine, ['styles'], () => true);
+        // s2 was removed by the other tab and untouched here, so the removal stands
+        expect(updates.styles).toEqual([mine.styles[0]]);
+        expect(rewrite).toEqual(['styles']);
+    });
+
+    it('merges settings sections per key', async () => {
+        const mine: Library = { ...initial, budget: { ...initial.budget, daily: 20 } };
+        const theirs: Library = { ...initial, budget: { ...initial.budget, weekly: 100 } };
+        await saveFromOtherTab(theirs, ['budget']);
+
+        const { updates } = await pullLibrary(mine, ['budget'], () => true);
+        expect(updates.budget).toEqual({ ...initial.budget, daily: 20, weekly: 100 });
+    });
+});
+
+describe('library sync, different sections', () => {
+    it('takes the other tab\'s section as is and leaves local sections alone', async () => {
+        const theirs: Library = { ...initial, prompts: { ...initial.prompts, imageAnalysis: '用一个词概括图片主题。' } };
+        await saveFromOtherTab(theirs, ['prompts']);
+
+        const mine: Library = { ...initial, budget: { ...initial.budget, daily: 20 } };
+        const saved = await persistLibrary(mine, new Set(['budget']));
+        expect(saved.conflicts).toEqual([]);
+
+        const keepMine = vi.fn(() => true);
+        const { updates, rewrite } = await pullLibrary(mine, ['prompts', 'budget'], keepMine);
+        expect(keepMine).not.toHaveBeenCalled();
+        // Budget is this tab's own latest write, so only prompts come in
+        expect(updates).toEqual({ prompts: theirs.prompts });
+        expect(rewrite).toEqual([]);
+
+        const stored = (await loadLibraryFromDB())!.library;
+        expect(stored.prompts).toEqual(theirs.prompts);
+        expect(stored.budget).toEqual(mine.budget);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, TemplateSyntaxError, validateTemplate } from '../services/promptTemplate';
+
+const syntaxError = (source: string) => {
+    try {
+        renderTemplate(source, {});
+    } catch (e) {
+        return e;
+    }
+    throw new Error('expected a syntax error');
+};
+
+describe('prompt template parse errors', () => {
+    it('reports the line of an unclosed block', () => {
+        const error = syntaxError('Design for {{concept}}\n\n{{#if mainDiamondColor}}\nwith diamonds');
+        expect(error).toBeInstanceOf(TemplateSyntaxError);
+        expect(error).toMatchObject({ line: 3 });
+        expect((error as Error).message).toBe('第 3 行: {{#if}} 缺少 {{/if}}');
+    });
+
+    it('reports mismatched and stray closing tags where they appear', () => {
+        expect(syntaxError('{{#each items}}\n{{this}}\n{{/if}}')).toMatchObject({ line: 3 });
+        expect(syntaxError('text\n{{/each}}')).toMatchObject({ line: 2 });
+        expect(syntaxError('{{#each items}}{{else}}{{/each}}')).toMatchObject({ line: 1 });
+    });
+});
+
+describe('prompt template rendering', () => {
+    it('joins loop items using @last', () => {
+        const source = '{{#each colors}}{{this}}{{#unless @last}}、{{/unless}}{{/each}}';
+        expect(renderTemplate(source, { colors: ['红', '蓝', '金'] })).toBe('红、蓝、金');
+        expect(renderTemplate(source, { colors: [] })).toBe('');
+    });
+
+    it('exposes @index, @first and dot paths inside loops', () => {
+        const source = '{{#each styles}}{{#if @first}}[{{/if}}{{@index}}:{{this.name}} {{/each}}';
+        expect(renderTemplate(source, { styles: [{ name: 'a' }, { name: 'b' }] })).toBe('[0:a 1:b ');
+    });
+
+    it('applies filters in order', () => {
+        expect(renderTemplate('{{colors | quote | join: ", "}}', { colors: ['red', 'blue'] })).toBe('“red”, “blue”');
+        expect(renderTemplate('{{styleName | default: "Standard" | upper}}', {})).toBe('STANDARD');
+        expect(renderTemplate('{{ concept | trim | lower }}', { concept: '  MOON ' })).toBe('moon');
+        expect(renderTemplate('{{colors | length}}', { colors: ['a', 'b', 'c'] })).toBe('3');
+    });
+
+    it('renders else branches and missing variables as empty', () => {
+        const source = '{{#if mainDiamondColor}}{{mainDiamondColor}}{{else}}none{{/if}}{{unknown}}';
+        expect(renderTemplate(source, { mainDiamondColor: '' })).toBe('none');
+        expect(renderTemplate(source, { mainDiamondColor: 'AB' })).toBe('AB');
+    });
+});
+
+describe('validateTemplate', () => {
+    it('requires the variables a kind depends on', () => {
+        expect(validateTemplate('Variants of {{concept}}', 'variantDesigner')).toEqual(['缺少必需变量 {{count}}']);
+        expect(validateTemplate('{{count}} variants of {{concept}}', 'variantDesigner')).toEqual([]);
+        expect(validateTemplate('{{#if concept}}x{{/if}}', 'designGeneration')).toEqual([]);
+    });
+
+    it('flags unknown variables, unknown filters and loop variables outside loops', () => {
+        expect(validateTemplate('{{concept}}\n{{colour | shout}}\n{{@last}}', 'designGeneration')).toEqual([
+            '第 2 行: 未知变量 {{colour}}',
+            '第 2 行: 未知过滤器 "shout"',
+            '第 3 行: {{@last}} 只能在 {{#each}} 中使用',
+        ]);
+    });
+
+    it('returns parse errors instead of throwing', () => {
+        expect(validateTemplate('{{concept}}\n{{#each secondaryDiamondColors}}', 'designGeneration'))
+            .toEqual(['第 2 行: {{#each}} 缺少 {{/each}}']);
+    });
+});
@@ -4,15 +4,38 @@ export interface MaterialOption {
   name: string;
   type: string; // plastic, silicone, etc.
   color: string;
-  previewUrl?: string; // Data URL for the base material image
-  model: string; // e.g., iPhone 15 Pro
+  previewUrl?: string; // Base material image (object URL when backed by an asset)
+  assetId?: string; // Content hash of the uploaded image in the asset store
+  model: string; // e.g., iPhone 15 Pro (display snapshot of the device name)
+  deviceId?: string; // DeviceModel this case fits
+}
+
+export type CameraModuleShape = 'square' | 'rectangle' | 'bar' | 'circle' | 'pill' | 'separate';
+export type CameraModulePosition = 'top-left' | 'top-center' | 'top-right' | 'top-full-width';
+
+export interface DeviceCutout {
+  kind: 'button' | 'port' | 'speaker' | 'mic' | 'other';
+  side: 'left' | 'right' | 'top' | 'bottom';
+  label: string; // e.g. 音量键, USB-C
+}
+
+export interface DeviceModel {
+  id: string;
+  name: string; // e.g. iPhone 17 Pro
+  aliases: string[]; // Alternate spellings matched against legacy material model text
+  aspectRatio: string; // Render aspect ratio, one of the image API's supported values
+  cameraShape: CameraModuleShape;
+  cameraPosition: CameraModulePosition;
+  cutouts: DeviceCutout[];
+  promptNotes: string; // Extra device-specific prompt wording
 }
 
 export interface ProcessOption {
   id: string;
   name: string;
   description: string;
-  previewUrl?: string; // Data URL for texture/effect reference
+  previewUrl?: string; // Texture/effect reference (object URL when backed by an asset)
+  assetId?: string;
   category?: 'standard' | 'diamond'; // New field to distinguish process types
 }
 
@@ -20,30 +43,108 @@ export interface DiamondColor {
   id: string;
   name: string;
   previewUrl: string; // The image of the diamond texture/color
+  assetId?: string;
 }
 
 export interface StyleOption {
   id: string;
   name: string;
   promptModifier: string;
-  previewUrl?: string; // Data URL for style reference
+  previewUrl?: string; // Style reference (object URL when backed by an asset)
+  assetId?: string;
 }
 
 export interface SystemPrompts {
   imageAnalysis: string;
   brainstormRoot: string; // Main instruction for 3-way association (Up/Side/Down)
   brainstormBase?: string; // Base system instruction
-  designGeneration: string;
+  designGeneration: string; // Template for standard processes
+  diamondGeneration: string; // Template for diamond (满钻) processes
   variantDesigner: string; // New: Agent prompt for redesigning variants
 }
 
+export type AIProviderId = 'gemini' | 'mock';
+
+// Normalized failure categories for every AI call (see services/aiErrors.ts)
+export type AIErrorKind = 'auth' | 'quota' | 'region' | 'safety' | 'overloaded' | 'badRequest' | 'parse' | 'network' | 'unknown';
+
+export type ModelOperation = 'associate' | 'analyze' | 'variantRewrite' | 'imageGenerate';
+
+export interface ModelChainEntry {
+  model: string;
+  retries: number; // Extra attempts on the same model before moving on
+  delayMs: number; // Wait before each retry / before switching to this model
+}
+
+// Ordered fallback chain per operation, first entry is the primary model
+export type ModelRegistry = Record<ModelOperation, ModelChainEntry[]>;
+
+export interface ModelPricing {
+  model: string;
+  inputPerMillion: number;  // USD per 1M input tokens
+  outputPerMillion: number; // USD per 1M output tokens
+  imagePrices?: Record<string, number>; // USD per generated image, keyed by imageSize (1K / 2K / 4K)
+}
+
+export interface PricingTable {
+  version: number;    // Bumped on every edit, stamped into each CostInfo
+  updatedAt: number;
+  currency: string;   // Local billing currency code, e.g. CNY
+  exchangeRate: number; // 1 USD in local currency
+  models: ModelPricing[];
+}
+
+export interface SpendBudget {
+  currency: string; // 'USD' or the pricing table's local currency
+  session: number;  // Limits in `currency`, 0 = unlimited
+  daily: number;
+  weekly: number;
+  mode: 'warn' | 'block'; // What happens when a pre-flight estimate exceeds a limit
+}
+
+export interface SpendRecord {
+  timestamp: number;
+  operation: ModelOperation;
+  model: string;
+  totalUSD: number;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  cacheImages: boolean; // Image generation is opt-in, entries are large
+  maxSizeMB: number; // Least recently used entries are evicted above this
+}
+
+export interface BrainstormSettings {
+  contextDepth: number; // Ancestors of a node included in expansion / generation prompts (0: the node alone)
+}
+
+// Index record for one cached AI response; the payload lives in a separate store
+export interface CacheEntryMeta {
+  key: string; // SHA-256 of provider, model chain, prompt, reference-image hashes and config
+  operation: ModelOperation;
+  label: string; // Word / concept for display
+  models: string[];
+  sizeBytes: number;
+  hits: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
 export interface Library {
+  devices: DeviceModel[];
   materials: MaterialOption[];
   processes: ProcessOption[];
   styles: StyleOption[];
   mainDiamondColors: DiamondColor[]; // Separate Main Colors (Base)
   secondaryDiamondColors: DiamondColor[]; // Separate Secondary Colors (Pattern)
   prompts: SystemPrompts;
+  models: ModelRegistry;
+  pricing: PricingTable;
+  budget: SpendBudget;
+  cache: CacheSettings;
+  brainstorm: BrainstormSettings;
+  aiProvider?: AIProviderId; // Backend for all AI calls, defaults to build-time setting
 }
 
 export interface AppSelection {
@@ -65,7 +166,11 @@ export interface CostInfo {
   inputCostUSD: number;
   outputCostUSD: number;
   totalUSD: number;
-  totalCNY: number;
+  totalLocal: number;   // totalUSD converted at exchangeRate
+  currency: string;
+  exchangeRate: number;
+  pricingVersion: number; // PricingTable version this call was billed under
+  rates?: ModelPricing;   // Snapshot of the price entry used, absent if the model was unpriced
 }
 
 export interface GenerationMetadata {
@@ -79,6 +184,8 @@ export interface GenerationMetadata {
   usage?: UsageMetadata;
   cost?: CostInfo;
   imageSize?: string;
+  aspectRatio?: string;
+  cacheHit?: boolean; // Served from the response cache, no new spend
 }
 
 export interface MindMapNode {
@@ -92,6 +199,7 @@ export interface MindMapNode {
   isLoading?: boolean;
   isSelected?: boolean; // For navigation path
   isMarked?: boolean;   // For batch generation selection
+  isPinned?: boolean;   // Kept in place by every brainstorm layout
   associationType?: 'up' | 'side' | 'down' | 'root'; // New field for 3-way association
   generationMetadata?: GenerationMetadata;
 }
@@ -102,5 +210,110 @@ export interface GeneratedDesign {
   concept: string;
   configSummary: string;
   timestamp: number;
+  starred?: boolean; // Starred designs are kept by storage cleanup
   generationMetadata?: GenerationMetadata;
 }
+
+// Mind map node with its canvas position, as saved in a brainstorm session
+export interface SavedMindMapNode extends MindMapNode {
+  x: number;
+  y: number;
+}
+
+export interface BrainstormViewport {
+  x: number; // Pan
+  y: number;
+  k: number; // Zoom
+}
+
+// Force simulation or one of the deterministic arrangements (services/brainstormLayouts.ts)
+export type BrainstormLayout = 'force' | 'radial' | 'tree' | 'clusters';
+
+export interface BrainstormSession {
+  id: string;
+  name: string;
+  nodes: SavedMindMapNode[];
+  links: { source: string; target: string; strength: number }[];
+  viewport: BrainstormViewport;
+  layout?: BrainstormLayout; // Missing on older sessions: 'force'
+  createdAt: number;
+  updatedAt: number;
+  revision?: number; // Bumped on every save, so a stale tab notices another tab's edits
+}
+
+// Point-in-time copy of the library (persisted form: asset ids, no object URLs)
+export interface LibrarySnapshot {
+  id: string;
+  kind: 'auto' | 'manual'; // auto: taken on save, manual: named checkpoint
+  name?: string;
+  createdAt: number;
+  changed: string[]; // Library sections touched by the save that produced it
+  library: Library;
+}
+
+// Uploaded library image, keyed by the SHA-256 of its bytes so identical uploads share one record
+export interface StoredAsset {
+  id: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+}
+
+// GeneratedDesign as persisted in IndexedDB: images kept as Blobs instead of base64
+export interface StoredDesign {
+  id: string;
+  concept: string;
+  configSummary: string;
+  timestamp: number;
+  starred?: boolean;
+  image: Blob;
+  generationMetadata?: Omit<GenerationMetadata, 'referenceImages'> & {
+    referenceImages: { label: string; image: Blob }[];
+  };
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  kind: 'design' | 'variant';
+  label: string; // Concept shown in the queue panel
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  error?: string; // Actionable message for the last failure
+  errorKind?: AIErrorKind;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  nextRetryAt?: number; // Set while waiting out a backoff
+  lateResult?: boolean; // Cancelled while its call was running, which then succeeded (and was billed)
+}
+
+// --- Team Sync ---
+
+// Device-local connection to the Gemini proxy (server/gemini-proxy.mjs), which holds the API key
+export interface GeminiProxyConfig {
+  url: string;     // Empty: use the build-time default (GEMINI_PROXY_URL)
+  token?: string;  // Per-user token issued by the proxy admin; quotas are counted per token
+}
+
+// Device-local connection to a self-hosted sync server (not part of the synced library)
+export interface TeamSyncConfig {
+  enabled: boolean;
+  serverUrl: string;   // e.g. http://localhost:8787
+  token?: string;      // Sent as a Bearer token when the server requires one
+  syncDesigns: boolean;
+  syncSessions: boolean;
+}
+
+export type SyncEntityType = 'library' | 'design' | 'session';
+
+// Local change waiting to be pushed; one entry per entity, newest change wins
+export interface SyncOutboxEntry {
+  key: string;         // `${type}:${id}`
+  type: SyncEntityType;
+  id: string;          // Library: `materials/m1` or `settings/prompts`
+  deleted?: boolean;
+  queuedAt: number;
+}